@@ -0,0 +1,88 @@
+import { describe, expect, it } from "@jest/globals";
+import { BoundedBuffer } from "./bounded-buffer.js";
+
+describe("BoundedBuffer", () => {
+  it("should hold items up to the cap", () => {
+    const buffer = new BoundedBuffer<number>(3);
+    [1, 2, 3].forEach((n) => buffer.push(n));
+
+    expect(buffer.size).toBe(3);
+    expect(buffer.isFull).toBe(true);
+    expect(buffer.dropped).toBe(0);
+    expect(buffer.drain()).toEqual([1, 2, 3]);
+    expect(buffer.size).toBe(0);
+  });
+
+  describe("drop-oldest", () => {
+    it("should evict the oldest items", () => {
+      const buffer = new BoundedBuffer<number>(2, "drop-oldest");
+      [1, 2, 3, 4].forEach((n) => buffer.push(n));
+
+      expect(buffer.drain()).toEqual([3, 4]);
+      expect(buffer.dropped).toBe(2);
+    });
+
+    it("should trim the oldest items when re-queuing", () => {
+      const buffer = new BoundedBuffer<number>(3, "drop-oldest");
+      buffer.push(3);
+      buffer.push(4);
+      buffer.requeue([1, 2]);
+
+      expect(buffer.drain()).toEqual([2, 3, 4]);
+      expect(buffer.dropped).toBe(1);
+    });
+  });
+
+  describe("drop-newest", () => {
+    it("should reject new items", () => {
+      const buffer = new BoundedBuffer<number>(2, "drop-newest");
+
+      expect(buffer.push(1)).toBe(true);
+      expect(buffer.push(2)).toBe(true);
+      expect(buffer.push(3)).toBe(false);
+      expect(buffer.drain()).toEqual([1, 2]);
+      expect(buffer.dropped).toBe(1);
+    });
+
+    it("should trim the newest items when re-queuing", () => {
+      const buffer = new BoundedBuffer<number>(3, "drop-newest");
+      buffer.push(3);
+      buffer.push(4);
+      buffer.requeue([1, 2]);
+
+      expect(buffer.drain()).toEqual([1, 2, 3]);
+      expect(buffer.dropped).toBe(1);
+    });
+  });
+
+  describe("block", () => {
+    it("should never hold more than the cap", () => {
+      const buffer = new BoundedBuffer<number>(2, "block");
+      const accepted = [1, 2, 3, 4].map((n) => buffer.push(n));
+
+      expect(accepted).toEqual([true, true, false, false]);
+      expect(buffer.size).toBe(2);
+      expect(buffer.dropped).toBe(2);
+      expect(buffer.drain()).toEqual([1, 2]);
+    });
+
+    it("should hold producers back until a drain frees space", async () => {
+      const buffer = new BoundedBuffer<number>(2, "block");
+      const produce = async (items: number[]) => {
+        for (const item of items) {
+          await buffer.waitForSpace();
+          buffer.push(item);
+        }
+      };
+
+      const producer = produce([1, 2, 3, 4]);
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(buffer.size).toBe(2);
+
+      expect(buffer.drain()).toEqual([1, 2]);
+      await producer;
+      expect(buffer.drain()).toEqual([3, 4]);
+      expect(buffer.dropped).toBe(0);
+    });
+  });
+});
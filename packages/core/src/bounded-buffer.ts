@@ -0,0 +1,99 @@
+export type OverflowPolicy = "drop-oldest" | "drop-newest" | "block";
+
+/**
+ * FIFO buffer with a hard cap and an explicit overflow policy:
+ *
+ * - `drop-oldest`: evict the oldest item to make room for the new one
+ * - `drop-newest`: reject the new item
+ * - `block`: apply backpressure. Producers await `waitForSpace()` before
+ *   pushing and resume once a drain frees space. A synchronous `push` into
+ *   a full buffer cannot wait, so it rejects the item like `drop-newest`.
+ *
+ * The buffer never holds more than `maxSize` items. Every dropped item is
+ * counted so the loss can be reported.
+ */
+export class BoundedBuffer<T> {
+  private items: T[] = [];
+  private spaceWaiters: Array<() => void> = [];
+  private droppedCount = 0;
+
+  constructor(
+    private readonly maxSize = 10000,
+    private readonly policy: OverflowPolicy = "drop-oldest"
+  ) {}
+
+  /** Add an item. Returns false if the item was dropped. */
+  push(item: T): boolean {
+    if (this.items.length < this.maxSize) {
+      this.items.push(item);
+      return true;
+    }
+
+    switch (this.policy) {
+      case "drop-oldest":
+        this.items.shift();
+        this.items.push(item);
+        this.droppedCount++;
+        return true;
+      default:
+        this.droppedCount++;
+        return false;
+    }
+  }
+
+  /** Remove and return everything currently in the buffer */
+  drain(): T[] {
+    const items = this.items;
+    this.items = [];
+    const waiters = this.spaceWaiters;
+    this.spaceWaiters = [];
+    waiters.forEach((resolve) => resolve());
+    return items;
+  }
+
+  /** The queued items, oldest first, without removing them */
+  peek(): readonly T[] {
+    return this.items;
+  }
+
+  /** Resolves immediately while there is room, otherwise after the next drain */
+  waitForSpace(): Promise<void> {
+    if (!this.isFull) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.spaceWaiters.push(resolve));
+  }
+
+  /**
+   * Put items that failed to send back at the front of the buffer, trimming
+   * according to the overflow policy if they no longer fit.
+   */
+  requeue(items: T[]): void {
+    const combined = [...items, ...this.items];
+    const overflow = combined.length - this.maxSize;
+
+    if (overflow <= 0) {
+      this.items = combined;
+      return;
+    }
+
+    this.droppedCount += overflow;
+    this.items =
+      this.policy === "drop-oldest"
+        ? combined.slice(overflow)
+        : combined.slice(0, this.maxSize);
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  get isFull(): boolean {
+    return this.items.length >= this.maxSize;
+  }
+
+  /** Total number of items dropped since the buffer was created */
+  get dropped(): number {
+    return this.droppedCount;
+  }
+}
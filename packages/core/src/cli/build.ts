@@ -33,7 +33,8 @@ async function fetchGatekeeperSchema(
   }
 }
 
-async function build() {
+/** Generate gatekeeper types from the project's gatekeeper schema */
+export async function build(): Promise<void> {
   console.log("[Lumberjack] Building gatekeeper types...");
 
   const serviceToken = getEnvironmentValue("LUMBERJACK_SERVICE_TOKEN");
@@ -96,9 +97,3 @@ declare module '@lumberjack-sdk/core' {
 }
 `;
 }
-
-// Run the build command
-build().catch((error) => {
-  console.error("[Lumberjack] Build failed:", error);
-  process.exit(1);
-});
@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { runCli } from "./run.js";
+
+describe("runCli", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const capture = () => {
+    const output: string[] = [];
+    jest
+      .spyOn(console, "log")
+      .mockImplementation((line: unknown) => output.push(String(line)));
+    return output;
+  };
+
+  it("should print usage under the given name for unknown commands", async () => {
+    const output = capture();
+
+    expect(await runCli(["nope"], "lumberjack")).toBe(1);
+    expect(output[0]).toBe("Usage: lumberjack <command>");
+    expect(output).toContain(
+      "  sourcemaps    Upload source maps from a build directory (sourcemaps upload <dir>)"
+    );
+  });
+
+  it("should hand sourcemaps arguments to the sourcemaps command", async () => {
+    const output = capture();
+
+    expect(await runCli(["sourcemaps"], "lumberjack")).toBe(1);
+    expect(output[0]).toBe(
+      "Usage: lumberjack sourcemaps upload <dir> [options]"
+    );
+  });
+});
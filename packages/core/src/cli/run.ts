@@ -0,0 +1,45 @@
+/** Commands of the core CLI, with their one-line descriptions */
+export const CLI_COMMANDS: Record<string, string> = {
+  build: "Fetch and generate gatekeeper types",
+  sourcemaps:
+    "Upload source maps from a build directory (sourcemaps upload <dir>)",
+};
+
+function printUsage(name: string): void {
+  console.log(`Usage: ${name} <command>`);
+  console.log("");
+  console.log("Commands:");
+  for (const [command, description] of Object.entries(CLI_COMMANDS)) {
+    console.log(`  ${command.padEnd(14)}${description}`);
+  }
+}
+
+/**
+ * Run a core CLI command, e.g. `["sourcemaps", "upload", "dist"]`; resolves
+ * with the process exit code. `name` is the binary shown in the usage text.
+ */
+export async function runCli(
+  args: string[],
+  name = "lumberjack-sdk-cli"
+): Promise<number> {
+  const [command, ...rest] = args;
+  switch (command) {
+    case "build": {
+      const { build } = await import("./build.js");
+      try {
+        await build();
+        return 0;
+      } catch (error) {
+        console.error("[Lumberjack] Build failed:", error);
+        return 1;
+      }
+    }
+    case "sourcemaps": {
+      const { sourcemaps } = await import("./sourcemaps.js");
+      return sourcemaps(rest, name);
+    }
+    default:
+      printUsage(name);
+      return 1;
+  }
+}
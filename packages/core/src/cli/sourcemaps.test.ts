@@ -0,0 +1,236 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from "@jest/globals";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { findSourceMaps, sourcemaps, uploadSourceMaps } from "./sourcemaps.js";
+
+interface CapturedRequest {
+  headers: IncomingMessage["headers"];
+  form: FormData;
+}
+
+interface StubResponse {
+  status: number;
+  body?: string;
+  headers?: Record<string, string>;
+}
+
+describe("sourcemaps CLI", () => {
+  let dir: string;
+  let server: Server;
+  let endpoint: string;
+  let requests: CapturedRequest[];
+  let responses: StubResponse[];
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), "lumberjack-sourcemaps-"));
+    for (const file of [
+      "app.js",
+      "app.js.map",
+      "assets/vendor.js.map",
+      "assets/styles.css.map",
+      "node_modules/dep/index.js.map",
+    ]) {
+      mkdirSync(join(dir, file, ".."), { recursive: true });
+      writeFileSync(join(dir, file), `{"version":3,"file":"${file}"}`);
+    }
+
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", async () => {
+        const form = await new Response(Buffer.concat(chunks), {
+          headers: { "Content-Type": req.headers["content-type"]! },
+        }).formData();
+        requests.push({ headers: req.headers, form });
+        const response = responses.shift() ?? { status: 200 };
+        res.writeHead(response.status, response.headers);
+        res.end(response.body ?? "{}");
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    rmSync(dir, { recursive: true, force: true });
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const reset = () => {
+    requests = [];
+    responses = [];
+  };
+
+  it("should find source maps with include, exclude and URL prefix", async () => {
+    const all = await findSourceMaps(dir);
+    expect(all.map((file) => file.relativePath)).toEqual([
+      "app.js.map",
+      "assets/styles.css.map",
+      "assets/vendor.js.map",
+    ]);
+
+    const js = await findSourceMaps(dir, {
+      include: ["**/*.js.map"],
+      exclude: ["app.js.map"],
+      urlPrefix: "https://cdn.example.com/static/",
+    });
+    expect(js).toMatchObject([
+      {
+        relativePath: "assets/vendor.js.map",
+        url: "https://cdn.example.com/static/assets/vendor.js.map",
+      },
+    ]);
+  });
+
+  it("should upload each map in the form the Next.js plugin sends", async () => {
+    reset();
+    const files = await findSourceMaps(dir, { urlPrefix: "~/static" });
+
+    const results = await uploadSourceMaps(files, {
+      serviceToken: "token",
+      endpoint,
+      project: "web",
+      commit: "abc123",
+      release: "1.2.0",
+      concurrency: 2,
+    });
+
+    expect(results.every((result) => result.success)).toBe(true);
+    expect(requests).toHaveLength(3);
+    expect(requests[0]!.headers.authorization).toBe("Bearer token");
+    const uploaded = requests.map(({ form }) => {
+      const file = form.get("sourcemap") as File;
+      return {
+        project: form.get("project"),
+        commit: form.get("commit"),
+        version: form.get("version"),
+        url: file.name,
+      };
+    });
+    expect(uploaded).toEqual(
+      expect.arrayContaining([
+        {
+          project: "web",
+          commit: "abc123",
+          version: "1.2.0",
+          url: "~/static/assets/vendor.js.map",
+        },
+      ])
+    );
+  });
+
+  it("should retry retryable failures and give up on the rest", async () => {
+    reset();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    const files = await findSourceMaps(dir, { include: ["assets/*.map"] });
+    responses = [
+      { status: 503, headers: { "Retry-After": "0" } },
+      { status: 400, body: "bad map" },
+      { status: 200 },
+    ];
+
+    const results = await uploadSourceMaps(files, {
+      serviceToken: "token",
+      endpoint,
+      project: "web",
+      commit: "abc123",
+      concurrency: 1,
+      retry: { maxAttempts: 3, initialDelayMs: 1, jitter: 0 },
+    });
+
+    expect(results).toMatchObject([
+      { success: false, attempts: 2, error: "HTTP 400: bad map" },
+      { success: true, attempts: 1 },
+    ]);
+    jest.restoreAllMocks();
+  });
+
+  it("should fail files that cannot be read without retrying", async () => {
+    reset();
+    const log = jest.spyOn(console, "log").mockImplementation(() => {});
+    const [file] = await findSourceMaps(dir, { include: ["app.js.map"] });
+    const missing = {
+      ...file!,
+      filePath: join(dir, "missing.js.map"),
+      url: "missing.js.map",
+    };
+
+    const results = await uploadSourceMaps([missing, file!], {
+      serviceToken: "token",
+      endpoint,
+      project: "web",
+      commit: "abc123",
+      retry: { maxAttempts: 3 },
+    });
+
+    expect(results).toMatchObject([
+      { success: false, attempts: 0, error: expect.stringContaining("ENOENT") },
+      { success: true, attempts: 1 },
+    ]);
+    expect(requests).toHaveLength(1);
+    expect(log).not.toHaveBeenCalled();
+    jest.restoreAllMocks();
+  });
+
+  it("should limit attempts per file with --attempts", async () => {
+    reset();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    process.env.LUMBERJACK_SERVICE_TOKEN = "token";
+    responses = [
+      { status: 503, headers: { "Retry-After": "0" } },
+      { status: 503, headers: { "Retry-After": "0" } },
+    ];
+
+    const code = await sourcemaps([
+      "upload",
+      dir,
+      "--include",
+      "app.js.map",
+      "--commit",
+      "abc123",
+      "--project",
+      "web",
+      "--endpoint",
+      endpoint,
+      "--attempts",
+      "2",
+    ]);
+
+    expect(code).toBe(1);
+    expect(requests).toHaveLength(2);
+    delete process.env.LUMBERJACK_SERVICE_TOKEN;
+    jest.restoreAllMocks();
+  });
+
+  it("should list files without uploading in dry-run mode", async () => {
+    reset();
+    const output: string[] = [];
+    jest
+      .spyOn(console, "log")
+      .mockImplementation((line: unknown) => output.push(String(line)));
+
+    const code = await sourcemaps([
+      "upload",
+      dir,
+      "--dry-run",
+      "--commit",
+      "abc123",
+      "--project",
+      "web",
+      "--url-prefix",
+      "/assets",
+      "--endpoint",
+      endpoint,
+    ]);
+
+    expect(code).toBe(0);
+    expect(requests).toHaveLength(0);
+    expect(output[0]).toContain("Would upload 3 source map(s) for web@abc123");
+    expect(output).toContain("  /assets/app.js.map (33 B)");
+    jest.restoreAllMocks();
+  });
+});
@@ -0,0 +1,414 @@
+import { execSync } from "child_process";
+import { promises as fs } from "fs";
+import { join, relative, resolve } from "path";
+import { parseArgs } from "util";
+import { getCommitSha } from "../environment.js";
+import {
+  computeBackoff,
+  isRetryableStatus,
+  parseRetryAfter,
+  resolveRetryOptions,
+  RetryOptions,
+  sleep,
+} from "../retry.js";
+import { getEnvironmentValue } from "../runtime.js";
+import { globToRegExp } from "../util/glob.js";
+
+export const DEFAULT_SOURCE_MAPS_ENDPOINT =
+  "https://api.trylumberjack.com/source_maps";
+
+export interface SourceMapFile {
+  /** Absolute path on disk */
+  filePath: string;
+  /** Path relative to the scanned directory, with forward slashes */
+  relativePath: string;
+  /** URL the map is uploaded under */
+  url: string;
+  size: number;
+}
+
+export interface FindSourceMapsOptions {
+  /**
+   * Globs, relative to the directory, that files must match
+   * @default ["**\/*.map"]
+   */
+  include?: string[];
+  /** Globs, relative to the directory, of files to skip besides node_modules */
+  exclude?: string[];
+  /**
+   * Prefix that replaces the directory in each uploaded URL. Defaults to
+   * the directory's path relative to the working directory, which is what
+   * the Next.js plugin uploads (`.next/static/chunks/app.js.map`).
+   */
+  urlPrefix?: string;
+}
+
+export interface UploadSourceMapsOptions {
+  serviceToken: string;
+  /** @default "https://api.trylumberjack.com/source_maps" */
+  endpoint?: string;
+  project: string;
+  commit: string;
+  /**
+   * Release the maps belong to
+   * @default the commit
+   */
+  release?: string;
+  /**
+   * Uploads in flight at once
+   * @default 4
+   */
+  concurrency?: number;
+  retry?: RetryOptions;
+}
+
+export interface SourceMapUploadResult {
+  file: SourceMapFile;
+  success: boolean;
+  attempts: number;
+  error?: string;
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const fullPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(fullPath)));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Find the source maps under a build output directory, whatever the bundler
+ */
+export async function findSourceMaps(
+  dir: string,
+  options: FindSourceMapsOptions = {}
+): Promise<SourceMapFile[]> {
+  const root = resolve(dir);
+  const include = (options.include ?? ["**/*.map"]).map((glob) =>
+    globToRegExp(glob)
+  );
+  const exclude = ["**/node_modules/**", ...(options.exclude ?? [])].map(
+    (glob) => globToRegExp(glob)
+  );
+  const defaultPrefix = relative(process.cwd(), root).replace(/\\/g, "/");
+  const prefix = options.urlPrefix ?? defaultPrefix;
+
+  const files: SourceMapFile[] = [];
+  for (const filePath of await listFiles(root)) {
+    const relativePath = relative(root, filePath).replace(/\\/g, "/");
+    if (
+      !include.some((glob) => glob.test(relativePath)) ||
+      exclude.some((glob) => glob.test(relativePath))
+    ) {
+      continue;
+    }
+
+    const { size } = await fs.stat(filePath);
+    files.push({
+      filePath,
+      relativePath,
+      url: joinUrl(prefix, relativePath),
+      size,
+    });
+  }
+
+  return files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
+
+function joinUrl(prefix: string, path: string): string {
+  if (!prefix) {
+    return path;
+  }
+  return prefix.endsWith("/") ? `${prefix}${path}` : `${prefix}/${path}`;
+}
+
+/**
+ * Upload source maps one request per file, in the same form the Next.js
+ * plugin sends, retrying network errors and retryable status codes
+ */
+export async function uploadSourceMaps(
+  files: SourceMapFile[],
+  options: UploadSourceMapsOptions
+): Promise<SourceMapUploadResult[]> {
+  const retry = resolveRetryOptions(options.retry);
+  const queue = files.map((file, index) => ({ file, index }));
+  const results: SourceMapUploadResult[] = new Array(files.length);
+
+  const worker = async () => {
+    for (let next = queue.shift(); next; next = queue.shift()) {
+      results[next.index] = await uploadWithRetry(next.file, options, retry);
+    }
+  };
+
+  const concurrency = Math.max(1, options.concurrency ?? 4);
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, files.length) }, worker)
+  );
+
+  return results;
+}
+
+async function uploadWithRetry(
+  file: SourceMapFile,
+  options: UploadSourceMapsOptions,
+  retry: Required<RetryOptions>
+): Promise<SourceMapUploadResult> {
+  let content: string;
+  try {
+    content = await fs.readFile(file.filePath, "utf8");
+  } catch (caught) {
+    // Retrying won't make an unreadable file readable
+    const error = caught instanceof Error ? caught.message : String(caught);
+    return { file, success: false, attempts: 0, error };
+  }
+  let attempts = 0;
+
+  while (true) {
+    attempts++;
+    let retryable = true;
+    let retryAfterMs: number | undefined;
+    let error: string;
+
+    try {
+      const formData = new FormData();
+      formData.append("project", options.project);
+      formData.append("commit", options.commit);
+      formData.append("version", options.release ?? options.commit);
+      formData.append(
+        "sourcemap",
+        new Blob([content], { type: "application/json" }),
+        file.url
+      );
+
+      const response = await fetch(
+        options.endpoint ?? DEFAULT_SOURCE_MAPS_ENDPOINT,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${options.serviceToken}`,
+            "User-Agent": "@lumberjack-sdk/core",
+          },
+          body: formData,
+        }
+      );
+
+      if (response.ok) {
+        return { file, success: true, attempts };
+      }
+
+      error = `HTTP ${response.status}: ${await response.text()}`;
+      retryable = isRetryableStatus(response.status);
+      if (response.status === 429 || response.status === 503) {
+        retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+      }
+    } catch (caught) {
+      error = caught instanceof Error ? caught.message : String(caught);
+    }
+
+    if (!retryable || attempts >= retry.maxAttempts) {
+      return { file, success: false, attempts, error };
+    }
+
+    const delay = Math.min(
+      retryAfterMs ?? computeBackoff(attempts, retry),
+      retry.maxDelayMs
+    );
+    console.log(
+      `[Lumberjack] Retrying ${file.url} in ${delay}ms (attempt ${
+        attempts + 1
+      }/${retry.maxAttempts}): ${error}`
+    );
+    await sleep(delay);
+  }
+}
+
+async function getProjectName(): Promise<string | undefined> {
+  try {
+    const packageJson = JSON.parse(
+      await fs.readFile(join(process.cwd(), "package.json"), "utf8")
+    );
+    return packageJson.name;
+  } catch {
+    return undefined;
+  }
+}
+
+function getGitCommitSha(): string | undefined {
+  try {
+    return execSync("git rev-parse HEAD", {
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "ignore"],
+    }).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+function parsePositiveInteger(value: string, option: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`[Lumberjack] ${option} must be a positive integer`);
+  }
+  return number;
+}
+
+function formatBytes(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+export function printSourceMapsUsage(name = "lumberjack-sdk-cli"): void {
+  console.log(`Usage: ${name} sourcemaps upload <dir> [options]`);
+  console.log("");
+  console.log("Options:");
+  console.log(
+    "  --include <glob>      Files to upload, repeatable (default **/*.map)"
+  );
+  console.log(
+    "  --exclude <glob>      Files to skip besides node_modules, repeatable"
+  );
+  console.log(
+    "  --url-prefix <url>    Replaces <dir> in uploaded URLs, e.g. https://cdn.example.com/assets"
+  );
+  console.log(
+    "  --project <name>      Project name (default package.json name)"
+  );
+  console.log(
+    "  --commit <sha>        Commit SHA (default from CI environment or git)"
+  );
+  console.log("  --release <version>   Release name (default the commit)");
+  console.log(
+    `  --endpoint <url>      Upload URL (default ${DEFAULT_SOURCE_MAPS_ENDPOINT})`
+  );
+  console.log("  --concurrency <n>     Uploads in flight at once (default 4)");
+  console.log(
+    "  --attempts <n>        Attempts per file, including the first (default 3)"
+  );
+  console.log(
+    "  --dry-run             List what would be uploaded without uploading"
+  );
+}
+
+/**
+ * `sourcemaps upload <dir>`; resolves with the process exit code. `name` is
+ * the binary shown in the usage text.
+ */
+export async function sourcemaps(
+  args: string[],
+  name = "lumberjack-sdk-cli"
+): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      include: { type: "string", multiple: true },
+      exclude: { type: "string", multiple: true },
+      "url-prefix": { type: "string" },
+      project: { type: "string" },
+      commit: { type: "string" },
+      release: { type: "string" },
+      endpoint: { type: "string" },
+      concurrency: { type: "string" },
+      attempts: { type: "string" },
+      "dry-run": { type: "boolean" },
+    },
+  });
+
+  const [subcommand, dir] = positionals;
+  if (subcommand !== "upload" || !dir) {
+    printSourceMapsUsage(name);
+    return 1;
+  }
+
+  const files = await findSourceMaps(dir, {
+    ...(values.include ? { include: values.include } : {}),
+    ...(values.exclude ? { exclude: values.exclude } : {}),
+    ...(values["url-prefix"] !== undefined
+      ? { urlPrefix: values["url-prefix"] }
+      : {}),
+  });
+  if (files.length === 0) {
+    console.log(`[Lumberjack] No source maps found in ${dir}`);
+    return 0;
+  }
+
+  const project = values.project ?? (await getProjectName()) ?? "unknown";
+  const commit = values.commit ?? getCommitSha() ?? getGitCommitSha();
+  const release = values.release ?? commit;
+
+  if (values["dry-run"]) {
+    console.log(
+      `[Lumberjack] Would upload ${files.length} source map(s) for ${project}@${
+        release ?? "(no commit)"
+      }:`
+    );
+    for (const file of files) {
+      console.log(`  ${file.url} (${formatBytes(file.size)})`);
+    }
+    return 0;
+  }
+
+  const serviceToken = getEnvironmentValue("LUMBERJACK_SERVICE_TOKEN");
+  if (!serviceToken) {
+    console.error(
+      "[Lumberjack] No service token found. Set LUMBERJACK_SERVICE_TOKEN environment variable."
+    );
+    return 1;
+  }
+  if (!commit) {
+    console.error(
+      "[Lumberjack] Could not detect the commit. Pass --commit or set LUMBERJACK_COMMIT_SHA."
+    );
+    return 1;
+  }
+
+  console.log(
+    `[Lumberjack] Uploading ${files.length} source map(s) for ${project}@${release}...`
+  );
+  const results = await uploadSourceMaps(files, {
+    serviceToken,
+    project,
+    commit,
+    ...(release ? { release } : {}),
+    endpoint:
+      values.endpoint ??
+      getEnvironmentValue(
+        "LUMBERJACK_SOURCE_MAPS_ENDPOINT",
+        DEFAULT_SOURCE_MAPS_ENDPOINT
+      ) ??
+      DEFAULT_SOURCE_MAPS_ENDPOINT,
+    ...(values.concurrency
+      ? {
+          concurrency: parsePositiveInteger(
+            values.concurrency,
+            "--concurrency"
+          ),
+        }
+      : {}),
+    ...(values.attempts
+      ? {
+          retry: {
+            maxAttempts: parsePositiveInteger(values.attempts, "--attempts"),
+          },
+        }
+      : {}),
+  });
+
+  const failed = results.filter((result) => !result.success);
+  for (const result of failed) {
+    console.error(
+      `[Lumberjack] Failed to upload ${result.file.url} after ${result.attempts} attempt(s): ${result.error}`
+    );
+  }
+  console.log(
+    `[Lumberjack] Uploaded ${results.length - failed.length}/${
+      results.length
+    } source map(s) for ${project}@${release}`
+  );
+  return failed.length > 0 ? 1 : 0;
+}
@@ -0,0 +1,213 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { MockExporter } from "./__mocks__/mock-exporter.js";
+import { CompositeExporter } from "./composite-exporter.js";
+import type { EnrichedLogEntry, EnrichedSpanRequest } from "./exporter.js";
+import type { OTLPSpan } from "./span-types.js";
+import type { LogLevelType } from "./types.js";
+
+function makeLog(
+  level: LogLevelType,
+  overrides: Partial<EnrichedLogEntry> = {}
+): EnrichedLogEntry {
+  return {
+    message: `${level} message`,
+    level,
+    timestamp: 1700000000000,
+    msg: `${level} message`,
+    lvl: level,
+    ts: 1700000000000,
+    project_name: "test-project",
+    sdk_version: "2",
+    ...overrides,
+  };
+}
+
+function makeSpan(name: string, overrides: Partial<OTLPSpan> = {}): OTLPSpan {
+  return {
+    traceId: "a".repeat(32),
+    spanId: "b".repeat(16),
+    name,
+    kind: 1,
+    startTimeUnixNano: "1000",
+    endTimeUnixNano: "2000",
+    ...overrides,
+  };
+}
+
+function spanRequest(...spans: OTLPSpan[]): EnrichedSpanRequest {
+  return {
+    resourceSpans: [{ scopeSpans: [{ scope: { name: "http" }, spans }] }],
+    project_name: "test-project",
+    sdk_version: "2",
+  };
+}
+
+describe("CompositeExporter", () => {
+  let lumberjack: MockExporter;
+  let file: MockExporter;
+  let collector: MockExporter;
+
+  beforeEach(() => {
+    lumberjack = new MockExporter();
+    file = new MockExporter();
+    collector = new MockExporter();
+  });
+
+  describe("routing", () => {
+    it("should route logs by level, source and props", async () => {
+      const exporter = new CompositeExporter([
+        {
+          name: "lumberjack",
+          exporter: lumberjack,
+          logs: { minLevel: "error" },
+        },
+        { name: "file", exporter: file },
+        {
+          name: "collector",
+          exporter: collector,
+          logs: { sources: ["console"], props: { tenant: /^acme/ } },
+        },
+      ]);
+
+      const result = await exporter.exportLogs([
+        makeLog("debug", { src: "console", props: { tenant: "acme-1" } }),
+        makeLog("error", { props: { tenant: "globex" } }),
+        makeLog("fatal"),
+      ]);
+
+      expect(result).toMatchObject({ success: true, itemsExported: 3 });
+      expect(lumberjack.exportedLogs.map((log) => log.lvl)).toEqual([
+        "error",
+        "fatal",
+      ]);
+      expect(file.exportedLogs).toHaveLength(3);
+      expect(collector.exportedLogs.map((log) => log.lvl)).toEqual(["debug"]);
+      expect(Object.keys(result.destinations!).sort()).toEqual([
+        "collector",
+        "file",
+        "lumberjack",
+      ]);
+    });
+
+    it("should skip destinations with nothing routed to them", async () => {
+      const exporter = new CompositeExporter([
+        { name: "file", exporter: file, logs: (log) => log.lvl === "debug" },
+        { name: "lumberjack", exporter: lumberjack, logs: false },
+      ]);
+
+      const result = await exporter.exportLogs([makeLog("info")]);
+
+      expect(result).toMatchObject({ success: true, itemsExported: 0 });
+      expect(result.destinations).toEqual({});
+      expect(file.exportedLogs).toHaveLength(0);
+    });
+
+    it("should route spans by attributes and status", async () => {
+      const exporter = new CompositeExporter([
+        {
+          name: "collector",
+          exporter: collector,
+          spans: { attributes: { "http.route": "/checkout" } },
+        },
+        {
+          name: "lumberjack",
+          exporter: lumberjack,
+          spans: { errorsOnly: true },
+        },
+      ]);
+      const checkout = makeSpan("POST", {
+        attributes: [
+          { key: "http.route", value: { stringValue: "/checkout" } },
+        ],
+      });
+      const failed = makeSpan("GET", { status: { code: 2 } });
+
+      const result = await exporter.exportSpans(spanRequest(checkout, failed));
+
+      expect(result).toMatchObject({ success: true, itemsExported: 2 });
+      expect(
+        collector.exportedSpans[0].resourceSpans[0].scopeSpans![0].spans
+      ).toEqual([checkout]);
+      expect(
+        lumberjack.exportedSpans[0].resourceSpans[0].scopeSpans![0].spans
+      ).toEqual([failed]);
+    });
+
+    it("should only send to the requested destinations", async () => {
+      const exporter = new CompositeExporter([
+        { name: "lumberjack", exporter: lumberjack },
+        { name: "file", exporter: file },
+      ]);
+
+      await exporter.exportLogs([makeLog("info")], { destinations: ["file"] });
+
+      expect(lumberjack.exportedLogs).toHaveLength(0);
+      expect(file.exportedLogs).toHaveLength(1);
+    });
+
+    it("should reject duplicate destination names", () => {
+      expect(
+        () =>
+          new CompositeExporter([
+            { name: "file", exporter: file },
+            { name: "file", exporter: lumberjack },
+          ])
+      ).toThrow(/Duplicate/);
+    });
+  });
+
+  describe("failures", () => {
+    it("should deliver to the other destinations when one fails", async () => {
+      lumberjack.shouldSucceed = false;
+      const exporter = new CompositeExporter([
+        { name: "lumberjack", exporter: lumberjack },
+        { name: "file", exporter: file },
+      ]);
+
+      const result = await exporter.exportLogs([makeLog("error")]);
+
+      expect(file.exportedLogs).toHaveLength(1);
+      expect(result).toMatchObject({
+        success: false,
+        retryable: true,
+        itemsExported: 1,
+      });
+      expect(result.error?.message).toBe("lumberjack: Mock export error");
+      expect(result.destinations?.lumberjack.success).toBe(false);
+      expect(result.destinations?.file.success).toBe(true);
+    });
+
+    it("should turn a throwing exporter into a failed result", async () => {
+      const broken = new MockExporter();
+      broken.exportLogs = async () => {
+        throw new Error("disk full");
+      };
+      const exporter = new CompositeExporter([
+        { name: "broken", exporter: broken },
+        { name: "file", exporter: file },
+      ]);
+
+      const result = await exporter.exportLogs([makeLog("info")]);
+
+      expect(result.destinations?.broken).toMatchObject({ success: false });
+      expect(result.error?.message).toBe("broken: disk full");
+      expect(file.exportedLogs).toHaveLength(1);
+    });
+
+    it("should not be retryable when only permanent failures remain", async () => {
+      const rejecting = new MockExporter();
+      rejecting.exportLogs = async () => ({
+        success: false,
+        retryable: false,
+        error: new Error("401"),
+      });
+      const exporter = new CompositeExporter([
+        { name: "rejecting", exporter: rejecting },
+      ]);
+
+      const result = await exporter.exportLogs([makeLog("info")]);
+
+      expect(result.retryable).toBe(false);
+    });
+  });
+});
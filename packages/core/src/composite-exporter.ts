@@ -0,0 +1,327 @@
+import type {
+  EnrichedLogEntry,
+  EnrichedMetricsRequest,
+  EnrichedRegisteredObject,
+  EnrichedSpanRequest,
+  Exporter,
+  ExportOptions,
+  ExportResult,
+  InternalMetricsPayload,
+} from "./exporter.js";
+import { LOG_LEVEL_SEVERITY } from "./log-level.js";
+import { attributeValue, OTLPSpan } from "./span-types.js";
+import type { LogLevelType } from "./types.js";
+
+type AttributeMatcher = string | number | boolean | RegExp;
+
+export type LogRoutePredicate = (log: EnrichedLogEntry) => boolean;
+
+/**
+ * Declarative log route. Every configured rule must pass for a log to be
+ * sent. Strings match exactly; RegExps are tested against the value.
+ */
+export interface LogRouteRules {
+  /** Only logs at or above this level */
+  minLevel?: LogLevelType;
+  /** Only logs at these levels */
+  levels?: LogLevelType[];
+  /** Only logs from these sources, e.g. `console` */
+  sources?: Array<string | RegExp>;
+  /** Only logs whose props have these values */
+  props?: Record<string, AttributeMatcher>;
+}
+
+export type LogRoute = LogRoutePredicate | LogRouteRules;
+
+export type SpanRoutePredicate = (span: OTLPSpan) => boolean;
+
+export interface SpanRouteRules {
+  /** Only spans with these names */
+  names?: Array<string | RegExp>;
+  /** Only spans whose attributes have these values */
+  attributes?: Record<string, AttributeMatcher>;
+  /** Only spans with an error status */
+  errorsOnly?: boolean;
+}
+
+export type SpanRoute = SpanRoutePredicate | SpanRouteRules;
+
+export interface ExportDestination {
+  /** Identifies the destination in results; must be unique */
+  name: string;
+  exporter: Exporter;
+  /** Which logs to send; `false` for none. @default true */
+  logs?: boolean | LogRoute;
+  /** Which registered objects to send. @default true */
+  objects?: boolean | ((object: EnrichedRegisteredObject) => boolean);
+  /** Which spans to send. @default true */
+  spans?: boolean | SpanRoute;
+  /** @default true */
+  metrics?: boolean;
+}
+
+/** OTLP status code for errors */
+const STATUS_CODE_ERROR = 2;
+
+/**
+ * Exporter that fans each batch out to several exporters, each receiving
+ * only the items its routes accept. Destinations are called in parallel and
+ * one failing does not stop the others; the result reports each
+ * destination so failed ones can be retried on their own.
+ */
+export class CompositeExporter implements Exporter {
+  private readonly destinations: ExportDestination[];
+
+  constructor(destinations: ExportDestination[]) {
+    const names = new Set<string>();
+    for (const destination of destinations) {
+      if (names.has(destination.name)) {
+        throw new Error(
+          `[Lumberjack] Duplicate export destination: ${destination.name}`
+        );
+      }
+      names.add(destination.name);
+    }
+    this.destinations = destinations;
+  }
+
+  async exportLogs(
+    logs: EnrichedLogEntry[],
+    options: ExportOptions = {}
+  ): Promise<ExportResult> {
+    return this.fanOut(
+      logs,
+      options,
+      (destination) => createLogMatcher(destination.logs),
+      (exporter, routed) => exporter.exportLogs(routed)
+    );
+  }
+
+  async exportObjects(
+    objects: EnrichedRegisteredObject[]
+  ): Promise<ExportResult> {
+    return this.fanOut(
+      objects,
+      {},
+      ({ objects: route = true }) =>
+        typeof route === "function" ? route : () => route,
+      (exporter, routed) => exporter.exportObjects(routed)
+    );
+  }
+
+  async exportSpans(spanRequest: EnrichedSpanRequest): Promise<ExportResult> {
+    const spans = spanRequest.resourceSpans.flatMap(
+      (resourceSpans) =>
+        resourceSpans.scopeSpans?.flatMap((scopeSpans) => scopeSpans.spans) ??
+        []
+    );
+
+    return this.fanOut(
+      spans,
+      {},
+      (destination) => createSpanMatcher(destination.spans),
+      (exporter, routed) =>
+        exporter.exportSpans(filterSpanRequest(spanRequest, new Set(routed)))
+    );
+  }
+
+  async exportMetrics(request: EnrichedMetricsRequest): Promise<ExportResult> {
+    return this.fanOut(
+      [request],
+      {},
+      ({ exporter, metrics = true }) =>
+        () =>
+          metrics && exporter.exportMetrics !== undefined,
+      (exporter) => exporter.exportMetrics!(request)
+    );
+  }
+
+  async exportInternalMetrics(
+    payload: InternalMetricsPayload
+  ): Promise<ExportResult> {
+    return this.fanOut(
+      [payload],
+      {},
+      ({ exporter }) =>
+        () =>
+          exporter.exportInternalMetrics !== undefined,
+      (exporter) => exporter.exportInternalMetrics!(payload)
+    );
+  }
+
+  async shutdown(): Promise<void> {
+    await Promise.allSettled(
+      this.destinations.map(({ exporter }) => exporter.shutdown?.())
+    );
+  }
+
+  /**
+   * Send each destination the items it accepts and combine the results.
+   * `itemsExported` counts items accepted by at least one destination.
+   */
+  private async fanOut<T>(
+    items: T[],
+    options: ExportOptions,
+    createMatcher: (destination: ExportDestination) => (item: T) => boolean,
+    send: (exporter: Exporter, routed: T[]) => Promise<ExportResult>
+  ): Promise<ExportResult> {
+    const destinations = options.destinations
+      ? this.destinations.filter(({ name }) =>
+          options.destinations!.includes(name)
+        )
+      : this.destinations;
+
+    const delivered = new Set<T>();
+    const results: Record<string, ExportResult> = {};
+
+    await Promise.all(
+      destinations.map(async (destination) => {
+        const matches = createMatcher(destination);
+        const routed = items.filter((item) => matches(item));
+        if (routed.length === 0) {
+          return;
+        }
+
+        const result = await send(destination.exporter, routed).catch(
+          (error): ExportResult => ({
+            success: false,
+            error: error instanceof Error ? error : new Error(String(error)),
+            itemsExported: 0,
+          })
+        );
+        results[destination.name] = result;
+        if (result.success) {
+          routed.forEach((item) => delivered.add(item));
+        }
+      })
+    );
+
+    const failed = Object.entries(results).filter(
+      ([, result]) => !result.success
+    );
+    const aggregate: ExportResult = {
+      success: failed.length === 0,
+      itemsExported: delivered.size,
+      attempts: Math.max(
+        1,
+        ...Object.values(results).map((result) => result.attempts ?? 1)
+      ),
+      destinations: results,
+    };
+
+    if (failed.length > 0) {
+      aggregate.error = new Error(
+        failed
+          .map(
+            ([name, result]) =>
+              `${name}: ${result.error?.message ?? "export failed"}`
+          )
+          .join("; ")
+      );
+      aggregate.retryable = failed.some(
+        ([, result]) => result.retryable !== false
+      );
+    }
+
+    return aggregate;
+  }
+}
+
+function createLogMatcher(
+  route: ExportDestination["logs"] = true
+): LogRoutePredicate {
+  if (typeof route === "boolean") {
+    return () => route;
+  }
+  if (typeof route === "function") {
+    return route;
+  }
+
+  return (log) => {
+    const level = log.lvl as LogLevelType;
+    if (
+      route.minLevel &&
+      LOG_LEVEL_SEVERITY[level] < LOG_LEVEL_SEVERITY[route.minLevel]
+    ) {
+      return false;
+    }
+    if (route.levels && !route.levels.includes(level)) {
+      return false;
+    }
+    if (route.sources && !matchesAny(log.src, route.sources)) {
+      return false;
+    }
+    if (route.props) {
+      return Object.entries(route.props).every(([key, matcher]) =>
+        matches(log.props?.[key], matcher)
+      );
+    }
+    return true;
+  };
+}
+
+function createSpanMatcher(
+  route: ExportDestination["spans"] = true
+): SpanRoutePredicate {
+  if (typeof route === "boolean") {
+    return () => route;
+  }
+  if (typeof route === "function") {
+    return route;
+  }
+
+  return (span) => {
+    if (route.errorsOnly && span.status?.code !== STATUS_CODE_ERROR) {
+      return false;
+    }
+    if (route.names && !matchesAny(span.name, route.names)) {
+      return false;
+    }
+    if (route.attributes) {
+      return Object.entries(route.attributes).every(([key, matcher]) =>
+        matches(attributeValue(span.attributes, key), matcher)
+      );
+    }
+    return true;
+  };
+}
+
+function matches(value: unknown, matcher: AttributeMatcher): boolean {
+  if (matcher instanceof RegExp) {
+    return value !== undefined && value !== null && matcher.test(String(value));
+  }
+  return value === matcher;
+}
+
+function matchesAny(
+  value: string | undefined,
+  patterns: Array<string | RegExp>
+): boolean {
+  return (
+    value !== undefined &&
+    patterns.some((pattern) =>
+      typeof pattern === "string" ? pattern === value : pattern.test(value)
+    )
+  );
+}
+
+/** The request with only the given spans, dropping emptied scopes */
+function filterSpanRequest(
+  request: EnrichedSpanRequest,
+  keep: Set<OTLPSpan>
+): EnrichedSpanRequest {
+  return {
+    ...request,
+    resourceSpans: request.resourceSpans
+      .map((resourceSpans) => ({
+        ...resourceSpans,
+        scopeSpans: (resourceSpans.scopeSpans ?? [])
+          .map((scopeSpans) => ({
+            ...scopeSpans,
+            spans: scopeSpans.spans.filter((span) => keep.has(span)),
+          }))
+          .filter((scopeSpans) => scopeSpans.spans.length > 0),
+      }))
+      .filter((resourceSpans) => resourceSpans.scopeSpans.length > 0),
+  };
+}
@@ -2,8 +2,22 @@ import { AsyncLocalStorage } from "async_hooks";
 import { randomBytes } from "node:crypto";
 import { TraceContext } from "./types.js";
 
+/** Source of trace and span IDs; compatible with OpenTelemetry's IdGenerator */
+export interface IdGenerator {
+  /** 32 lower-case hex characters */
+  generateTraceId(): string;
+  /** 16 lower-case hex characters */
+  generateSpanId(): string;
+}
+
+const randomIdGenerator: IdGenerator = {
+  generateTraceId: () => randomBytes(16).toString("hex"),
+  generateSpanId: () => randomBytes(8).toString("hex"),
+};
+
 class LumberjackContext {
   private static asyncLocalStorage = new AsyncLocalStorage<TraceContext>();
+  private static idGenerator: IdGenerator = randomIdGenerator;
 
   static run<T>(store: TraceContext, callback: () => T): T {
     return this.asyncLocalStorage.run(store, callback);
@@ -49,11 +63,19 @@ class LumberjackContext {
   }
 
   static generateTraceId(): string {
-    return `${randomBytes(16).toString("hex")}`; // 32-char, lower-case}`;
+    return this.idGenerator.generateTraceId();
   }
 
   static generateSpanId(): string {
-    return `${randomBytes(8).toString("hex")}`;
+    return this.idGenerator.generateSpanId();
+  }
+
+  /**
+   * Replace how trace and span IDs are generated, for both manual and
+   * OpenTelemetry spans. Call without arguments to restore random IDs.
+   */
+  static setIdGenerator(generator: IdGenerator = randomIdGenerator): void {
+    this.idGenerator = generator;
   }
 
   static clear(): void {
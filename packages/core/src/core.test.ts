@@ -6,10 +6,23 @@ import {
   it,
   jest,
 } from "@jest/globals";
+import { context, SpanStatusCode, trace } from "@opentelemetry/api";
+import { NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import { MockExporter } from "./__mocks__/mock-exporter.js";
+import { CompositeExporter } from "./composite-exporter.js";
 import { LumberjackContext } from "./context.js";
 import { LumberjackCore } from "./core.js";
-import type { EnrichedLogEntry, ExportResult } from "./exporter.js";
+import type {
+  EnrichedLogEntry,
+  ExportResult,
+  InternalMetricsPayload,
+} from "./exporter.js";
+import { globalMetricsRegistry } from "./metrics.js";
+import { PrettyConsoleExporter } from "./pretty-console-exporter.js";
+import { LumberjackSpanProcessor } from "./span-processor.js";
 
 describe("LumberjackCore", () => {
   let core: LumberjackCore;
@@ -49,12 +62,14 @@ describe("LumberjackCore", () => {
     it("should return the same instance when created multiple times", () => {
       const instance1 = new LumberjackCore();
       const instance2 = new LumberjackCore();
+      core = instance1;
       expect(instance1).toBe(instance2);
     });
 
     it("should return same instance from init and getInstance", () => {
       const instance1 = LumberjackCore.init();
       const instance2 = LumberjackCore.getInstance();
+      core = instance1;
       expect(instance1).toBe(instance2);
     });
 
@@ -63,6 +78,54 @@ describe("LumberjackCore", () => {
     });
   });
 
+  describe("Independent Instances", () => {
+    it("should keep exporters and buffers separate", async () => {
+      const tenantA = new MockExporter();
+      const tenantB = new MockExporter();
+      const a = LumberjackCore.create({ exporter: tenantA, projectName: "a" });
+      const b = LumberjackCore.create({ exporter: tenantB, projectName: "b" });
+
+      expect(a).not.toBe(b);
+
+      a.info("for tenant a");
+      b.info("for tenant b");
+      await a.flush();
+
+      expect(tenantA.exportedLogs.map((l) => l.message)).toEqual([
+        "for tenant a",
+      ]);
+      expect(tenantA.exportedLogs[0].project_name).toBe("a");
+      expect(tenantB.exportedLogs).toHaveLength(0);
+
+      await b.shutdown();
+      expect(tenantB.exportedLogs.map((l) => l.message)).toEqual([
+        "for tenant b",
+      ]);
+      await a.shutdown();
+    });
+
+    it("should not replace or clear the global instance", async () => {
+      core = new LumberjackCore({ exporter: new MockExporter() });
+      const library = LumberjackCore.create({ exporter: new MockExporter() });
+
+      expect(library).not.toBe(core);
+      expect(new LumberjackCore()).toBe(core);
+
+      await library.shutdown();
+
+      expect(new LumberjackCore()).toBe(core);
+    });
+
+    it("should not capture the console unless enabled", async () => {
+      const originalInfo = console.info;
+      const library = LumberjackCore.create({ exporter: new MockExporter() });
+
+      expect(console.info).toBe(originalInfo);
+
+      await library.shutdown();
+    });
+  });
+
   describe("Configuration", () => {
     it("should use default configuration when no config provided", () => {
       core = new LumberjackCore();
@@ -158,6 +221,306 @@ describe("LumberjackCore", () => {
         })
       );
     });
+
+    it("should send the cause chain and error properties", () => {
+      const root = Object.assign(new Error("connection refused"), {
+        code: "ECONNREFUSED",
+      });
+      const error = Object.assign(new Error("payment failed"), {
+        cause: root,
+        statusCode: 502,
+      });
+      core.logError("Checkout failed", error);
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.logs[0]).toMatchObject({
+        ext: "Error",
+        exv: "payment failed",
+        exp: { statusCode: 502 },
+        exc: [
+          {
+            ext: "Error",
+            exv: "connection refused",
+            exp: { code: "ECONNREFUSED" },
+          },
+        ],
+      });
+    });
+  });
+
+  describe("Log Levels", () => {
+    it("should drop entries below minLevel before buffering", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({ minLevel: "warn", exporter: mockExporter });
+
+      core.debug("debug message");
+      core.info("info message");
+      core.warn("warn message");
+      await core.flush();
+
+      expect(mockExporter.exportedLogs).toHaveLength(1);
+      expect(mockExporter.exportedLogs[0].message).toBe("warn message");
+    });
+
+    it("should apply per-module overrides matched on the caller file", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({
+        exporter: mockExporter,
+        levelOverrides: { "*.test.ts": "error", "*": "trace" },
+      });
+
+      core.warn("dropped");
+      core.error("kept");
+      await core.flush();
+
+      expect(mockExporter.exportedLogs.map((l) => l.message)).toEqual(["kept"]);
+    });
+
+    it("should change levels at runtime with setLevel", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({ minLevel: "error", exporter: mockExporter });
+
+      core.info("before");
+      core.setLevel("info");
+      core.info("after");
+      await core.flush();
+
+      expect(mockExporter.exportedLogs.map((l) => l.message)).toEqual([
+        "after",
+      ]);
+      expect(core.isLevelEnabled("debug")).toBe(false);
+    });
+  });
+
+  describe("Child Loggers", () => {
+    it("should merge bound fields into props of every entry", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({ exporter: mockExporter });
+
+      const child = core.child({ requestId: "req-1", tenantId: "t-1" });
+      child.info("first");
+      child.warn("second", { tenantId: "t-2" });
+      await core.flush();
+
+      expect(mockExporter.exportedLogs[0].props).toMatchObject({
+        requestId: "req-1",
+        tenantId: "t-1",
+      });
+      expect(mockExporter.exportedLogs[1].props).toMatchObject({
+        requestId: "req-1",
+        tenantId: "t-2",
+      });
+    });
+
+    it("should nest bindings and keep caller attribution", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({ exporter: mockExporter });
+
+      const child = core.child({ requestId: "req-1" }).child({ step: "db" });
+      child.logError("query failed", new Error("timeout"));
+      await core.flush();
+
+      const entry = mockExporter.exportedLogs[0];
+      expect(entry.props).toMatchObject({ requestId: "req-1", step: "db" });
+      expect(entry.exception?.message).toBe("timeout");
+      expect(entry.file).toContain("core.test.ts");
+    });
+  });
+
+  describe("beforeSend Processors", () => {
+    it("should enrich and drop logs during flush", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({
+        exporter: mockExporter,
+        beforeSendLog: [
+          (entry) => (entry.message === "health check" ? null : entry),
+          async (entry) => ({
+            ...entry,
+            props: { ...entry.props, tenant: "acme" },
+          }),
+        ],
+      });
+
+      core.info("health check");
+      core.info("real work");
+      await core.flush();
+
+      expect(mockExporter.exportedLogs).toHaveLength(1);
+      expect(mockExporter.exportedLogs[0].message).toBe("real work");
+      expect(mockExporter.exportedLogs[0].props?.tenant).toBe("acme");
+    });
+
+    it("should run object processors before export", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({
+        exporter: mockExporter,
+        beforeSendObject: [
+          (obj) => ({ ...obj, fields: { ...obj.fields, tenant: "acme" } }),
+        ],
+      });
+
+      core.registerObject({ user: { id: "user-1", plan: "pro" } });
+      core.flushObjects();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(mockExporter.exportedObjects).toHaveLength(1);
+      expect(mockExporter.exportedObjects[0].fields).toEqual({
+        plan: "pro",
+        tenant: "acme",
+      });
+    });
+  });
+
+  describe("Redaction", () => {
+    it("should redact logs and objects before they reach the exporter", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({ exporter: mockExporter, redaction: {} });
+
+      core.info("signup from jane@example.com", { password: "hunter2" });
+      core.registerObject({
+        user: { id: "user-1", email: "jane@example.com" },
+      });
+      await core.flush();
+      core.flushObjects();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(mockExporter.exportedLogs[0].message).toBe(
+        "signup from [REDACTED]"
+      );
+      expect(mockExporter.exportedLogs[0].props?.password).toBe("[REDACTED]");
+      expect(mockExporter.exportedObjects[0].fields.email).toBe("[REDACTED]");
+    });
+  });
+
+  describe("Unhandled Error Capture", () => {
+    it("should capture uncaught exceptions as fatal entries", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({
+        exporter: mockExporter,
+        exitOnUnhandled: false,
+      });
+      const exitSpy = jest
+        .spyOn(process, "exit")
+        .mockImplementation((() => undefined) as any);
+
+      const traceId = LumberjackContext.generateTraceId();
+      LumberjackContext.run({ traceId }, () => {
+        process.emit("uncaughtException", new TypeError("boom"));
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(mockExporter.exportedLogs).toHaveLength(1);
+      const entry = mockExporter.exportedLogs[0];
+      expect(entry.level).toBe("fatal");
+      expect(entry.traceId).toBe(traceId);
+      expect(entry.exception).toMatchObject({
+        name: "TypeError",
+        message: "boom",
+      });
+      expect(exitSpy).not.toHaveBeenCalled();
+    });
+
+    it("should keep the default exit with a global and an isolated instance", async () => {
+      const globalExporter = new MockExporter();
+      const isolatedExporter = new MockExporter();
+      core = new LumberjackCore({ exporter: globalExporter });
+      const isolated = LumberjackCore.create({
+        exporter: isolatedExporter,
+        captureUnhandled: true,
+      });
+      const exitSpy = jest
+        .spyOn(process, "exit")
+        .mockImplementation((() => undefined) as any);
+      const stderrSpy = jest
+        .spyOn(process.stderr, "write")
+        .mockImplementation(() => true);
+
+      try {
+        process.emit("uncaughtException", new Error("boom"));
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        expect(exitSpy).toHaveBeenCalledTimes(1);
+        expect(exitSpy).toHaveBeenCalledWith(1);
+        expect(globalExporter.exportedLogs[0].level).toBe("fatal");
+        expect(isolatedExporter.exportedLogs[0].level).toBe("fatal");
+      } finally {
+        exitSpy.mockRestore();
+        stderrSpy.mockRestore();
+        await isolated.shutdown();
+      }
+    });
+
+    it("should capture unhandled rejections as error entries", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({
+        exporter: mockExporter,
+        exitOnUnhandled: false,
+      });
+
+      process.emit(
+        "unhandledRejection",
+        new Error("rejected"),
+        Promise.resolve()
+      );
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(mockExporter.exportedLogs[0].level).toBe("error");
+      expect(mockExporter.exportedLogs[0].src).toBe("unhandledRejection");
+      expect(mockExporter.exportedLogs[0].exv).toBe("rejected");
+    });
+
+    it("should capture BigInt and circular rejection reasons", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({
+        exporter: mockExporter,
+        exitOnUnhandled: false,
+      });
+      const circular: any = { id: 1 };
+      circular.self = circular;
+
+      process.emit("unhandledRejection", BigInt(1), Promise.resolve());
+      process.emit("unhandledRejection", circular, Promise.resolve());
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(mockExporter.exportedLogs.map((log) => log.exv)).toEqual([
+        '"1"',
+        '{"id":1,"self":"[Circular]"}',
+      ]);
+    });
+
+    it("should capture process warnings as warn entries", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({ exporter: mockExporter });
+
+      const warning = Object.assign(new Error("Buffer() is deprecated"), {
+        name: "DeprecationWarning",
+        code: "DEP0005",
+      });
+      process.emit("warning", warning);
+      await core.flush();
+
+      expect(mockExporter.exportedLogs[0].level).toBe("warn");
+      expect(mockExporter.exportedLogs[0].props).toMatchObject({
+        warningName: "DeprecationWarning",
+        warningCode: "DEP0005",
+      });
+    });
+
+    it("should remove process handlers on shutdown", async () => {
+      const before = process.listenerCount("uncaughtException");
+      core = new LumberjackCore();
+      expect(process.listenerCount("uncaughtException")).toBe(before + 1);
+
+      await core.shutdown();
+      expect(process.listenerCount("uncaughtException")).toBe(before);
+    });
+
+    it("should not register handlers when captureUnhandled is false", () => {
+      const before = process.listenerCount("unhandledRejection");
+      core = new LumberjackCore({ captureUnhandled: false });
+
+      expect(process.listenerCount("unhandledRejection")).toBe(before);
+    });
   });
 
   describe("Trace Context Integration", () => {
@@ -222,6 +585,316 @@ describe("LumberjackCore", () => {
 
       expect(fetchMock).not.toHaveBeenCalled();
     });
+
+    it("should capture circular objects and BigInt without throwing", () => {
+      const circular: any = { id: BigInt(7) };
+      circular.self = circular;
+
+      expect(() => console.log(circular)).not.toThrow();
+      expect(fetchMock).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          body: expect.stringContaining(
+            JSON.stringify('{"id":"7","self":"[Circular]"}')
+          ),
+        })
+      );
+    });
+  });
+
+  describe("Tail Sampling", () => {
+    it("should drop logs of dropped traces and hold logs of pending ones", async () => {
+      const mockExporter = new MockExporter();
+      core = LumberjackCore.create({
+        exporter: mockExporter,
+        tailSampling: { dropLogs: true },
+      });
+      const sampler = (core as any).tailSampler;
+      const rootSpan = (traceId: string) =>
+        ({
+          name: "GET /",
+          attributes: {},
+          status: { code: 0 },
+          duration: [0, 1e6],
+          spanContext: () => ({ traceId, spanId: "c".repeat(16) }),
+        } as any);
+
+      sampler.add(rootSpan("b".repeat(32)), true);
+      sampler.add({ ...rootSpan("a".repeat(32)), parentSpanContext: {} }, true);
+
+      core.info("pending", { traceId: "a".repeat(32) });
+      core.info("dropped", { traceId: "b".repeat(32) });
+      core.info("untraced");
+      await core.flush();
+
+      expect(mockExporter.exportedLogs.map((log) => log.message)).toEqual([
+        "untraced",
+      ]);
+
+      sampler.add(rootSpan("a".repeat(32)), true);
+      await core.flush();
+
+      expect(mockExporter.exportedLogs).toHaveLength(1);
+    });
+
+    it("should hold logs of a running trace until it is dropped", async () => {
+      const mockExporter = new MockExporter();
+      core = LumberjackCore.create({
+        exporter: mockExporter,
+        tailSampling: { dropLogs: true },
+      });
+      const tracer = new NodeTracerProvider({
+        spanProcessors: [
+          new LumberjackSpanProcessor({
+            instance: core,
+            sampler: (core as any).tailSampler,
+          }),
+        ],
+      }).getTracer("test");
+
+      const root = tracer.startSpan("GET /");
+      LumberjackContext.run({ traceId: root.spanContext().traceId }, () => {
+        core.info("inside the request");
+      });
+      await core.flush();
+
+      expect(mockExporter.exportedLogs).toHaveLength(0);
+
+      root.end();
+      await core.flush();
+
+      expect(mockExporter.exportedLogs).toHaveLength(0);
+      expect(core.getStats().logs.dropped).toBe(1);
+    });
+
+    it("should export traces released at shutdown", async () => {
+      const mockExporter = new MockExporter();
+      core = LumberjackCore.create({
+        exporter: mockExporter,
+        tailSampling: {},
+      });
+      const tracer = new NodeTracerProvider({
+        spanProcessors: [
+          new LumberjackSpanProcessor({
+            instance: core,
+            filter: "all",
+            sampler: (core as any).tailSampler,
+          }),
+        ],
+      }).getTracer("test");
+
+      const root = tracer.startSpan("GET /");
+      const child = tracer.startSpan(
+        "db.query",
+        {},
+        trace.setSpan(context.active(), root)
+      );
+      child.setStatus({ code: SpanStatusCode.ERROR });
+      child.end();
+
+      await core.shutdown();
+
+      expect(mockExporter.spans.map((span) => span.name)).toEqual(["db.query"]);
+    });
+  });
+
+  describe("Fan-out Exporter", () => {
+    it("should retry logs only against the destinations that failed", async () => {
+      const lumberjack = new MockExporter();
+      const file = new MockExporter();
+      lumberjack.shouldSucceed = false;
+      core = LumberjackCore.create({
+        exporter: new CompositeExporter([
+          { name: "lumberjack", exporter: lumberjack },
+          { name: "file", exporter: file },
+        ]),
+      });
+      jest.spyOn(console, "error").mockImplementation(() => {});
+
+      core.error("payment failed");
+      await core.flush();
+      expect(file.exportedLogs).toHaveLength(1);
+
+      lumberjack.shouldSucceed = true;
+      await core.flush();
+
+      expect(lumberjack.exportedLogs).toHaveLength(1);
+      expect(file.exportedLogs).toHaveLength(1);
+    });
+  });
+
+  describe("Development Defaults", () => {
+    const nodeEnv = process.env.NODE_ENV;
+    let printed: string[];
+
+    beforeEach(() => {
+      process.env.NODE_ENV = "development";
+      printed = [];
+      jest.spyOn(process.stdout, "write").mockImplementation((line) => {
+        printed.push(String(line));
+        return true;
+      });
+    });
+
+    afterEach(() => {
+      process.env.NODE_ENV = nodeEnv;
+    });
+
+    it("should only print logs without an API key", async () => {
+      core = LumberjackCore.create({ captureConsole: true });
+
+      core.info("from the sdk");
+      console.log("from the console");
+      await core.flush();
+
+      expect((core as any).exporter).toBeInstanceOf(PrettyConsoleExporter);
+      expect(printed.join("")).toContain("from the sdk");
+      expect(printed.join("")).not.toContain("from the console");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("should send and print logs with an API key", async () => {
+      core = LumberjackCore.create({
+        apiKey: "test-key",
+        captureConsole: true,
+      });
+
+      core.info("from the sdk");
+      console.log("from the console");
+      await core.flush();
+
+      expect((core as any).exporter).toBeInstanceOf(CompositeExporter);
+      expect(printed.join("")).toContain("from the sdk");
+      expect(printed.join("")).not.toContain("from the console");
+      const body = fetchMock.mock.calls
+        .map(([, init]: any) => String(init.body))
+        .join("");
+      expect(body).toContain("from the sdk");
+      expect(body).toContain("from the console");
+    });
+  });
+
+  describe("Metrics", () => {
+    it("should export aggregated metrics on flush", async () => {
+      const mockExporter = new MockExporter();
+      core = LumberjackCore.create({ exporter: mockExporter });
+
+      core.metrics.counter("orders").add(2, { region: "eu" });
+      core.metrics.histogram("latency", { boundaries: [10] }).record(5);
+      await core.flushAll();
+
+      expect(mockExporter.exportedMetrics).toHaveLength(1);
+      const [request] = mockExporter.exportedMetrics;
+      expect(request.project_name).toBe("js-app");
+      expect(request.metrics.map((metric) => metric.name)).toEqual([
+        "orders",
+        "latency",
+      ]);
+
+      // Deltas were reset, so there is nothing new to send
+      await core.flushAll();
+      expect(mockExporter.exportedMetrics).toHaveLength(1);
+    });
+
+    it("should share the global registry between singleton instances", () => {
+      const isolated = LumberjackCore.create({ exporter: new MockExporter() });
+      core = new LumberjackCore({ exporter: new MockExporter() });
+
+      expect(core.metrics).toBe(globalMetricsRegistry);
+      expect(isolated.metrics).not.toBe(globalMetricsRegistry);
+      return isolated.shutdown();
+    });
+  });
+
+  describe("Runtime Metrics", () => {
+    it("should log samples and threshold warnings with deployment context", async () => {
+      const mockExporter = new MockExporter();
+      core = LumberjackCore.create({
+        exporter: mockExporter,
+        runtimeMetrics: {
+          reportAs: "logs",
+          interval: 60000,
+          thresholds: { rssBytes: 1 },
+        },
+      });
+      const breaches: unknown[] = [];
+      core.on("runtime:threshold", (breach) => breaches.push(breach));
+
+      (core as any).runtimeMetrics.sample();
+      await core.flush();
+
+      const [sample, warning] = mockExporter.exportedLogs;
+      expect(sample).toMatchObject({
+        level: "info",
+        message: "Runtime metrics",
+      });
+      expect(sample.props?.runtime.memory.rss).toBeGreaterThan(0);
+      expect(sample.props?.deployment).toEqual(expect.any(Object));
+      expect(warning.level).toBe("warn");
+      expect(warning.message).toContain("rssBytes");
+      expect(breaches).toEqual([
+        { metric: "rssBytes", value: expect.any(Number), threshold: 1 },
+      ]);
+    });
+
+    it("should report samples through the metrics registry by default", async () => {
+      const mockExporter = new MockExporter();
+      core = LumberjackCore.create({
+        exporter: mockExporter,
+        runtimeMetrics: true,
+      });
+
+      (core as any).runtimeMetrics.sample();
+      await core.flushAll();
+
+      const names = mockExporter.exportedMetrics[0].metrics.map(
+        (metric) => metric.name
+      );
+      expect(names).toContain("nodejs.eventloop.delay.p99");
+      expect(names).toContain("v8js.memory.heap.used");
+    });
+  });
+
+  describe("Metadata Serialization", () => {
+    it("should snapshot metadata when the log is created", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({ exporter: mockExporter });
+
+      const order: any = {
+        id: BigInt(42),
+        tags: new Set(["new"]),
+        cause: Object.assign(new Error("upstream"), {
+          cause: new Error("timeout"),
+        }),
+      };
+      order.parent = order;
+
+      core.info("order created", { order });
+      order.tags.add("mutated");
+      await core.flush();
+
+      expect(mockExporter.exportedLogs[0].props?.order).toMatchObject({
+        id: "42",
+        tags: ["new"],
+        parent: "[Circular]",
+        cause: { message: "upstream", cause: { message: "timeout" } },
+      });
+    });
+
+    it("should apply configured limits", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({
+        exporter: mockExporter,
+        serialization: { maxStringLength: 4 },
+      });
+
+      core.info("long", { body: "abcdefgh" });
+      await core.flush();
+
+      expect(mockExporter.exportedLogs[0].props?.body).toBe(
+        "abcd...[4 more chars]"
+      );
+    });
   });
 
   describe("Batching and Flushing", () => {
@@ -335,6 +1008,306 @@ describe("LumberjackCore", () => {
     });
   });
 
+  describe("Queue Limits", () => {
+    it("should cap the log queue and report drops once export succeeds", async () => {
+      const mockExporter = new MockExporter();
+      mockExporter.shouldSucceed = false;
+
+      core = new LumberjackCore({
+        exporter: mockExporter,
+        maxQueueSize: 2,
+        overflowPolicy: "drop-oldest",
+      });
+
+      core.info("message 1");
+      core.info("message 2");
+      await core.flush(); // fails and re-queues
+      core.info("message 3");
+
+      expect(core.getDroppedCounts().logs).toBe(1);
+
+      mockExporter.shouldSucceed = true;
+      await core.flush();
+      await core.flush();
+
+      expect(mockExporter.exportedLogs.map((l) => l.message)).toEqual([
+        "message 2",
+        "message 3",
+        "Lumberjack dropped 1 items due to queue overflow",
+      ]);
+      expect(mockExporter.exportedLogs[2].props).toMatchObject({
+        droppedLogs: 1,
+        droppedObjects: 0,
+        droppedSpans: 0,
+      });
+    });
+
+    it("should reject new entries with drop-newest", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({
+        exporter: mockExporter,
+        maxQueueSize: 1,
+        overflowPolicy: "drop-newest",
+      });
+
+      core.info("kept");
+      core.info("dropped");
+      await core.flush();
+
+      expect(mockExporter.exportedLogs[0].message).toBe("kept");
+      expect(core.getDroppedCounts().logs).toBe(1);
+    });
+
+    it("should hold producers back with block instead of growing", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({
+        exporter: mockExporter,
+        maxQueueSize: 2,
+        batchSize: 2,
+        overflowPolicy: "block",
+      });
+
+      for (let i = 1; i <= 5; i++) {
+        await core.waitForCapacity();
+        core.info(`message ${i}`);
+      }
+      await core.flush();
+
+      expect(core.getDroppedCounts().logs).toBe(0);
+      expect(mockExporter.exportedLogs.map((l) => l.message)).toEqual([
+        "message 1",
+        "message 2",
+        "message 3",
+        "message 4",
+        "message 5",
+      ]);
+    });
+
+    it("should flush a full block queue smaller than a batch", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({
+        exporter: mockExporter,
+        maxQueueSize: 5,
+        batchSize: 100,
+        overflowPolicy: "block",
+      });
+
+      for (let i = 1; i <= 12; i++) {
+        await core.waitForCapacity();
+        core.info(`message ${i}`);
+      }
+
+      expect(mockExporter.exportedLogs).toHaveLength(10);
+      expect(core.getDroppedCounts().logs).toBe(0);
+    });
+  });
+
+  describe("Self-Telemetry", () => {
+    it("should track export counters and emit flush events", async () => {
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({ exporter: mockExporter });
+      const successes: any[] = [];
+      const errors: any[] = [];
+      core.on("flush:success", (event) => successes.push(event));
+      core.on("flush:error", (event) => errors.push(event));
+
+      core.info("first");
+      core.info("second");
+      await core.flush();
+
+      mockExporter.shouldSucceed = false;
+      core.info("third");
+      await core.flush();
+
+      const stats = core.getStats();
+      expect(stats.logs).toMatchObject({
+        enqueued: 3,
+        exported: 2,
+        failed: 1,
+        dropped: 0,
+      });
+      expect(stats.flushLatency.logs.count).toBe(2);
+      expect(stats.lastError).toMatchObject({
+        signal: "logs",
+        message: "Mock export error",
+      });
+      expect(successes).toEqual([
+        expect.objectContaining({ signal: "logs", items: 2, attempts: 1 }),
+      ]);
+      expect(errors).toEqual([
+        expect.objectContaining({ signal: "logs", items: 1 }),
+      ]);
+      expect(errors[0].error.message).toBe("Mock export error");
+    });
+
+    it("should count logs discarded after a non-retryable failure", async () => {
+      const mockExporter = new MockExporter();
+      jest.spyOn(mockExporter, "exportLogs").mockResolvedValue({
+        success: false,
+        error: new Error("Unauthorized"),
+        itemsExported: 0,
+        retryable: false,
+      });
+      core = new LumberjackCore({ exporter: mockExporter });
+
+      core.info("rejected");
+      await core.flush();
+
+      expect(core.getStats().logs.dropped).toBe(1);
+    });
+
+    it("should periodically send internal metrics when enabled", async () => {
+      jest.useFakeTimers();
+      try {
+        const mockExporter = new MockExporter();
+        const exportInternalMetrics = jest.fn(
+          async (_payload: InternalMetricsPayload): Promise<ExportResult> => ({
+            success: true,
+          })
+        );
+        Object.assign(mockExporter, { exportInternalMetrics });
+
+        core = new LumberjackCore({
+          exporter: mockExporter,
+          sendInternalMetrics: true,
+          internalMetricsInterval: 1000,
+        });
+        core.info("counted");
+
+        jest.advanceTimersByTime(1000);
+
+        expect(exportInternalMetrics).toHaveBeenCalledWith(
+          expect.objectContaining({
+            project_name: "js-app",
+            stats: expect.objectContaining({
+              logs: expect.objectContaining({ enqueued: 1 }),
+            }),
+          })
+        );
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe("Persistent Queue", () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), "lumberjack-core-wal-"));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("should replay unexported logs on the next init", async () => {
+      const failingExporter = new MockExporter();
+      failingExporter.shouldSucceed = false;
+
+      core = new LumberjackCore({
+        exporter: failingExporter,
+        persistentQueue: { directory },
+      });
+      core.info("survives restart");
+      await core.shutdown();
+
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({
+        exporter: mockExporter,
+        persistentQueue: { directory },
+      });
+      await core.flush();
+
+      expect(mockExporter.exportedLogs.map((l) => l.message)).toEqual([
+        "survives restart",
+      ]);
+    });
+
+    it("should not replay logs the queue rejected", async () => {
+      const failingExporter = new MockExporter();
+      failingExporter.shouldSucceed = false;
+
+      core = new LumberjackCore({
+        exporter: failingExporter,
+        persistentQueue: { directory },
+        maxQueueSize: 1,
+        overflowPolicy: "drop-newest",
+      });
+      core.info("kept");
+      core.info("rejected");
+      await core.shutdown();
+
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({
+        exporter: mockExporter,
+        persistentQueue: { directory },
+      });
+      await core.flush();
+
+      expect(mockExporter.exportedLogs.map((l) => l.message)).toEqual(["kept"]);
+    });
+
+    it("should not replay logs that were exported", async () => {
+      core = new LumberjackCore({
+        exporter: new MockExporter(),
+        persistentQueue: { directory },
+      });
+      core.info("already sent");
+      await core.shutdown();
+
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({
+        exporter: mockExporter,
+        persistentQueue: { directory },
+      });
+      await core.flush();
+
+      expect(mockExporter.exportedLogs).toHaveLength(0);
+    });
+
+    it("should keep logs of a slower failing flush on disk", async () => {
+      const exporter = new MockExporter();
+      let failFirst!: () => void;
+      const firstExport = new Promise<void>((resolve) => (failFirst = resolve));
+      let calls = 0;
+      jest
+        .spyOn(exporter, "exportLogs")
+        .mockImplementation(async (): Promise<ExportResult> => {
+          const call = ++calls;
+          if (call === 1) {
+            await firstExport;
+          }
+          return call === 2
+            ? { success: true, itemsExported: 1 }
+            : { success: false, error: new Error("down") };
+        });
+
+      core = new LumberjackCore({ exporter, persistentQueue: { directory } });
+      core.info("retried later");
+      const slowFlush = core.flush();
+      core.info("sent right away");
+      await core.flush();
+      failFirst();
+      await slowFlush;
+      await core.shutdown();
+
+      const mockExporter = new MockExporter();
+      core = new LumberjackCore({
+        exporter: mockExporter,
+        persistentQueue: { directory },
+      });
+      await core.flush();
+
+      // The later log is only acknowledged once nothing older is
+      // outstanding, so it is replayed as well
+      expect(mockExporter.exportedLogs.map((l) => l.message)).toEqual([
+        "retried later",
+        "sent right away",
+      ]);
+    });
+  });
+
   describe("Shutdown", () => {
     it("should prevent logging after shutdown", async () => {
       core = new LumberjackCore({ batchSize: 1, apiKey: "test-key" });
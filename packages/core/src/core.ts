@@ -1,24 +1,56 @@
-import { trace } from "@opentelemetry/api";
+import { context, propagation, trace } from "@opentelemetry/api";
 import * as Resources from "@opentelemetry/resources";
 import { NodeSDK } from "@opentelemetry/sdk-node";
 import { ReadableSpan } from "@opentelemetry/sdk-trace-node";
 import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
 import { EventEmitter } from "events";
+import { BoundedBuffer } from "./bounded-buffer.js";
+import { CompositeExporter } from "./composite-exporter.js";
 import { LumberjackContext } from "./context.js";
-import { getCommitSha, getEnvironmentInfo } from "./environment.js";
+import {
+  getCommitSha,
+  getEnvironmentInfo,
+  isDevelopment,
+} from "./environment.js";
+import { exceptionToAPI, toExceptionInfo } from "./exception.js";
 import type {
   EnrichedLogEntry,
   EnrichedRegisteredObject,
   Exporter,
+  ExportResult,
 } from "./exporter.js";
 import { Gatekeeper } from "./gatekeeper.js";
 import { HttpExporter } from "./http-exporter.js";
+import { isLogLevel, LogLevelFilter } from "./log-level.js";
+import { ChildLogger } from "./logger.js";
+import { globalMetricsRegistry, MetricsRegistry } from "./metrics.js";
 import { ObjectBatch, RegisteredObject } from "./object-batch.js";
+import { PersistentQueue, PersistentQueueOptions } from "./persistent-queue.js";
+import { PrettyConsoleExporter } from "./pretty-console-exporter.js";
+import { runProcessors, runSpanProcessors } from "./processors.js";
+import { RedactionConfig, Redactor } from "./redaction.js";
+import {
+  RuntimeMetricsCollector,
+  RuntimeMetricsConfig,
+  RuntimeMetricsSnapshot,
+  ThresholdBreach,
+} from "./runtime-metrics.js";
 import { detectRuntime, getEnvironmentValue } from "./runtime.js";
 import { convertReadableSpansToOTLP, SpanBatch } from "./span-batch.js";
 import { LumberjackSpanProcessor } from "./span-processor.js";
-import { LogEntry, LogLevelType, LumberjackConfig } from "./types.js";
+import { SdkStats, SignalType, StatsCollector } from "./stats.js";
+import { TailSampler, TailSamplingConfig } from "./tail-sampler.js";
+import {
+  ExceptionInfo,
+  LogEntry,
+  LogLevelType,
+  LumberjackConfig,
+} from "./types.js";
 import { getCallerInfo } from "./util/get-caller-info.js";
+import { safeStringify, serializeRecord } from "./util/serialize.js";
+
+/** How long to wait for buffered data to flush before exiting on a crash */
+const UNHANDLED_FLUSH_TIMEOUT_MS = 2000;
 
 declare global {
   // Each Node.js worker (and each Next.js page/API worker) gets its own global object,
@@ -27,30 +59,75 @@ declare global {
   var __LUMBERJACK_CORE__: LumberjackCore | undefined;
 }
 
+type ResolvedConfig = Required<
+  Omit<
+    LumberjackConfig,
+    | "exporter"
+    | "getHeaders"
+    | "redaction"
+    | "persistentQueue"
+    | "tailSampling"
+    | "runtimeMetrics"
+  >
+> & {
+  exporter?: Exporter | undefined;
+  getHeaders?: () => Promise<Record<string, string>>;
+  redaction?: RedactionConfig | undefined;
+  persistentQueue?: PersistentQueueOptions | undefined;
+  tailSampling?: TailSamplingConfig | undefined;
+  runtimeMetrics?: RuntimeMetricsConfig | undefined;
+};
+
 export class LumberjackCore extends EventEmitter {
   private static instance: LumberjackCore | null = null;
-
-  private config!: Required<
-    Omit<LumberjackConfig, "exporter" | "getHeaders">
-  > & {
-    exporter?: Exporter | undefined;
-    getHeaders?: () => Promise<Record<string, string>>;
-  };
-  private logBuffer: LogEntry[] = [];
+  /**
+   * Instances capturing uncaught exceptions and unhandled rejections. They
+   * share one process listener per event, so Lumberjack never counts as an
+   * app handler when deciding whether Node would have crashed.
+   */
+  private static crashCapturers: Set<LumberjackCore> = new Set();
+  private static crashListeners: Array<[string, (...args: any[]) => void]> = [];
+
+  private config!: ResolvedConfig;
+  private logBuffer!: BoundedBuffer<LogEntry>;
+  private persistentQueue: PersistentQueue<LogEntry> | null = null;
+  private persistedSeqs: WeakMap<LogEntry, number> = new WeakMap();
+  /** Logs drained by flushes that have not finished exporting yet */
+  private inFlightLogs: Set<LogEntry[]> = new Set();
+  /** Destinations still owed a log after a partial fan-out failure */
+  private retryDestinations: WeakMap<LogEntry, string[]> = new WeakMap();
+  private reportedDrops = { logs: 0, objects: 0, spans: 0 };
   private objectBatch: ObjectBatch | null = null;
   private spanBatch: SpanBatch | null = null;
   private flushTimer: NodeJS.Timeout | null = null;
+  private internalMetricsTimer: NodeJS.Timeout | null = null;
+  private metricsTimer: NodeJS.Timeout | null = null;
+  private metricsRegistry!: MetricsRegistry;
+  private runtimeMetrics: RuntimeMetricsCollector | null = null;
+  private removeRuntimeGauges: (() => void) | null = null;
+  private stats: StatsCollector = new StatsCollector();
   private originalConsoleMethods: Record<string, Function> = {};
+  private processListeners: Array<[string, (...args: any[]) => void]> = [];
+  private pendingSends: Set<Promise<void>> = new Set();
   private isShuttingDown = false;
 
   private objectCache: Map<string, string> = new Map();
   private _gatekeeper: Gatekeeper | null = null;
   private exporter!: Exporter;
-
-  constructor(config: LumberjackConfig = {}) {
+  private levelFilter!: LogLevelFilter;
+  private redactor: Redactor | null = null;
+  private tailSampler: TailSampler | null = null;
+  private readonly isolated: boolean;
+
+  constructor(
+    config: LumberjackConfig = {},
+    options: { isolated?: boolean } = {}
+  ) {
     super();
 
-    if (LumberjackCore.instance) {
+    this.isolated = options.isolated === true;
+
+    if (!this.isolated && LumberjackCore.instance) {
       return LumberjackCore.instance;
     }
 
@@ -64,8 +141,14 @@ export class LumberjackCore extends EventEmitter {
       batchSize: config.batchSize || 100,
       batchAge: config.batchAge || 5000,
       flushInterval: config.flushInterval || 30000,
-      captureConsole: config.captureConsole || true,
-      captureUnhandled: config.captureUnhandled !== false,
+      // Process-wide hooks are opt-in for independent instances
+      captureConsole: this.isolated
+        ? config.captureConsole === true
+        : config.captureConsole || true,
+      captureUnhandled: this.isolated
+        ? config.captureUnhandled === true
+        : config.captureUnhandled !== false,
+      exitOnUnhandled: config.exitOnUnhandled !== false,
       debug: config.debug || false,
       serviceToken:
         config.serviceToken ||
@@ -76,8 +159,37 @@ export class LumberjackCore extends EventEmitter {
         getEnvironmentValue("LUMBERJACK_GATEKEEPER_ENDPOINT") ||
         "https://api.trylumberjack.com/gatekeeper",
       exporter: config.exporter || undefined,
+      retry: config.retry || {},
+      spanFilter: config.spanFilter || "nextjs",
+      serialization: config.serialization || {},
+      sendInternalMetrics: config.sendInternalMetrics || false,
+      internalMetricsInterval: config.internalMetricsInterval || 60000,
+      metricsInterval: config.metricsInterval || 60000,
+      maxQueueSize: config.maxQueueSize || 10000,
+      overflowPolicy: config.overflowPolicy || "drop-oldest",
+      minLevel: config.minLevel || LumberjackCore.getEnvironmentLogLevel(),
+      levelOverrides: config.levelOverrides || {},
+      beforeSendLog: config.beforeSendLog || [],
+      beforeSendObject: config.beforeSendObject || [],
+      beforeSendSpan: config.beforeSendSpan || [],
+      redaction: config.redaction,
+      persistentQueue: config.persistentQueue,
+      tailSampling: config.tailSampling,
+      runtimeMetrics:
+        config.runtimeMetrics === true
+          ? {}
+          : config.runtimeMetrics || undefined,
     };
 
+    if (this.config.redaction) {
+      this.redactor = new Redactor(this.config.redaction);
+    }
+
+    this.levelFilter = new LogLevelFilter(
+      this.config.minLevel,
+      this.config.levelOverrides
+    );
+
     if (this.config.debug) {
       const envInfo = getEnvironmentInfo();
       console.log("[Lumberjack] Initializing SDK with config:", {
@@ -87,38 +199,86 @@ export class LumberjackCore extends EventEmitter {
       console.log("[Lumberjack] Environment context:", envInfo);
     }
 
-    // Initialize exporter - use provided exporter or create default HttpExporter
-    this.exporter =
-      config.exporter ||
-      new HttpExporter({
-        apiKey: this.config.apiKey,
-        endpoint: this.config.endpoint,
-        projectName: this.config.projectName,
-      });
+    // Initialize exporter - use provided exporter or create the default
+    this.exporter = config.exporter || this.createDefaultExporter();
+
+    this.logBuffer = new BoundedBuffer(
+      this.config.maxQueueSize,
+      this.config.overflowPolicy
+    );
+
+    if (this.config.persistentQueue) {
+      this.openPersistentQueue(this.config.persistentQueue);
+    }
 
     this.objectBatch = new ObjectBatch(
       this.config.batchSize,
-      this.config.batchAge
+      this.config.batchAge,
+      this.config.maxQueueSize,
+      this.config.overflowPolicy
+    );
+
+    this.spanBatch = new SpanBatch(
+      this.config.batchSize,
+      this.config.batchAge,
+      this.config.maxQueueSize,
+      this.config.overflowPolicy
     );
 
-    this.spanBatch = new SpanBatch(this.config.batchSize, this.config.batchAge);
+    if (this.config.tailSampling) {
+      this.tailSampler = new TailSampler(this.config.tailSampling, (spans) => {
+        for (const span of spans) {
+          this.addSpan(span);
+        }
+      });
+    }
 
     this.startFlushTimer();
 
+    // Isolated instances keep their instruments to themselves
+    this.metricsRegistry = this.isolated
+      ? new MetricsRegistry()
+      : globalMetricsRegistry;
+    this.startMetricsTimer();
+
+    if (this.config.runtimeMetrics) {
+      this.startRuntimeMetrics(this.config.runtimeMetrics);
+    }
+
+    if (this.config.sendInternalMetrics) {
+      this.startInternalMetricsTimer();
+    }
+
     if (this.config.captureConsole) {
       this.enableConsoleCapture();
     }
 
+    if (this.config.captureUnhandled) {
+      this.enableUnhandledCapture();
+    }
+
+    if (this.isolated) {
+      // Leave the global OpenTelemetry setup to the host app; spans can be
+      // passed in through addSpan() or a LumberjackSpanProcessor
+      return;
+    }
+
     LumberjackCore.instance = this;
 
     // set up and start the sdk
     const sdk = new NodeSDK({
+      idGenerator: {
+        generateTraceId: () => LumberjackContext.generateTraceId(),
+        generateSpanId: () => LumberjackContext.generateSpanId(),
+      },
       resource: Resources.resourceFromAttributes({
         [ATTR_SERVICE_NAME]: this.config.projectName,
       }),
       spanProcessor: new LumberjackSpanProcessor({
         debug: this.config.debug,
         instance: this,
+        filter: this.config.spanFilter,
+        sampler: this.tailSampler ?? undefined,
       }),
     });
 
@@ -142,6 +302,199 @@ export class LumberjackCore extends EventEmitter {
     return core;
   }
 
+  /**
+   * Create an independent instance with its own exporter, buffers and
+   * timers. It is never registered as the global instance, so libraries and
+   * multi-tenant services can send to their own project without touching
+   * the host app's SDK. Console and unhandled-error capture are off unless
+   * enabled explicitly.
+   */
+  static create(config: LumberjackConfig = {}): LumberjackCore {
+    return new LumberjackCore(config, { isolated: true });
+  }
+
+  /**
+   * Shut down the global instance and unregister its OpenTelemetry setup so
+   * the next init() starts from scratch, e.g. between tests
+   */
+  static async reset(): Promise<void> {
+    const core = globalThis.__LUMBERJACK_CORE__ ?? LumberjackCore.instance;
+    globalThis.__LUMBERJACK_CORE__ = undefined;
+    LumberjackCore.instance = null;
+    await core?.shutdown();
+
+    trace.disable();
+    context.disable();
+    propagation.disable();
+  }
+
+  /**
+   * The exporter used when none is configured. In development logs and
+   * spans are also printed readably, and only printed without an API key.
+   * Captured console output is not printed again.
+   */
+  private createDefaultExporter(): Exporter {
+    const http = new HttpExporter({
+      apiKey: this.config.apiKey,
+      endpoint: this.config.endpoint,
+      projectName: this.config.projectName,
+      retry: this.config.retry,
+      debug: this.config.debug,
+    });
+    if (!isDevelopment()) {
+      return http;
+    }
+
+    const pretty = new PrettyConsoleExporter({ skipConsoleLogs: true });
+    if (!this.config.apiKey) {
+      return pretty;
+    }
+    return new CompositeExporter([
+      { name: "lumberjack", exporter: http },
+      { name: "console", exporter: pretty },
+    ]);
+  }
+
+  /**
+   * Open the on-disk write-ahead queue and put whatever a previous process
+   * left unexported back into the log buffer
+   */
+  private openPersistentQueue(options: PersistentQueueOptions): void {
+    if (!detectRuntime().isNode) {
+      if (this.config.debug) {
+        console.log(
+          "[Lumberjack] Persistent queue is only supported in Node.js, skipping"
+        );
+      }
+      return;
+    }
+
+    try {
+      const queue = new PersistentQueue<LogEntry>(options);
+      const records = queue.replay();
+
+      for (const { seq, data } of records) {
+        this.persistedSeqs.set(data, seq);
+        this.logBuffer.push(data);
+      }
+
+      this.persistentQueue = queue;
+
+      if (this.config.debug) {
+        console.log(
+          `[Lumberjack] Replayed ${records.length} log entries from ${options.directory}`
+        );
+      }
+    } catch (error) {
+      console.error(
+        "[Lumberjack]: Failed to open persistent queue, continuing in memory:",
+        error
+      );
+    }
+  }
+
+  private persist(logEntry: LogEntry): void {
+    if (!this.persistentQueue) {
+      return;
+    }
+
+    try {
+      this.persistedSeqs.set(logEntry, this.persistentQueue.append(logEntry));
+    } catch (error) {
+      if (this.config.debug) {
+        console.log("[Lumberjack] Failed to persist log entry:", error);
+      }
+    }
+  }
+
+  /**
+   * Truncate the on-disk queue up to the newest of the given entries, but
+   * never past an older entry that may still be re-queued: one held back
+   * or failed in this flush, still queued, or in flight in another flush
+   */
+  private acknowledgePersisted(logs: LogEntry[], held: LogEntry[] = []): void {
+    if (!this.persistentQueue) {
+      return;
+    }
+
+    let maxSeq = 0;
+    for (const log of logs) {
+      maxSeq = Math.max(maxSeq, this.persistedSeqs.get(log) ?? 0);
+    }
+    const outstanding = [
+      ...held,
+      ...this.logBuffer.peek(),
+      ...[...this.inFlightLogs].flat(),
+    ];
+    for (const log of outstanding) {
+      const seq = this.persistedSeqs.get(log);
+      if (seq !== undefined) {
+        maxSeq = Math.min(maxSeq, seq - 1);
+      }
+    }
+
+    if (maxSeq === 0) {
+      return;
+    }
+
+    try {
+      this.persistentQueue.ack(maxSeq);
+    } catch (error) {
+      console.error(
+        "[Lumberjack]: Failed to truncate persistent queue:",
+        error
+      );
+    }
+  }
+
+  /**
+   * With `tailSampling.dropLogs`, remove logs of traces the sampler dropped
+   * and hold back logs of traces it has not decided yet
+   */
+  private sampleLogs(entries: LogEntry[]): {
+    logs: LogEntry[];
+    held: LogEntry[];
+  } {
+    const sampler = this.tailSampler;
+    if (!sampler?.dropLogs) {
+      return { logs: entries, held: [] };
+    }
+
+    const logs: LogEntry[] = [];
+    const held: LogEntry[] = [];
+    let dropped = 0;
+
+    for (const entry of entries) {
+      const decision = entry.traceId
+        ? sampler.getDecision(entry.traceId)
+        : undefined;
+      if (decision === "drop") {
+        dropped++;
+      } else if (decision === "pending") {
+        held.push(entry);
+      } else {
+        logs.push(entry);
+      }
+    }
+
+    if (dropped > 0) {
+      this.stats.recordDropped("logs", dropped);
+    }
+
+    if (this.config.debug && (dropped > 0 || held.length > 0)) {
+      console.log(
+        `[Lumberjack] Tail sampling dropped ${dropped} and held ${held.length} log entries`
+      );
+    }
+
+    return { logs, held };
+  }
+
+  private static getEnvironmentLogLevel(): LogLevelType {
+    const level = getEnvironmentValue("LUMBERJACK_LOG_LEVEL")?.toLowerCase();
+    return isLogLevel(level) ? level : "trace";
+  }
+
   /** Read-only accessor that never re-creates the core */
   static getInstance(): LumberjackCore | undefined {
     return globalThis.__LUMBERJACK_CORE__;
@@ -149,6 +502,7 @@ export class LumberjackCore extends EventEmitter {
 
   addSpan(span: ReadableSpan): void {
     if (this.spanBatch) {
+      this.stats.recordEnqueued("spans");
       if (this.spanBatch.add(span)) {
         this.flushSpans();
       }
@@ -172,7 +526,7 @@ export class LumberjackCore extends EventEmitter {
         if (typeof args[0] === "string") {
           message = args[0];
         } else {
-          message = JSON.stringify(args[0]);
+          message = safeStringify(args[0], this.config.serialization);
         }
 
         // don't infinite loop
@@ -183,27 +537,10 @@ export class LumberjackCore extends EventEmitter {
         if (args.length > 1) {
           attributes = args.slice(1);
         }
-        let errorInfo: Partial<{
-          name: string;
-          message: string;
-          stack?: string | undefined;
-          type: string;
-        }> = {};
+        let errorInfo: ExceptionInfo | undefined;
         for (const attribute of attributes) {
           if (attribute instanceof Error) {
-            let name;
-
-            if ("name" in attribute && attribute.name === "Error") {
-              name = "Error";
-            } else {
-              name = attribute.constructor.name;
-            }
-
-            errorInfo = {
-              name,
-              message: attribute.message,
-              stack: attribute.stack,
-            };
+            errorInfo = toExceptionInfo(attribute);
           }
         }
 
@@ -220,8 +557,7 @@ export class LumberjackCore extends EventEmitter {
           {
             source: "console",
             attributes,
-            exception:
-              Object.keys(errorInfo).length > 0 ? errorInfo : undefined,
+            exception: errorInfo,
           },
           caller
         );
@@ -240,6 +576,172 @@ export class LumberjackCore extends EventEmitter {
     this.originalConsoleMethods = {};
   }
 
+  private enableUnhandledCapture(): void {
+    if (!detectRuntime().isNode || typeof process.on !== "function") {
+      return;
+    }
+
+    if (this.config.debug) {
+      console.log("[Lumberjack] Enabling unhandled error capture");
+    }
+
+    if (LumberjackCore.crashCapturers.size === 0) {
+      LumberjackCore.installCrashListeners();
+    }
+    LumberjackCore.crashCapturers.add(this);
+
+    const onWarning = (warning: Error & { code?: string }) => {
+      this.log(
+        "warn",
+        warning.message,
+        {
+          source: "warning",
+          warningName: warning.name,
+          warningCode: warning.code,
+          exception: toExceptionInfo(warning),
+        },
+        {}
+      );
+    };
+
+    this.processListeners = [["warning", onWarning]];
+    for (const [event, listener] of this.processListeners) {
+      process.on(event, listener);
+    }
+  }
+
+  private disableUnhandledCapture(): void {
+    for (const [event, listener] of this.processListeners) {
+      process.removeListener(event, listener);
+    }
+    this.processListeners = [];
+
+    if (
+      LumberjackCore.crashCapturers.delete(this) &&
+      LumberjackCore.crashCapturers.size === 0
+    ) {
+      for (const [event, listener] of LumberjackCore.crashListeners) {
+        process.removeListener(event, listener);
+      }
+      LumberjackCore.crashListeners = [];
+    }
+  }
+
+  private static installCrashListeners(): void {
+    const onUncaughtException = (error: unknown) => {
+      const err = LumberjackCore.toError(error);
+      for (const core of LumberjackCore.crashCapturers) {
+        core.captureCrash("fatal", `Uncaught exception: ${err.message}`, err, {
+          source: "uncaughtException",
+        });
+      }
+      LumberjackCore.flushAfterCrash(err, "uncaughtException", true);
+    };
+
+    const onUnhandledRejection = (reason: unknown) => {
+      const err = LumberjackCore.toError(reason);
+      for (const core of LumberjackCore.crashCapturers) {
+        core.captureCrash(
+          "error",
+          `Unhandled promise rejection: ${err.message}`,
+          err,
+          { source: "unhandledRejection" }
+        );
+      }
+      LumberjackCore.flushAfterCrash(
+        err,
+        "unhandledRejection",
+        LumberjackCore.rejectionsExitProcess()
+      );
+    };
+
+    LumberjackCore.crashListeners = [
+      ["uncaughtException", onUncaughtException],
+      ["unhandledRejection", onUnhandledRejection],
+    ];
+    for (const [event, listener] of LumberjackCore.crashListeners) {
+      process.on(event, listener);
+    }
+  }
+
+  private captureCrash(
+    level: LogLevelType,
+    message: string,
+    error: Error,
+    metadata: Record<string, any>
+  ): void {
+    try {
+      this.log(
+        level,
+        message,
+        {
+          ...metadata,
+          exception: toExceptionInfo(error),
+        },
+        {} // the handler frame says nothing about where the error came from
+      );
+    } catch (captureError) {
+      process.stderr.write(
+        `[Lumberjack] Failed to capture ${metadata.source}: ${captureError}\n`
+      );
+    }
+  }
+
+  /**
+   * Flush every capturing instance right away. When Node would have
+   * crashed, mirror its default behaviour (print and exit with code 1) once
+   * the flushes settle, unless the app registered its own handler or an
+   * instance set `exitOnUnhandled: false`.
+   */
+  private static async flushAfterCrash(
+    error: Error,
+    event: string,
+    crashes: boolean
+  ): Promise<void> {
+    const cores = [...LumberjackCore.crashCapturers];
+    const shouldExit =
+      crashes &&
+      cores.every((core) => core.config.exitOnUnhandled) &&
+      process.listenerCount(event) <= 1;
+
+    if (shouldExit) {
+      process.stderr.write(`${error.stack || String(error)}\n`);
+    }
+
+    let timeout: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.all(cores.map((core) => core.flushAll().catch(() => undefined))),
+      new Promise((resolve) => {
+        timeout = setTimeout(resolve, UNHANDLED_FLUSH_TIMEOUT_MS);
+      }),
+    ]);
+    clearTimeout(timeout);
+
+    if (shouldExit) {
+      process.exit(1);
+    }
+  }
+
+  /** Whether Node would crash on an unhandled rejection in this process */
+  private static rejectionsExitProcess(): boolean {
+    const flags = [
+      ...process.execArgv,
+      ...(process.env.NODE_OPTIONS || "").split(/\s+/),
+    ];
+    const mode = flags
+      .find((flag) => flag.startsWith("--unhandled-rejections="))
+      ?.split("=")[1];
+    return !mode || mode === "throw" || mode === "strict";
+  }
+
+  private static toError(value: unknown): Error {
+    if (value instanceof Error) {
+      return value;
+    }
+    // A BigInt or circular reason must not turn the crash into a TypeError
+    return new Error(typeof value === "string" ? value : safeStringify(value));
+  }
+
   log(
     level: LogLevelType,
     message: string,
@@ -248,9 +750,18 @@ export class LumberjackCore extends EventEmitter {
   ): void {
     if (this.isShuttingDown) return;
 
-    const context = LumberjackContext.getStore();
     const callerInfo = caller || getCallerInfo(3); // fallback with deeper skip
 
+    if (!this.levelFilter.isEnabled(level, callerInfo)) {
+      return;
+    }
+
+    // Snapshot the metadata now so later mutations, cycles or exotic types
+    // can't change or break the entry before it is flushed
+    metadata = serializeRecord(metadata, this.config.serialization);
+
+    const context = LumberjackContext.getStore();
+
     const currentSpan = trace.getActiveSpan();
     const traceContext = currentSpan
       ? {
@@ -283,12 +794,24 @@ export class LumberjackCore extends EventEmitter {
       console.log("[Lumberjack] Adding log entry to buffer:", logEntry);
     }
 
-    this.logBuffer.push(logEntry);
+    if (this.logBuffer.push(logEntry)) {
+      // Entries the queue rejected must not come back from disk either
+      this.persist(logEntry);
+      this.stats.recordEnqueued("logs");
+    } else if (this.config.debug) {
+      console.log("[Lumberjack] Log queue full, dropping entry");
+    }
 
-    if (this.logBuffer.length >= this.config.batchSize) {
+    // Under "block" a queue smaller than a batch is flushed when full, so
+    // producers waiting for capacity are not left until the flush timer
+    const flushAt =
+      this.config.overflowPolicy === "block"
+        ? Math.min(this.config.batchSize, this.config.maxQueueSize)
+        : this.config.batchSize;
+    if (this.logBuffer.size >= flushAt) {
       if (this.config.debug) {
         console.log(
-          `[Lumberjack] Buffer full (${this.logBuffer.length}/${this.config.batchSize}), triggering flush`
+          `[Lumberjack] Buffer full (${this.logBuffer.size}/${flushAt}), triggering flush`
         );
       }
       this.flush();
@@ -297,19 +820,57 @@ export class LumberjackCore extends EventEmitter {
     this.emit("log", logEntry);
   }
 
+  /**
+   * Change the minimum level at runtime. With a module pattern, sets (or
+   * replaces) the override for that pattern instead of the global level.
+   */
+  setLevel(level: LogLevelType, module?: string): void {
+    if (module) {
+      this.levelFilter.setOverride(module, level);
+      this.config.levelOverrides = this.levelFilter.getOverrides();
+    } else {
+      this.levelFilter.setMinLevel(level);
+      this.config.minLevel = level;
+    }
+
+    if (this.config.debug) {
+      console.log(
+        `[Lumberjack] Log level set to ${level}${
+          module ? ` for ${module}` : ""
+        }`
+      );
+    }
+  }
+
+  /** Remove a per-module override added via config or `setLevel()` */
+  clearLevel(module: string): void {
+    this.levelFilter.removeOverride(module);
+    this.config.levelOverrides = this.levelFilter.getOverrides();
+  }
+
+  /** Whether an entry at `level` from the current caller would be kept */
+  isLevelEnabled(level: LogLevelType): boolean {
+    return this.levelFilter.isEnabled(level, getCallerInfo(1));
+  }
+
+  /**
+   * Create a logger whose bound fields are merged into the props of every
+   * entry it writes. Children can be nested.
+   */
+  child(bindings: Record<string, any>): ChildLogger {
+    return new ChildLogger(() => this, bindings);
+  }
+
   logError(
     message: string,
     error: Error,
-    metadata: Record<string, any> = {}
+    metadata: Record<string, any> = {},
+    callerInfo?: ReturnType<typeof getCallerInfo>
   ): void {
-    const caller = getCallerInfo(1); // Skip this method to get the actual caller
+    const caller = callerInfo || getCallerInfo(1); // Skip this method to get the actual caller
     const errorMetadata = {
       ...metadata,
-      exception: {
-        name: error.name,
-        message: error.message,
-        stack: error.stack || "",
-      },
+      exception: toExceptionInfo(error),
     };
 
     this.log("error", message, errorMetadata, caller);
@@ -407,6 +968,7 @@ export class LumberjackCore extends EventEmitter {
 
           // Check cache before adding to batch
           if (this.shouldRegisterObject(formattedObj)) {
+            this.stats.recordEnqueued("objects");
             if (this.objectBatch?.add(formattedObj)) {
               this.flushObjects();
             }
@@ -425,6 +987,7 @@ export class LumberjackCore extends EventEmitter {
 
         // Check cache before adding to batch
         if (this.shouldRegisterObject(formattedObj)) {
+          this.stats.recordEnqueued("objects");
           if (this.objectBatch?.add(formattedObj)) {
             this.flushObjects();
           }
@@ -662,29 +1225,50 @@ export class LumberjackCore extends EventEmitter {
     const spans = this.spanBatch.getSpans();
     const count = spans.length;
     if (spans.length > 0) {
-      this.sendSpans(spans).catch((error) => {
-        console.error("[Lumberjack]: Error in flushSpans:", error);
-      });
+      this.trackSend(
+        this.sendSpans(spans).catch((error) => {
+          console.error("[Lumberjack]: Error in flushSpans:", error);
+        })
+      );
     }
 
     return count;
   }
 
   private async sendSpans(spans: ReadableSpan[]): Promise<void> {
-    const transformedSpans = convertReadableSpansToOTLP(spans);
+    let transformedSpans = convertReadableSpansToOTLP(spans);
+    if (this.config.beforeSendSpan.length > 0) {
+      transformedSpans = await runSpanProcessors(
+        transformedSpans,
+        this.config.beforeSendSpan,
+        this.config.debug
+      );
+    }
+
+    if (transformedSpans.resourceSpans.length === 0) {
+      return;
+    }
+
+    if (this.redactor) {
+      transformedSpans = this.redactor.redactSpanRequest(transformedSpans);
+    }
 
+    const startedAt = Date.now();
     const result = await this.exporter.exportSpans({
       resourceSpans: transformedSpans.resourceSpans,
       project_name: this.config.projectName,
       sdk_version: "2",
       commit_sha: getCommitSha(),
     });
+    this.recordExport("spans", spans.length, result, startedAt);
 
     if (!result.success) {
       console.error(
         "[Lumberjack]: Failed to send spans:",
         result.error?.message
       );
+    } else {
+      this.reportDroppedItems();
     }
   }
 
@@ -700,19 +1284,34 @@ export class LumberjackCore extends EventEmitter {
     const count = objects.length;
     if (objects.length > 0) {
       // Fire and forget - don't await to maintain non-blocking behavior
-      this.sendObjects(objects).catch((error) => {
-        console.error("[Lumberjack]: Error in flushObjects:", error);
-      });
+      this.trackSend(
+        this.sendObjects(objects).catch((error) => {
+          console.error("[Lumberjack]: Error in flushObjects:", error);
+        })
+      );
     }
 
     return count;
   }
 
   private async sendObjects(objects: RegisteredObject[]): Promise<void> {
+    if (this.config.beforeSendObject.length > 0) {
+      objects = await runProcessors(
+        objects,
+        this.config.beforeSendObject,
+        this.config.debug
+      );
+    }
+
     if (objects.length === 0) {
       return;
     }
 
+    if (this.redactor) {
+      const redactor = this.redactor;
+      objects = objects.map((obj) => redactor.redactObject(obj));
+    }
+
     const commitSha = getCommitSha();
 
     // Transform objects to include metadata
@@ -729,20 +1328,261 @@ export class LumberjackCore extends EventEmitter {
       console.log(`[Lumberjack] Sending ${objects.length} objects`);
     }
 
+    const startedAt = Date.now();
     const result = await this.exporter.exportObjects(transformedObjects);
+    this.recordExport("objects", objects.length, result, startedAt);
 
     if (!result.success) {
       console.error(
         "[Lumberjack]: Failed to send objects:",
         result.error?.message
       );
-    } else if (this.config.debug) {
+    } else {
+      if (this.config.debug) {
+        console.log(
+          `[Lumberjack] Successfully sent ${result.itemsExported} objects`
+        );
+      }
+      this.reportDroppedItems();
+    }
+  }
+
+  /**
+   * Resolves once the log queue has room. With `overflowPolicy: "block"`,
+   * producers that log in bulk await this before each log so they slow
+   * down to the export rate instead of losing entries. A full queue has
+   * already triggered a flush (even below `batchSize`), so this waits for
+   * that flush to drain it.
+   */
+  waitForCapacity(): Promise<void> {
+    return this.logBuffer.waitForSpace();
+  }
+
+  /** Number of items dropped due to queue overflow since start-up */
+  getDroppedCounts(): { logs: number; objects: number; spans: number } {
+    return {
+      logs: this.logBuffer.dropped,
+      objects: this.objectBatch?.dropped ?? 0,
+      spans: this.spanBatch?.dropped ?? 0,
+    };
+  }
+
+  /**
+   * Counters, flush latency histograms and the last export error for the
+   * SDK itself
+   */
+  getStats(): SdkStats {
+    return this.stats.snapshot(this.getDroppedCounts());
+  }
+
+  private recordExport(
+    signal: SignalType,
+    items: number,
+    result: ExportResult,
+    startedAt: number
+  ): void {
+    const event = this.stats.recordExport(
+      signal,
+      items,
+      result,
+      Date.now() - startedAt
+    );
+    this.emit(event.error ? "flush:error" : "flush:success", event);
+  }
+
+  private startInternalMetricsTimer(): void {
+    const runtime = detectRuntime();
+
+    if (!this.exporter.exportInternalMetrics) {
+      if (this.config.debug) {
+        console.log(
+          "[Lumberjack] Exporter does not support internal metrics, skipping"
+        );
+      }
+      return;
+    }
+
+    if (runtime.isNode || runtime.isBrowser) {
+      this.internalMetricsTimer = setInterval(() => {
+        this.exportInternalMetrics().catch((error) => {
+          console.error("[Lumberjack]: Error in exportInternalMetrics:", error);
+        });
+      }, this.config.internalMetricsInterval);
+    }
+  }
+
+  private startMetricsTimer(): void {
+    const runtime = detectRuntime();
+
+    if (!this.exporter.exportMetrics) {
+      if (this.config.debug) {
+        console.log("[Lumberjack] Exporter does not support metrics, skipping");
+      }
+      return;
+    }
+
+    if (runtime.isNode || runtime.isBrowser) {
+      this.metricsTimer = setInterval(() => {
+        this.flushMetrics().catch((error) => {
+          console.error("[Lumberjack]: Error in flushMetrics:", error);
+        });
+      }, this.config.metricsInterval);
+    }
+  }
+
+  private startRuntimeMetrics(config: RuntimeMetricsConfig): void {
+    if (!detectRuntime().isNode) {
+      if (this.config.debug) {
+        console.log(
+          "[Lumberjack] Runtime metrics are only available in Node.js, skipping"
+        );
+      }
+      return;
+    }
+
+    // Tag every sample with where it came from
+    const deployment: Record<string, string> = {};
+    for (const [key, value] of Object.entries(getEnvironmentInfo())) {
+      if (value) {
+        deployment[key] = value;
+      }
+    }
+
+    const reportAsLogs = config.reportAs === "logs";
+    this.runtimeMetrics = new RuntimeMetricsCollector(
+      config,
+      (snapshot, breaches) => {
+        if (reportAsLogs) {
+          this.reportRuntimeSample(snapshot, deployment);
+        }
+        for (const breach of breaches) {
+          this.reportThresholdBreach(breach, deployment);
+        }
+      }
+    );
+
+    if (!reportAsLogs) {
+      this.removeRuntimeGauges = this.runtimeMetrics.registerMetrics(
+        this.metricsRegistry,
+        deployment
+      );
+    }
+    this.runtimeMetrics.start();
+  }
+
+  private reportRuntimeSample(
+    snapshot: RuntimeMetricsSnapshot,
+    deployment: Record<string, string>
+  ): void {
+    this.log(
+      "info",
+      "Runtime metrics",
+      { source: "lumberjack-sdk", deployment, runtime: snapshot },
+      {}
+    );
+  }
+
+  private reportThresholdBreach(
+    breach: ThresholdBreach,
+    deployment: Record<string, string>
+  ): void {
+    this.emit("runtime:threshold", breach);
+    this.log(
+      "warn",
+      `Runtime ${breach.metric} is ${Number(
+        breach.value.toFixed(2)
+      )}, above the threshold of ${breach.threshold}`,
+      { source: "lumberjack-sdk", deployment, ...breach },
+      {}
+    );
+  }
+
+  /** Instruments for application metrics, exported every `metricsInterval` */
+  get metrics(): MetricsRegistry {
+    return this.metricsRegistry;
+  }
+
+  /** Collect aggregated metrics and send them to the exporter */
+  async flushMetrics(): Promise<void> {
+    if (!this.exporter.exportMetrics) {
+      return;
+    }
+
+    const metrics = this.metricsRegistry.collect();
+    if (metrics.length === 0) {
+      return;
+    }
+
+    if (this.config.debug) {
+      console.log(`[Lumberjack] Flushing ${metrics.length} metrics`);
+    }
+
+    const result = await this.exporter.exportMetrics({
+      metrics,
+      timestamp: Date.now(),
+      project_name: this.config.projectName,
+      sdk_version: "2",
+      commit_sha: getCommitSha(),
+    });
+
+    if (!result.success) {
+      console.error(
+        "[Lumberjack]: Failed to send metrics:",
+        result.error?.message
+      );
+    }
+  }
+
+  private async exportInternalMetrics(): Promise<void> {
+    if (!this.exporter.exportInternalMetrics) {
+      return;
+    }
+
+    const result = await this.exporter.exportInternalMetrics({
+      stats: this.getStats(),
+      timestamp: Date.now(),
+      project_name: this.config.projectName,
+      sdk_version: "2",
+      commit_sha: getCommitSha(),
+    });
+
+    if (!result.success && this.config.debug) {
       console.log(
-        `[Lumberjack] Successfully sent ${result.itemsExported} objects`
+        "[Lumberjack] Failed to send internal metrics:",
+        result.error?.message
       );
     }
   }
 
+  /**
+   * Once an export succeeds, record any overflow drops that happened since
+   * the last report as a synthetic warning so the loss is visible.
+   */
+  private reportDroppedItems(): void {
+    const totals = this.getDroppedCounts();
+    const logs = totals.logs - this.reportedDrops.logs;
+    const objects = totals.objects - this.reportedDrops.objects;
+    const spans = totals.spans - this.reportedDrops.spans;
+    const total = logs + objects + spans;
+
+    if (total === 0) {
+      return;
+    }
+
+    this.reportedDrops = totals;
+    this.log(
+      "warn",
+      `Lumberjack dropped ${total} items due to queue overflow`,
+      {
+        source: "lumberjack-sdk",
+        droppedLogs: logs,
+        droppedObjects: objects,
+        droppedSpans: spans,
+      },
+      {}
+    );
+  }
+
   public getExporter(): Exporter {
     return this.exporter;
   }
@@ -778,74 +1618,224 @@ export class LumberjackCore extends EventEmitter {
     }
   }
 
+  /** Keep a reference to fire-and-forget sends so flushAll can await them */
+  private trackSend(send: Promise<void>): void {
+    this.pendingSends.add(send);
+    send.finally(() => this.pendingSends.delete(send));
+  }
+
+  /**
+   * Hand everything buffered to the exporter before returning, e.g. to
+   * inspect an in-memory exporter in tests. `beforeSend*` processors may be
+   * async, so this throws when any are configured; await `flushAll()` then.
+   */
+  flushSync(): void {
+    const { beforeSendLog, beforeSendObject, beforeSendSpan } = this.config;
+    if (
+      beforeSendLog.length > 0 ||
+      beforeSendObject.length > 0 ||
+      beforeSendSpan.length > 0
+    ) {
+      throw new Error(
+        "[Lumberjack] flushSync() cannot run beforeSend processors, await flushAll() instead"
+      );
+    }
+
+    const failed = (error: unknown) =>
+      console.error("[Lumberjack]: Error in flushSync:", error);
+    this.tailSampler?.flush();
+    this.trackSend(this.flush().catch(failed));
+    this.flushObjects();
+    this.flushSpans();
+    this.trackSend(this.flushMetrics().catch(failed));
+  }
+
   async flushAll(): Promise<void> {
+    // Decide traces still waiting for their root span so their spans (and
+    // any logs held back for them) go out now
+    this.tailSampler?.flush();
     await this.flush();
-    await this.flushObjects();
-    await this.flushSpans();
+    this.flushObjects();
+    this.flushSpans();
+    await this.flushMetrics();
+    await Promise.all(this.pendingSends);
   }
 
   async flush(): Promise<void> {
-    if (this.logBuffer.length === 0) {
+    if (this.logBuffer.size === 0) {
       if (this.config.debug) {
         console.log("[Lumberjack] Flush called but buffer is empty");
       }
       return;
     }
 
-    const logs = [...this.logBuffer];
-    this.logBuffer = [];
+    const { logs, held } = this.sampleLogs(this.logBuffer.drain());
+
+    if (held.length > 0) {
+      this.logBuffer.requeue(held);
+    }
+
+    if (logs.length === 0) {
+      return;
+    }
 
     if (this.config.debug) {
       console.log(`[Lumberjack] Flushing ${logs.length} log entries`);
     }
 
+    const retry: LogEntry[] = [];
+    this.inFlightLogs.add(logs);
+    try {
+      // Start every group before awaiting so each reaches the exporter
+      // synchronously when there are no processors
+      const groups = [...this.groupByRetryDestinations(logs)];
+      const results = await Promise.all(
+        groups.map(([destinations, group]) =>
+          this.sendLogs(group, destinations)
+        )
+      );
+      retry.push(...results.flat());
+    } finally {
+      this.inFlightLogs.delete(logs);
+    }
+
+    if (retry.length > 0) {
+      // Re-queue logs on failure
+      this.logBuffer.requeue(retry);
+    }
+    this.acknowledgePersisted(logs, [...held, ...retry]);
+  }
+
+  /**
+   * Split logs by the destinations they still need to reach, so logs that
+   * some destinations already accepted are not sent to those again
+   */
+  private groupByRetryDestinations(
+    logs: LogEntry[]
+  ): Map<string[] | undefined, LogEntry[]> {
+    const groups = new Map<string, [string[] | undefined, LogEntry[]]>();
+    for (const log of logs) {
+      const destinations = this.retryDestinations.get(log);
+      const key = destinations?.join("\n") ?? "";
+      const group = groups.get(key) ?? [destinations, []];
+      group[1].push(log);
+      groups.set(key, group);
+    }
+    return new Map(groups.values());
+  }
+
+  /** Export logs and return those that should be retried */
+  private async sendLogs(
+    logs: LogEntry[],
+    destinations: string[] | undefined
+  ): Promise<LogEntry[]> {
+    // Only await when processors are configured so that flushing without
+    // them reaches the exporter synchronously
+    const processedLogs =
+      this.config.beforeSendLog.length > 0
+        ? await runProcessors(
+            logs,
+            this.config.beforeSendLog,
+            this.config.debug
+          )
+        : logs;
+
+    if (processedLogs.length === 0) {
+      return [];
+    }
+
+    const redactor = this.redactor;
+    const outgoingLogs = redactor
+      ? processedLogs.map((log) => redactor.redactLog(log))
+      : processedLogs;
+
     const commitSha = getCommitSha();
 
     // Transform logs to API format with additional metadata
-    const transformedLogs: EnrichedLogEntry[] = logs.map((log) => ({
-      ...log,
-      // Add API-specific fields
-      msg: log.message,
-      lvl: log.level,
-      ts: log.timestamp,
-      fl: log.file,
-      ln: log.line,
-      tb: log.exception?.stack,
-      src: log.source,
-      tid: log.traceId,
-      sid: log.spanId,
-      exv: log.exception?.message,
-      ext: log.exception?.name,
-      fn: log.function,
-      // Metadata
-      project_name: this.config.projectName,
-      sdk_version: "2",
-      commit_sha: commitSha,
-    }));
+    const transformedLogs: EnrichedLogEntry[] = outgoingLogs.map((log) => {
+      const exception = log.exception && exceptionToAPI(log.exception);
+      return {
+        ...log,
+        // Add API-specific fields
+        msg: log.message,
+        lvl: log.level,
+        ts: log.timestamp,
+        fl: log.file,
+        ln: log.line,
+        tb: log.exception?.stack,
+        src: log.source,
+        tid: log.traceId,
+        sid: log.spanId,
+        exv: log.exception?.message,
+        ext: log.exception?.name,
+        exp: exception?.exp,
+        exc: exception?.exc,
+        exa: exception?.exa,
+        fn: log.function,
+        // Metadata
+        project_name: this.config.projectName,
+        sdk_version: "2",
+        commit_sha: commitSha,
+      };
+    });
 
-    const result = await this.exporter.exportLogs(transformedLogs);
+    const startedAt = Date.now();
+    const result = await this.exporter.exportLogs(
+      transformedLogs,
+      destinations ? { destinations } : undefined
+    );
+    this.recordExport("logs", transformedLogs.length, result, startedAt);
 
     if (!result.success) {
       console.error(
         "[Lumberjack]: Failed to send logs:",
         result.error?.message
       );
+
+      // With a fan-out exporter, only retry the destinations that failed
+      // with a retryable error
+      const failedDestinations = result.destinations
+        ? Object.entries(result.destinations)
+            .filter(([, r]) => !r.success && r.retryable !== false)
+            .map(([name]) => name)
+        : undefined;
+
+      // Permanent failures (e.g. an invalid API key) would fail forever
+      if (result.retryable === false || failedDestinations?.length === 0) {
+        if (this.config.debug) {
+          console.log("[Lumberjack] Dropping logs after non-retryable error");
+        }
+        this.stats.recordDropped("logs", logs.length);
+        return [];
+      }
       if (this.config.debug) {
-        console.log("[Lumberjack] Re-queuing logs due to error");
+        console.log(
+          `[Lumberjack] Re-queuing logs due to error after ${
+            result.attempts ?? 1
+          } attempt(s)`
+        );
       }
-      // Re-queue logs on failure
-      this.logBuffer.unshift(...logs);
-    } else if (this.config.debug) {
+      if (failedDestinations) {
+        for (const log of logs) {
+          this.retryDestinations.set(log, failedDestinations);
+        }
+      }
+      return logs;
+    }
+
+    if (this.config.debug) {
       console.log(
         `[Lumberjack] Successfully sent ${result.itemsExported} logs`
       );
     }
+    for (const log of logs) {
+      this.retryDestinations.delete(log);
+    }
+    this.reportDroppedItems();
+    return [];
   }
 
-  getConfig(): Required<Omit<LumberjackConfig, "exporter" | "getHeaders">> & {
-    exporter?: Exporter | undefined;
-    getHeaders?: () => Promise<Record<string, string>>;
-  } {
+  getConfig(): ResolvedConfig {
     return this.config;
   }
 
@@ -868,13 +1858,40 @@ export class LumberjackCore extends EventEmitter {
       this.flushTimer = null;
     }
 
+    if (this.internalMetricsTimer) {
+      clearInterval(this.internalMetricsTimer);
+      this.internalMetricsTimer = null;
+    }
+
+    if (this.metricsTimer) {
+      clearInterval(this.metricsTimer);
+      this.metricsTimer = null;
+    }
+
+    this.runtimeMetrics?.stop();
+    this.runtimeMetrics = null;
+
     this.disableConsoleCapture();
+    this.disableUnhandledCapture();
+    // Release traces still waiting for their root span before the final
+    // flush, so their spans and held logs go out with it
+    this.tailSampler?.shutdown();
     await this.flush();
     this.flushObjects();
+    this.flushSpans();
+    await this.flushMetrics();
+    await Promise.all(this.pendingSends);
+    this.removeRuntimeGauges?.();
+    this.removeRuntimeGauges = null;
+
+    this.persistentQueue?.close();
+    this.persistentQueue = null;
 
     // Clear object cache
     this.objectCache.clear();
 
-    LumberjackCore.instance = null;
+    if (LumberjackCore.instance === this) {
+      LumberjackCore.instance = null;
+    }
   }
 }
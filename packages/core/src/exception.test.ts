@@ -0,0 +1,98 @@
+import { describe, expect, it } from "@jest/globals";
+import { exceptionToAPI, toExceptionInfo } from "./exception.js";
+
+const withCause = (message: string, cause: unknown) =>
+  Object.assign(new Error(message), { cause });
+
+describe("toExceptionInfo", () => {
+  it("should follow cause chains", () => {
+    const root = new TypeError("socket hang up");
+    const error = withCause("request failed", withCause("fetch failed", root));
+
+    const info = toExceptionInfo(error);
+
+    expect(info.message).toBe("request failed");
+    expect(info.cause?.message).toBe("fetch failed");
+    expect(info.cause?.cause).toMatchObject({
+      name: "TypeError",
+      message: "socket hang up",
+    });
+    expect(info.cause?.cause?.stack).toContain("socket hang up");
+  });
+
+  it("should keep custom enumerable properties", () => {
+    const error = Object.assign(new Error("not found"), {
+      code: "E_NOT_FOUND",
+      statusCode: 404,
+    });
+
+    expect(toExceptionInfo(error).properties).toEqual({
+      code: "E_NOT_FOUND",
+      statusCode: 404,
+    });
+  });
+
+  it("should include AggregateError inner errors", () => {
+    const aggregate = new Error("All promises were rejected");
+    aggregate.name = "AggregateError";
+    Object.defineProperty(aggregate, "errors", {
+      value: [new Error("primary down"), withCause("replica down", "timeout")],
+      enumerable: false,
+    });
+
+    const info = toExceptionInfo(aggregate);
+
+    expect(info.errors?.map((e) => e.message)).toEqual([
+      "primary down",
+      "replica down",
+    ]);
+    expect(info.errors?.[1].cause).toEqual({
+      name: "Error",
+      message: "timeout",
+      stack: "",
+    });
+  });
+
+  it("should stop at cyclic causes and limit depth", () => {
+    const a: any = new Error("a");
+    const b: any = new Error("b");
+    a.cause = b;
+    b.cause = a;
+
+    expect(toExceptionInfo(a).cause?.cause).toBeUndefined();
+
+    let deep: unknown = new Error("root");
+    for (let i = 0; i < 20; i++) {
+      deep = withCause(`wrap ${i}`, deep);
+    }
+    let depth = 0;
+    for (let e = toExceptionInfo(deep).cause; e; e = e.cause) depth++;
+
+    expect(depth).toBe(5);
+  });
+
+  it("should describe non-Error values", () => {
+    expect(toExceptionInfo({ status: 500 })).toEqual({
+      name: "Object",
+      message: '{"status":500}',
+      stack: "",
+    });
+  });
+});
+
+describe("exceptionToAPI", () => {
+  it("should flatten the cause chain outermost first", () => {
+    const error = Object.assign(
+      withCause("outer", withCause("middle", new Error("root"))),
+      { code: "E_OUTER" }
+    );
+
+    const api = exceptionToAPI(toExceptionInfo(error));
+
+    expect(api.ext).toBe("Error");
+    expect(api.exv).toBe("outer");
+    expect(api.exp).toEqual({ code: "E_OUTER" });
+    expect(api.exc?.map((c) => c.exv)).toEqual(["middle", "root"]);
+    expect(api.exa).toBeUndefined();
+  });
+});
@@ -0,0 +1,91 @@
+import type { ExceptionForAPI, ExceptionInfo } from "./types.js";
+import { safeStringify, serializeValue } from "./util/serialize.js";
+
+/** Causes and inner errors followed below the top-level error */
+const MAX_EXCEPTION_DEPTH = 5;
+
+const BUILT_IN_KEYS = new Set(["name", "message", "stack", "cause", "errors"]);
+
+/**
+ * Convert a thrown value into `LogEntry.exception`, following `cause`
+ * chains and `AggregateError.errors` and keeping custom enumerable
+ * properties such as `code` or `statusCode`.
+ */
+export function toExceptionInfo(error: unknown): ExceptionInfo {
+  return convert(error, 0, new Set());
+}
+
+function convert(
+  error: unknown,
+  depth: number,
+  seen: Set<unknown>
+): ExceptionInfo {
+  if (!(error instanceof Error)) {
+    // `throw "boom"` or `{ cause: { status: 500 } }`
+    return {
+      name: typeof error === "object" && error !== null ? "Object" : "Error",
+      message: typeof error === "string" ? error : safeStringify(error),
+      stack: "",
+    };
+  }
+
+  seen.add(error);
+  const info: ExceptionInfo = {
+    name: error.name || error.constructor?.name || "Error",
+    message: error.message,
+    stack: error.stack || "",
+  };
+
+  const properties: Record<string, any> = {};
+  for (const key of Object.keys(error)) {
+    if (!BUILT_IN_KEYS.has(key)) {
+      properties[key] = serializeValue((error as any)[key], { maxDepth: 5 });
+    }
+  }
+  if (Object.keys(properties).length > 0) {
+    info.properties = properties;
+  }
+
+  if (depth >= MAX_EXCEPTION_DEPTH) {
+    return info;
+  }
+
+  const cause = (error as { cause?: unknown }).cause;
+  if (cause !== undefined && !seen.has(cause)) {
+    info.cause = convert(cause, depth + 1, seen);
+  }
+
+  // AggregateError keeps its errors in a non-enumerable property
+  const errors = (error as { errors?: unknown }).errors;
+  if (Array.isArray(errors)) {
+    info.errors = errors
+      .filter((inner) => !seen.has(inner))
+      .map((inner) => convert(inner, depth + 1, seen));
+  }
+
+  return info;
+}
+
+/**
+ * API representation of an exception. The cause chain is flattened into
+ * `exc` (outermost first) so the backend can render it without recursion.
+ */
+export function exceptionToAPI(info: ExceptionInfo): ExceptionForAPI {
+  const causes: ExceptionInfo[] = [];
+  for (let cause = info.cause; cause; cause = cause.cause) {
+    causes.push(cause);
+  }
+
+  const toFields = (e: ExceptionInfo): ExceptionForAPI => ({
+    ext: e.name,
+    exv: e.message,
+    tb: e.stack || undefined,
+    exp: e.properties,
+    exa: e.errors?.map(exceptionToAPI),
+  });
+
+  return {
+    ...toFields(info),
+    exc: causes.length > 0 ? causes.map(toFields) : undefined,
+  };
+}
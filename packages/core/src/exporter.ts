@@ -1,11 +1,34 @@
+import type { MetricData } from "./metrics.js";
 import type { RegisteredObject } from "./object-batch.js";
+import type { RetryOptions } from "./retry.js";
 import type { EnrichedSpanRequest } from "./span-types.js";
-import type { LogEntry } from "./types.js";
+import type { SdkStats } from "./stats.js";
+import type { ExceptionForAPI, LogEntry } from "./types.js";
 
 export interface ExportResult {
   success: boolean;
   error?: Error;
   itemsExported?: number;
+  /** Number of delivery attempts made, including retries */
+  attempts?: number;
+  /**
+   * Whether a failed export may succeed if tried again later. `false` for
+   * permanent failures such as auth errors; undefined is treated as retryable.
+   */
+  retryable?: boolean;
+  /**
+   * Results of each destination of a fan-out exporter, by destination name.
+   * Only destinations the batch was routed to are included.
+   */
+  destinations?: Record<string, ExportResult>;
+}
+
+export interface ExportOptions {
+  /**
+   * For fan-out exporters: only send to these destinations, e.g. when
+   * retrying a batch that the others already accepted
+   */
+  destinations?: string[];
 }
 
 export interface ExporterConfig {
@@ -14,6 +37,7 @@ export interface ExporterConfig {
   projectName?: string;
   headers?: Record<string, string>;
   debug?: boolean;
+  retry?: RetryOptions;
 }
 
 export interface EnrichedLogEntry extends LogEntry {
@@ -28,6 +52,9 @@ export interface EnrichedLogEntry extends LogEntry {
   sid?: string | undefined;
   exv?: string | undefined;
   ext?: string | undefined;
+  exp?: ExceptionForAPI["exp"];
+  exc?: ExceptionForAPI["exc"];
+  exa?: ExceptionForAPI["exa"];
   fn?: string | undefined;
   project_name: string;
   sdk_version: string;
@@ -40,12 +67,37 @@ export interface EnrichedRegisteredObject extends RegisteredObject {
   commit_sha?: string | undefined;
 }
 
+/** The SDK's own health counters, sent when `sendInternalMetrics` is on */
+export interface InternalMetricsPayload {
+  stats: SdkStats;
+  timestamp: number;
+  project_name: string;
+  sdk_version: string;
+  commit_sha?: string | undefined;
+}
+
+/** Aggregated application metrics for one export interval */
+export interface EnrichedMetricsRequest {
+  metrics: MetricData[];
+  timestamp: number;
+  project_name: string;
+  sdk_version: string;
+  commit_sha?: string | undefined;
+}
+
 // Export the EnrichedSpanRequest type from span-types
 export type { EnrichedSpanRequest } from "./span-types.js";
 
 export interface Exporter {
-  exportLogs(logs: EnrichedLogEntry[]): Promise<ExportResult>;
+  exportLogs(
+    logs: EnrichedLogEntry[],
+    options?: ExportOptions
+  ): Promise<ExportResult>;
   exportObjects(objects: EnrichedRegisteredObject[]): Promise<ExportResult>;
   exportSpans(spans: EnrichedSpanRequest): Promise<ExportResult>;
+  exportInternalMetrics?(
+    payload: InternalMetricsPayload
+  ): Promise<ExportResult>;
+  exportMetrics?(request: EnrichedMetricsRequest): Promise<ExportResult>;
   shutdown?(): Promise<void>;
 }
@@ -0,0 +1,233 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+import {
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { gunzipSync } from "zlib";
+import type { EnrichedLogEntry, EnrichedSpanRequest } from "./exporter.js";
+import { FileExporter, FileExporterConfig } from "./file-exporter.js";
+
+function makeLog(message: string): EnrichedLogEntry {
+  return {
+    message,
+    level: "info",
+    timestamp: 1700000000000,
+    msg: message,
+    lvl: "info",
+    ts: 1700000000000,
+    project_name: "test-project",
+    sdk_version: "2",
+  } as EnrichedLogEntry;
+}
+
+const spanRequest: EnrichedSpanRequest = {
+  resourceSpans: [
+    {
+      scopeSpans: [
+        {
+          spans: [
+            {
+              traceId: "a".repeat(32),
+              spanId: "b".repeat(16),
+              name: "GET /",
+              kind: 2,
+              startTimeUnixNano: "1000",
+              endTimeUnixNano: "2000",
+            },
+            {
+              traceId: "a".repeat(32),
+              spanId: "c".repeat(16),
+              name: "db.query",
+              kind: 3,
+              startTimeUnixNano: "1200",
+              endTimeUnixNano: "1800",
+            },
+          ],
+        },
+      ],
+    },
+  ],
+  project_name: "test-project",
+  sdk_version: "2",
+};
+
+describe("FileExporter", () => {
+  let directory: string;
+  let exporter: FileExporter;
+
+  const setup = (config: Partial<FileExporterConfig> = {}) => {
+    exporter = new FileExporter({ directory, ...config });
+    return exporter;
+  };
+
+  const readLines = (file: string) =>
+    readFileSync(join(directory, file), "utf8")
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line));
+
+  const rotatedFiles = (signal: string) =>
+    readdirSync(directory)
+      .filter((name) => name.startsWith(`${signal}-`))
+      .sort();
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "lumberjack-files-"));
+  });
+
+  afterEach(async () => {
+    await exporter?.shutdown();
+    jest.restoreAllMocks();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should write each signal as NDJSON", async () => {
+    setup();
+
+    const logs = await exporter.exportLogs([makeLog("one"), makeLog("two")]);
+    const spans = await exporter.exportSpans(spanRequest);
+    await exporter.exportObjects([
+      { id: "u1", name: "user", fields: { plan: "pro" } } as any,
+    ]);
+
+    expect(logs).toEqual({ success: true, itemsExported: 2 });
+    expect(spans).toEqual({ success: true, itemsExported: 2 });
+    expect(readLines("logs.ndjson").map((log) => log.message)).toEqual([
+      "one",
+      "two",
+    ]);
+    expect(readLines("spans.ndjson")).toEqual([spanRequest]);
+    expect(readLines("objects.ndjson")[0]).toMatchObject({ id: "u1" });
+  });
+
+  it("should append to a file left by a previous process", async () => {
+    writeFileSync(
+      join(directory, "logs.ndjson"),
+      `${JSON.stringify(makeLog("old"))}\n`
+    );
+    setup();
+
+    await exporter.exportLogs([makeLog("new")]);
+
+    expect(readLines("logs.ndjson").map((log) => log.message)).toEqual([
+      "old",
+      "new",
+    ]);
+  });
+
+  it("should rotate when the file would exceed the size limit", async () => {
+    setup({ maxFileSizeBytes: 300 });
+
+    for (let i = 0; i < 5; i++) {
+      await exporter.exportLogs([makeLog(`entry ${i}`)]);
+    }
+
+    const rotated = rotatedFiles("logs");
+    expect(rotated.length).toBeGreaterThan(0);
+    const all = [...rotated, "logs.ndjson"].flatMap((file) =>
+      readLines(file).map((log) => log.message)
+    );
+    expect(all).toEqual([
+      "entry 0",
+      "entry 1",
+      "entry 2",
+      "entry 3",
+      "entry 4",
+    ]);
+  });
+
+  it("should rotate when the file is older than the interval", async () => {
+    setup({ rotateIntervalMs: 60000 });
+    const now = Date.now();
+    const clock = jest.spyOn(Date, "now").mockReturnValue(now);
+
+    await exporter.exportLogs([makeLog("first hour")]);
+    clock.mockReturnValue(now + 60000);
+    await exporter.exportLogs([makeLog("second hour")]);
+
+    const [rotated] = rotatedFiles("logs");
+    expect(readLines(rotated)[0].message).toBe("first hour");
+    expect(readLines("logs.ndjson")[0].message).toBe("second hour");
+  });
+
+  it("should gzip rotated files", async () => {
+    setup({ compress: true });
+
+    await exporter.exportLogs([makeLog("archived")]);
+    exporter.rotate();
+    await exporter.shutdown();
+
+    const [rotated] = rotatedFiles("logs");
+    expect(rotated).toMatch(/^logs-.*\.ndjson\.gz$/);
+    const content = gunzipSync(readFileSync(join(directory, rotated)));
+    expect(JSON.parse(content.toString()).message).toBe("archived");
+  });
+
+  it("should keep at most maxFiles rotated files", async () => {
+    setup({ maxFiles: 2 });
+
+    for (let i = 0; i < 4; i++) {
+      await exporter.exportLogs([makeLog(`batch ${i}`)]);
+      exporter.rotate();
+    }
+
+    const rotated = rotatedFiles("logs");
+    expect(rotated).toHaveLength(2);
+    expect(
+      rotated.flatMap((file) => readLines(file).map((log) => log.message))
+    ).toEqual(["batch 2", "batch 3"]);
+  });
+
+  it("should log retention failures after compression", async () => {
+    setup({ compress: true, maxFiles: 1 });
+    const errorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    await exporter.exportLogs([makeLog("archived")]);
+    exporter.rotate();
+    rmSync(directory, { recursive: true, force: true });
+
+    await expect(exporter.shutdown()).resolves.toBeUndefined();
+    expect(errorSpy).toHaveBeenCalledWith(
+      "[Lumberjack]: Failed to apply retention to logs files:",
+      expect.objectContaining({ code: "ENOENT" })
+    );
+  });
+
+  it("should delete rotated files older than maxAgeMs", async () => {
+    setup({ maxAgeMs: 60000 });
+    const stale = join(directory, "logs-2020-01-01T00-00-00-000Z.ndjson");
+    writeFileSync(stale, "{}\n");
+    const past = new Date(Date.now() - 120000);
+    utimesSync(stale, past, past);
+
+    await exporter.exportLogs([makeLog("fresh")]);
+    exporter.rotate();
+
+    expect(existsSync(stale)).toBe(false);
+    expect(rotatedFiles("logs")).toHaveLength(1);
+  });
+
+  it("should report write failures", async () => {
+    setup();
+    rmSync(directory, { recursive: true, force: true });
+
+    const result = await exporter.exportLogs([makeLog("lost")]);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain("ENOENT");
+  });
+});
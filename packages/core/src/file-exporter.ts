@@ -0,0 +1,376 @@
+import {
+  closeSync,
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeSync,
+} from "fs";
+import { join } from "path";
+import { pipeline } from "stream/promises";
+import { createGzip } from "zlib";
+import type {
+  EnrichedLogEntry,
+  EnrichedMetricsRequest,
+  EnrichedRegisteredObject,
+  EnrichedSpanRequest,
+  Exporter,
+  ExportResult,
+} from "./exporter.js";
+import { safeStringify } from "./util/serialize.js";
+
+export type FileSignal = "logs" | "objects" | "spans" | "metrics";
+
+/**
+ * When written data is forced to disk with fsync:
+ * - `none`: left to the operating system
+ * - `rotate`: when a file is rotated or the exporter shuts down
+ * - `batch`: after every export, before it resolves
+ */
+export type FileDurability = "none" | "rotate" | "batch";
+
+export interface FileExporterConfig {
+  /** Directory for the `<signal>.ndjson` files and their rotations */
+  directory: string;
+  /**
+   * Size at which the current file is rotated
+   * @default 10485760 (10 MB)
+   */
+  maxFileSizeBytes?: number;
+  /**
+   * Age at which the current file is rotated, checked on each write.
+   * 0 disables time-based rotation.
+   * @default 3600000 (1 hour)
+   */
+  rotateIntervalMs?: number;
+  /**
+   * gzip rotated files
+   * @default false
+   */
+  compress?: boolean;
+  /** Rotated files to keep per signal; the oldest are deleted first */
+  maxFiles?: number;
+  /** Delete rotated files older than this many milliseconds */
+  maxAgeMs?: number;
+  /** @default "rotate" */
+  durability?: FileDurability;
+}
+
+const FILE_EXTENSION = ".ndjson";
+
+/** The file currently written for one signal */
+class NdjsonFile {
+  private fd: number | null = null;
+  private size = 0;
+  private openedAt = 0;
+  private lastRotatedAt = 0;
+
+  constructor(readonly signal: FileSignal, readonly path: string) {}
+
+  /** Append lines, first rotating the file if it is full or too old */
+  write(
+    lines: string[],
+    limits: { maxSizeBytes: number; rotateIntervalMs: number },
+    onRotate: () => void
+  ): void {
+    const data = lines.map((line) => `${line}\n`).join("");
+    const bytes = Buffer.byteLength(data);
+
+    this.open();
+    const full = this.size > 0 && this.size + bytes > limits.maxSizeBytes;
+    const expired =
+      limits.rotateIntervalMs > 0 &&
+      this.size > 0 &&
+      Date.now() - this.openedAt >= limits.rotateIntervalMs;
+    if (full || expired) {
+      onRotate();
+      this.open();
+    }
+
+    writeSync(this.fd!, data);
+    this.size += bytes;
+  }
+
+  /** Close the current file and move it aside; returns the new path */
+  rotate(sync: boolean): string | null {
+    if (this.fd === null && !existsSync(this.path)) {
+      return null;
+    }
+    this.close(sync);
+
+    // Timestamps only move forward so rotated names sort chronologically
+    const base = this.path.slice(0, -FILE_EXTENSION.length);
+    const targetAt = (time: number) =>
+      `${base}-${new Date(time)
+        .toISOString()
+        .replace(/[:.]/g, "-")}${FILE_EXTENSION}`;
+    let time = Math.max(Date.now(), this.lastRotatedAt + 1);
+    while (existsSync(targetAt(time))) {
+      time++;
+    }
+    this.lastRotatedAt = time;
+
+    const target = targetAt(time);
+    renameSync(this.path, target);
+    return target;
+  }
+
+  sync(): void {
+    if (this.fd !== null) {
+      fsyncSync(this.fd);
+    }
+  }
+
+  close(sync: boolean): void {
+    if (this.fd !== null) {
+      if (sync) {
+        fsyncSync(this.fd);
+      }
+      closeSync(this.fd);
+      this.fd = null;
+    }
+  }
+
+  private open(): void {
+    if (this.fd !== null) {
+      return;
+    }
+
+    // Pick up a file left by a previous process where it stopped
+    const existing = existsSync(this.path) ? statSync(this.path) : null;
+    this.fd = openSync(this.path, "a");
+    this.size = existing?.size ?? 0;
+    this.openedAt = existing
+      ? existing.birthtimeMs || existing.mtimeMs
+      : Date.now();
+  }
+}
+
+/**
+ * Exporter that writes each signal as newline-delimited JSON to local files
+ * (`logs.ndjson`, `objects.ndjson`, `spans.ndjson`, `metrics.ndjson`) for
+ * an external agent to ship. Logs and objects are written one per line;
+ * spans and metrics one export request per line. Rotated files are renamed
+ * to `<signal>-<timestamp>.ndjson`, optionally gzipped, and pruned by count
+ * and age.
+ */
+export class FileExporter implements Exporter {
+  private readonly directory: string;
+  private readonly maxFileSizeBytes: number;
+  private readonly rotateIntervalMs: number;
+  private readonly compress: boolean;
+  private readonly maxFiles: number | undefined;
+  private readonly maxAgeMs: number | undefined;
+  private readonly durability: FileDurability;
+
+  private files: Map<FileSignal, NdjsonFile> = new Map();
+  private compressing: Map<string, Promise<void>> = new Map();
+
+  constructor(config: FileExporterConfig) {
+    this.directory = config.directory;
+    this.maxFileSizeBytes = config.maxFileSizeBytes ?? 10 * 1024 * 1024;
+    this.rotateIntervalMs = config.rotateIntervalMs ?? 60 * 60 * 1000;
+    this.compress = config.compress ?? false;
+    this.maxFiles = config.maxFiles;
+    this.maxAgeMs = config.maxAgeMs;
+    this.durability = config.durability ?? "rotate";
+
+    mkdirSync(this.directory, { recursive: true });
+  }
+
+  async exportLogs(logs: EnrichedLogEntry[]): Promise<ExportResult> {
+    return this.write(
+      "logs",
+      logs.map((log) => safeStringify(log))
+    );
+  }
+
+  async exportObjects(
+    objects: EnrichedRegisteredObject[]
+  ): Promise<ExportResult> {
+    return this.write(
+      "objects",
+      objects.map((object) => safeStringify(object))
+    );
+  }
+
+  async exportSpans(spanRequest: EnrichedSpanRequest): Promise<ExportResult> {
+    const totalSpans = spanRequest.resourceSpans.reduce(
+      (total, rs) =>
+        total +
+        (rs.scopeSpans?.reduce(
+          (scopeTotal, ss) => scopeTotal + (ss.spans?.length || 0),
+          0
+        ) || 0),
+      0
+    );
+    if (totalSpans === 0) {
+      return { success: true, itemsExported: 0 };
+    }
+
+    const result = this.write("spans", [safeStringify(spanRequest)]);
+    return result.success ? { ...result, itemsExported: totalSpans } : result;
+  }
+
+  async exportMetrics(request: EnrichedMetricsRequest): Promise<ExportResult> {
+    const pointCount = request.metrics.reduce(
+      (total, metric) => total + metric.points.length,
+      0
+    );
+    if (pointCount === 0) {
+      return { success: true, itemsExported: 0 };
+    }
+
+    const result = this.write("metrics", [safeStringify(request)]);
+    return result.success ? { ...result, itemsExported: pointCount } : result;
+  }
+
+  /** Rotate every signal's current file now */
+  rotate(): void {
+    for (const file of this.files.values()) {
+      this.rotateFile(file);
+    }
+  }
+
+  /** Close the current files and wait for pending compression */
+  async shutdown(): Promise<void> {
+    for (const file of this.files.values()) {
+      file.close(this.durability !== "none");
+    }
+    this.files.clear();
+    await Promise.all(this.compressing.values());
+  }
+
+  private write(signal: FileSignal, lines: string[]): ExportResult {
+    if (lines.length === 0) {
+      return { success: true, itemsExported: 0 };
+    }
+
+    try {
+      const file = this.getFile(signal);
+      file.write(
+        lines,
+        {
+          maxSizeBytes: this.maxFileSizeBytes,
+          rotateIntervalMs: this.rotateIntervalMs,
+        },
+        () => this.rotateFile(file)
+      );
+      if (this.durability === "batch") {
+        file.sync();
+      }
+      return { success: true, itemsExported: lines.length };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+        itemsExported: 0,
+      };
+    }
+  }
+
+  private getFile(signal: FileSignal): NdjsonFile {
+    let file = this.files.get(signal);
+    if (!file) {
+      file = new NdjsonFile(
+        signal,
+        join(this.directory, `${signal}${FILE_EXTENSION}`)
+      );
+      this.files.set(signal, file);
+    }
+    return file;
+  }
+
+  private rotateFile(file: NdjsonFile): void {
+    const rotated = file.rotate(this.durability !== "none");
+    if (!rotated) {
+      return;
+    }
+
+    if (this.compress) {
+      const done = this.compressFile(rotated)
+        .catch((error) => {
+          console.error(
+            `[Lumberjack]: Failed to compress rotated file ${rotated}:`,
+            error
+          );
+        })
+        .finally(() => {
+          this.compressing.delete(rotated);
+          this.enforceRetention(file.signal);
+        });
+      this.compressing.set(rotated, done);
+    } else {
+      this.enforceRetention(file.signal);
+    }
+  }
+
+  private async compressFile(path: string): Promise<void> {
+    await pipeline(
+      createReadStream(path),
+      createGzip(),
+      createWriteStream(`${path}.gz`)
+    );
+    unlinkSync(path);
+  }
+
+  /**
+   * Delete rotated files beyond `maxFiles` or older than `maxAgeMs`. Runs
+   * after background compression too, so failures are logged, not thrown.
+   */
+  private enforceRetention(signal: FileSignal): void {
+    if (this.maxFiles === undefined && this.maxAgeMs === undefined) {
+      return;
+    }
+
+    try {
+      this.deleteExpiredFiles(signal);
+    } catch (error) {
+      console.error(
+        `[Lumberjack]: Failed to apply retention to ${signal} files:`,
+        error
+      );
+    }
+  }
+
+  private deleteExpiredFiles(signal: FileSignal): void {
+    const prefix = `${signal}-`;
+    const rotated = readdirSync(this.directory)
+      .filter(
+        (name) =>
+          name.startsWith(prefix) &&
+          (name.endsWith(FILE_EXTENSION) ||
+            name.endsWith(`${FILE_EXTENSION}.gz`))
+      )
+      .map((name) => join(this.directory, name))
+      // Files still being compressed are counted once, by their .gz
+      .filter((path) => !this.compressing.has(path))
+      .flatMap((path) => {
+        try {
+          return [{ path, mtime: statSync(path).mtimeMs }];
+        } catch {
+          return []; // Deleted since the listing
+        }
+      })
+      .sort((a, b) => b.mtime - a.mtime || b.path.localeCompare(a.path));
+
+    const now = Date.now();
+    rotated.forEach(({ path, mtime }, index) => {
+      const tooMany = this.maxFiles !== undefined && index >= this.maxFiles;
+      const tooOld = this.maxAgeMs !== undefined && now - mtime > this.maxAgeMs;
+      if ((tooMany || tooOld) && !this.compressing.has(path.slice(0, -3))) {
+        try {
+          unlinkSync(path);
+        } catch {
+          // Already gone
+        }
+      }
+    });
+  }
+}
@@ -1,5 +1,11 @@
 import type { EnrichedLogEntry, EnrichedRegisteredObject } from "./exporter.js";
 import { HttpExporter } from "./http-exporter.js";
+import {
+  computeBackoff,
+  parseRetryAfter,
+  resolveRetryOptions,
+} from "./retry.js";
+import { StatsCollector } from "./stats.js";
 
 // Mock fetch globally
 const mockFetch = jest.fn();
@@ -13,6 +19,8 @@ describe("HttpExporter", () => {
       apiKey: "test-api-key",
       endpoint: "https://api.example.com/logs/batch",
       projectName: "test-project",
+      // Retries are covered in their own describe block
+      retry: { maxAttempts: 1 },
     });
     mockFetch.mockClear();
   });
@@ -346,4 +354,238 @@ describe("HttpExporter", () => {
       expect(result.itemsExported).toBe(0);
     });
   });
+
+  describe("exportInternalMetrics", () => {
+    it("should post the stats payload to the sdk metrics endpoint", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+      });
+
+      const stats = new StatsCollector().snapshot({
+        logs: 0,
+        objects: 0,
+        spans: 0,
+      });
+      const result = await exporter.exportInternalMetrics({
+        stats,
+        timestamp: 1,
+        project_name: "test-project",
+        sdk_version: "2",
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.example.com/sdk/metrics",
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify({
+            stats,
+            timestamp: 1,
+            project_name: "test-project",
+            sdk_version: "2",
+          }),
+        })
+      );
+    });
+  });
+
+  describe("exportMetrics", () => {
+    const request = {
+      metrics: [
+        {
+          name: "orders",
+          kind: "counter" as const,
+          temporality: "delta" as const,
+          startTime: 0,
+          endTime: 1,
+          points: [{ attributes: { region: "eu" }, value: 3 }],
+        },
+      ],
+      timestamp: 1,
+      project_name: "test-project",
+      sdk_version: "2",
+    };
+
+    it("should post metrics to the metrics endpoint", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: "OK",
+      });
+
+      const result = await exporter.exportMetrics(request);
+
+      expect(result).toMatchObject({ success: true, itemsExported: 1 });
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://api.example.com/metrics/batch",
+        expect.objectContaining({
+          method: "POST",
+          body: JSON.stringify(request),
+        })
+      );
+    });
+
+    it("should skip metrics without an API key", async () => {
+      const noKeyExporter = new HttpExporter({
+        endpoint: "https://api.example.com/logs/batch",
+      });
+
+      const result = await noKeyExporter.exportMetrics(request);
+
+      expect(result.success).toBe(true);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("retries", () => {
+    const log: EnrichedLogEntry = {
+      message: "Test log",
+      level: "info",
+      timestamp: Date.now(),
+      msg: "Test log",
+      lvl: "info",
+      ts: Date.now(),
+      project_name: "test-project",
+      sdk_version: "2",
+    };
+
+    const failure = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      statusText: "Error",
+      text: async () => "error",
+      headers: { get: (name: string) => headers[name.toLowerCase()] ?? null },
+    });
+    const success = { ok: true, status: 200, statusText: "OK" };
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+      exporter = new HttpExporter({
+        apiKey: "test-api-key",
+        endpoint: "https://api.example.com/logs/batch",
+        projectName: "test-project",
+        retry: { maxAttempts: 3, initialDelayMs: 1, maxDelayMs: 20 },
+      });
+    });
+
+    it("should retry server errors and report attempts", async () => {
+      mockFetch
+        .mockResolvedValueOnce(failure(500))
+        .mockRejectedValueOnce(new Error("Network error"))
+        .mockResolvedValueOnce(success);
+
+      const result = await exporter.exportLogs([log]);
+
+      expect(result.success).toBe(true);
+      expect(result.attempts).toBe(3);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it("should give up after maxAttempts", async () => {
+      mockFetch.mockResolvedValue(failure(502));
+
+      const result = await exporter.exportLogs([log]);
+
+      expect(result.success).toBe(false);
+      expect(result.attempts).toBe(3);
+      expect(result.retryable).toBe(true);
+    });
+
+    it("should not retry auth errors", async () => {
+      mockFetch.mockResolvedValue(failure(401));
+
+      const result = await exporter.exportLogs([log]);
+
+      expect(result.success).toBe(false);
+      expect(result.attempts).toBe(1);
+      expect(result.retryable).toBe(false);
+    });
+
+    it("should respect Retry-After on 429", async () => {
+      mockFetch
+        .mockResolvedValueOnce(failure(429, { "retry-after": "0.01" }))
+        .mockResolvedValueOnce(success);
+
+      const start = Date.now();
+      const result = await exporter.exportLogs([log]);
+
+      expect(result.success).toBe(true);
+      expect(result.attempts).toBe(2);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(9);
+    });
+
+    it("should retry objects and spans the same way", async () => {
+      mockFetch
+        .mockResolvedValueOnce(failure(503))
+        .mockResolvedValueOnce(success)
+        .mockResolvedValueOnce(failure(503))
+        .mockResolvedValueOnce(success);
+
+      const objects = await exporter.exportObjects([
+        {
+          name: "user",
+          id: "1",
+          fields: {},
+          project_name: "test-project",
+          sdk_version: "2",
+        },
+      ]);
+      const spans = await exporter.exportSpans({
+        resourceSpans: [
+          {
+            scopeSpans: [
+              {
+                spans: [
+                  {
+                    traceId: "a".repeat(32),
+                    spanId: "b".repeat(16),
+                    name: "span",
+                    startTimeUnixNano: "0",
+                    endTimeUnixNano: "1",
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+        project_name: "test-project",
+        sdk_version: "2",
+      });
+
+      expect(objects.attempts).toBe(2);
+      expect(spans.attempts).toBe(2);
+      expect(spans.itemsExported).toBe(1);
+    });
+  });
+
+  describe("retry helpers", () => {
+    it("should grow the delay exponentially within the jitter bounds", () => {
+      const options = resolveRetryOptions({
+        initialDelayMs: 100,
+        jitter: 0.5,
+      });
+
+      expect(computeBackoff(1, options, () => 0.5)).toBe(100);
+      expect(computeBackoff(3, options, () => 0.5)).toBe(400);
+      expect(computeBackoff(3, options, () => 0)).toBe(200);
+      expect(computeBackoff(3, options, () => 1)).toBe(600);
+    });
+
+    it("should cap the delay at maxDelayMs", () => {
+      const options = resolveRetryOptions({ maxDelayMs: 1000 });
+
+      expect(computeBackoff(20, options, () => 1)).toBe(1000);
+    });
+
+    it("should parse Retry-After seconds and dates", () => {
+      const now = Date.parse("2025-01-01T00:00:00Z");
+
+      expect(parseRetryAfter("2", now)).toBe(2000);
+      expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:05 GMT", now)).toBe(5000);
+      expect(parseRetryAfter("soon", now)).toBeUndefined();
+      expect(parseRetryAfter(null, now)).toBeUndefined();
+    });
+  });
 });
@@ -1,11 +1,21 @@
 import type {
   EnrichedLogEntry,
+  EnrichedMetricsRequest,
   EnrichedRegisteredObject,
   EnrichedSpanRequest,
   Exporter,
   ExporterConfig,
   ExportResult,
+  InternalMetricsPayload,
 } from "./exporter.js";
+import {
+  computeBackoff,
+  isRetryableStatus,
+  parseRetryAfter,
+  resolveRetryOptions,
+  RetryOptions,
+  sleep,
+} from "./retry.js";
 import type { LogEntryForAPI } from "./types.js";
 
 export class HttpExporter implements Exporter {
@@ -13,9 +23,13 @@ export class HttpExporter implements Exporter {
   private readonly logsEndpoint: string;
   private readonly objectsEndpoint: string;
   private readonly spansEndpoint: string;
+  private readonly internalMetricsEndpoint: string;
+  private readonly metricsEndpoint: string;
+  private readonly retry: Required<RetryOptions>;
 
   constructor(config: ExporterConfig) {
     this.config = config;
+    this.retry = resolveRetryOptions(config.retry);
     const baseEndpoint =
       config.endpoint || "https://api.trylumberjack.com/logs/batch";
     this.logsEndpoint = baseEndpoint;
@@ -24,6 +38,14 @@ export class HttpExporter implements Exporter {
       "/objects/register"
     );
     this.spansEndpoint = baseEndpoint.replace("/logs/batch", "/spans/batch");
+    this.internalMetricsEndpoint = baseEndpoint.replace(
+      "/logs/batch",
+      "/sdk/metrics"
+    );
+    this.metricsEndpoint = baseEndpoint.replace(
+      "/logs/batch",
+      "/metrics/batch"
+    );
   }
 
   async exportLogs(logs: EnrichedLogEntry[]): Promise<ExportResult> {
@@ -61,32 +83,23 @@ export class HttpExporter implements Exporter {
         sid: log.sid,
         exv: log.exv,
         ext: log.ext,
+        exp: log.exp,
+        exc: log.exc,
+        exa: log.exa,
         fn: log.fn,
       }));
 
-      const response = await fetch(this.logsEndpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${this.config.apiKey}`,
-          ...this.config.headers,
-        },
-        body: JSON.stringify({
+      return await this.postWithRetry(
+        this.logsEndpoint,
+        {
           logs: apiLogs,
           project_name,
           sdk_version,
           commit_sha,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `Failed to send logs: ${response.status} ${response.statusText} - ${errorText}`
-        );
-      }
-
-      return { success: true, itemsExported: logs.length };
+        },
+        "logs",
+        logs.length
+      );
     } catch (error) {
       return {
         success: false,
@@ -130,29 +143,17 @@ export class HttpExporter implements Exporter {
         return cleanObj;
       });
 
-      const response = await fetch(this.objectsEndpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${this.config.apiKey}`,
-          ...this.config.headers,
-        },
-        body: JSON.stringify({
+      return await this.postWithRetry(
+        this.objectsEndpoint,
+        {
           objects: cleanObjects,
           project_name,
           sdk_version,
           commit_sha,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `Failed to send objects: ${response.status} ${response.statusText} - ${errorText}`
-        );
-      }
-
-      return { success: true, itemsExported: objects.length };
+        },
+        "objects",
+        objects.length
+      );
     } catch (error) {
       return {
         success: false,
@@ -192,28 +193,6 @@ export class HttpExporter implements Exporter {
         ...cleanSpanRequest
       } = spanRequest;
 
-      const response = await fetch(this.spansEndpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${this.config.apiKey}`,
-          ...this.config.headers,
-        },
-        body: JSON.stringify({
-          ...cleanSpanRequest,
-          project_name,
-          sdk_version,
-          commit_sha,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(
-          `Failed to send spans: ${response.status} ${response.statusText} - ${errorText}`
-        );
-      }
-
       // Count total spans exported
       const totalSpans = spanRequest.resourceSpans.reduce(
         (total, rs) =>
@@ -225,7 +204,82 @@ export class HttpExporter implements Exporter {
         0
       );
 
-      return { success: true, itemsExported: totalSpans };
+      return await this.postWithRetry(
+        this.spansEndpoint,
+        {
+          ...cleanSpanRequest,
+          project_name,
+          sdk_version,
+          commit_sha,
+        },
+        "spans",
+        totalSpans
+      );
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+        itemsExported: 0,
+      };
+    }
+  }
+
+  async exportInternalMetrics(
+    payload: InternalMetricsPayload
+  ): Promise<ExportResult> {
+    if (!this.config.apiKey) {
+      // Internal metrics are only useful to the Lumberjack backend
+      return { success: true, itemsExported: 0 };
+    }
+
+    try {
+      return await this.postWithRetry(
+        this.internalMetricsEndpoint,
+        {
+          ...payload,
+          project_name: payload.project_name || this.config.projectName,
+        },
+        "internal metrics",
+        1
+      );
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+        itemsExported: 0,
+      };
+    }
+  }
+
+  async exportMetrics(request: EnrichedMetricsRequest): Promise<ExportResult> {
+    const pointCount = request.metrics.reduce(
+      (total, metric) => total + metric.points.length,
+      0
+    );
+
+    if (pointCount === 0) {
+      return { success: true, itemsExported: 0 };
+    }
+
+    if (!this.config.apiKey) {
+      if (this.config.debug) {
+        console.debug(
+          "[Lumberjack] No API key provided - skipping metrics export"
+        );
+      }
+      return { success: true, itemsExported: 0 };
+    }
+
+    try {
+      return await this.postWithRetry(
+        this.metricsEndpoint,
+        {
+          ...request,
+          project_name: request.project_name || this.config.projectName,
+        },
+        "metrics",
+        pointCount
+      );
     } catch (error) {
       return {
         success: false,
@@ -234,4 +288,80 @@ export class HttpExporter implements Exporter {
       };
     }
   }
+
+  /**
+   * POST a JSON payload, retrying network errors and retryable status codes
+   * with exponential backoff. Retry-After is honoured on 429 and 503.
+   */
+  private async postWithRetry(
+    url: string,
+    payload: unknown,
+    label: string,
+    itemCount: number
+  ): Promise<ExportResult> {
+    const body = JSON.stringify(payload);
+    let attempts = 0;
+
+    for (;;) {
+      attempts++;
+      let error: Error;
+      let retryable = true;
+      let retryAfterMs: number | undefined;
+
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${this.config.apiKey}`,
+            ...this.config.headers,
+          },
+          body,
+        });
+
+        if (response.ok) {
+          return { success: true, itemsExported: itemCount, attempts };
+        }
+
+        const errorText = await response.text();
+        error = new Error(
+          `Failed to send ${label}: ${response.status} ${response.statusText} - ${errorText}`
+        );
+        retryable = isRetryableStatus(response.status);
+        if (response.status === 429 || response.status === 503) {
+          retryAfterMs = parseRetryAfter(response.headers?.get("retry-after"));
+        }
+      } catch (fetchError) {
+        error =
+          fetchError instanceof Error
+            ? fetchError
+            : new Error(String(fetchError));
+      }
+
+      if (!retryable || attempts >= this.retry.maxAttempts) {
+        return {
+          success: false,
+          error,
+          itemsExported: 0,
+          attempts,
+          retryable,
+        };
+      }
+
+      const delay = Math.min(
+        retryAfterMs ?? computeBackoff(attempts, this.retry),
+        this.retry.maxDelayMs
+      );
+
+      if (this.config.debug) {
+        console.debug(
+          `[Lumberjack] Retrying ${label} export in ${delay}ms (attempt ${
+            attempts + 1
+          }/${this.retry.maxAttempts}): ${error.message}`
+        );
+      }
+
+      await sleep(delay);
+    }
+  }
 }
@@ -178,6 +178,43 @@ describe("Exported Log Functions", () => {
     });
   });
 
+  describe("Child Loggers", () => {
+    beforeEach(() => {
+      core = LumberjackCore.init({
+        batchSize: 1,
+        apiKey: "test-key",
+      });
+    });
+
+    it("should merge bound fields into metadata", () => {
+      const logSpy = jest.spyOn(core, "log");
+
+      log.child({ requestId: "req-1" }).info("child message", { step: 1 });
+
+      expect(logSpy).toHaveBeenCalledWith(
+        "info",
+        "child message",
+        { requestId: "req-1", step: 1 },
+        expect.anything()
+      );
+    });
+
+    it("should attribute entries to the calling file", () => {
+      const logSpy = jest.spyOn(core, "log");
+
+      log.child({ requestId: "req-1" }).warn("child message");
+
+      expect(logSpy).toHaveBeenCalledWith(
+        "warn",
+        "child message",
+        { requestId: "req-1" },
+        expect.objectContaining({
+          file: expect.stringContaining("index.test.ts"),
+        })
+      );
+    });
+  });
+
   describe("SDK Lifecycle Integration", () => {
     it("should work correctly after SDK restart", async () => {
       // Initialize SDK
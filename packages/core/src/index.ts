@@ -1,18 +1,134 @@
+export type { OverflowPolicy } from "./bounded-buffer.js";
+export { CLI_COMMANDS, runCli } from "./cli/run.js";
+export {
+  DEFAULT_SOURCE_MAPS_ENDPOINT,
+  findSourceMaps,
+  uploadSourceMaps,
+} from "./cli/sourcemaps.js";
+export type {
+  FindSourceMapsOptions,
+  SourceMapFile,
+  SourceMapUploadResult,
+  UploadSourceMapsOptions,
+} from "./cli/sourcemaps.js";
+export { CompositeExporter } from "./composite-exporter.js";
+export type {
+  ExportDestination,
+  LogRoute,
+  LogRoutePredicate,
+  LogRouteRules,
+  SpanRoute,
+  SpanRoutePredicate,
+  SpanRouteRules,
+} from "./composite-exporter.js";
 export { LumberjackContext } from "./context.js";
+export type { IdGenerator } from "./context.js";
 export { LumberjackCore } from "./core.js";
 export type {
   EnrichedLogEntry,
+  EnrichedMetricsRequest,
   EnrichedRegisteredObject,
   Exporter,
   ExporterConfig,
+  ExportOptions,
   ExportResult,
+  InternalMetricsPayload,
 } from "./exporter.js";
+export { FileExporter } from "./file-exporter.js";
+export type {
+  FileDurability,
+  FileExporterConfig,
+  FileSignal,
+} from "./file-exporter.js";
 export { HttpExporter } from "./http-exporter.js";
+export { ChildLogger } from "./logger.js";
+export type { Logger } from "./logger.js";
+export {
+  DEFAULT_HISTOGRAM_BOUNDARIES,
+  MetricsRegistry,
+  OVERFLOW_ATTRIBUTES,
+} from "./metrics.js";
+export type {
+  Counter,
+  Exemplar,
+  Histogram,
+  HistogramDataPoint,
+  HistogramOptions,
+  MetricAttributes,
+  MetricData,
+  MetricKind,
+  MetricOptions,
+  MetricTemporality,
+  NumberDataPoint,
+  ObservableCallback,
+  ObservableGauge,
+  ObservableResult,
+  UpDownCounter,
+} from "./metrics.js";
 export type { RegisteredObject } from "./object-batch.js";
+export { OtlpExporter } from "./otlp-exporter.js";
+export type { OtlpEncoding, OtlpExporterConfig } from "./otlp-exporter.js";
+export { convertLogsToOTLP, OTLP_SEVERITY_NUMBER } from "./otlp-logs.js";
+export type {
+  LogsExportRequest,
+  OTLPLogRecord,
+  ResourceLogs,
+  ScopeLogs,
+} from "./otlp-logs.js";
+export type { PersistentQueueOptions } from "./persistent-queue.js";
+export { PrettyConsoleExporter } from "./pretty-console-exporter.js";
+export type { PrettyConsoleExporterConfig } from "./pretty-console-exporter.js";
+export type {
+  LogProcessor,
+  ObjectProcessor,
+  Processor,
+  SpanProcessorFn,
+} from "./processors.js";
+export { DEFAULT_REDACTED_KEYS, Redactor } from "./redaction.js";
+export type {
+  BuiltInDetector,
+  CustomDetector,
+  RedactionConfig,
+  RedactionStrategy,
+} from "./redaction.js";
+export { DEFAULT_RETRY_OPTIONS } from "./retry.js";
+export { RuntimeMetricsCollector } from "./runtime-metrics.js";
+export type {
+  RuntimeMetricsConfig,
+  RuntimeMetricsSnapshot,
+  RuntimeMetricsThresholds,
+  ThresholdBreach,
+} from "./runtime-metrics.js";
+export type { RetryOptions } from "./retry.js";
+export { createSpanFilter } from "./span-filter.js";
+export type {
+  SpanFilter,
+  SpanFilterPredicate,
+  SpanFilterPreset,
+  SpanFilterRules,
+} from "./span-filter.js";
 export { LumberjackSpanProcessor } from "./span-processor.js";
+export { TailSampler } from "./tail-sampler.js";
+export type {
+  TailSamplingAttributeRule,
+  TailSamplingConfig,
+  TraceDecision,
+} from "./tail-sampler.js";
+export { startSpan, traced, withSpan } from "./tracing.js";
+export type {
+  FlushEvent,
+  LastError,
+  LatencyHistogram,
+  SdkStats,
+  SignalStats,
+  SignalType,
+} from "./stats.js";
 export type {
+  AnyValue,
+  ArrayValue,
   EnrichedSpanRequest,
   InstrumentationScope,
+  KeyValueList,
   OTLPSpan,
   Resource,
   ResourceSpans,
@@ -42,16 +158,24 @@ export type { EnvironmentInfo } from "./environment.js";
 export { detectRuntime, getEnvironmentValue } from "./runtime.js";
 export type { RuntimeEnvironment } from "./runtime.js";
 export type {
+  ExceptionForAPI,
+  ExceptionInfo,
   GatekeeperResponse,
   GatekeeperResult,
   GatekeeperSchema,
   LogEntry,
+  LogEntryForAPI,
   LogLevelType,
   LumberjackConfig,
   TraceContext,
 } from "./types.js";
+export { safeStringify, serializeValue } from "./util/serialize.js";
+export type { SerializeOptions } from "./util/serialize.js";
 
 import { LumberjackCore } from "./core.js";
+import { ChildLogger } from "./logger.js";
+import { globalMetricsRegistry } from "./metrics.js";
+import { startSpan, withSpan } from "./tracing.js";
 import { CallerInfo, getCallerInfo } from "./util/get-caller-info.js";
 
 export const utils = {
@@ -105,6 +229,8 @@ export const log = {
       instance.log("fatal", message, metadata || {}, caller);
     }
   },
+  child: (bindings: Record<string, any>): ChildLogger =>
+    new ChildLogger(LumberjackCore.getInstance, bindings),
 };
 
 export const register = (obj?: any) => {
@@ -114,6 +240,9 @@ export const register = (obj?: any) => {
 // Export a convenient namespace for the API
 export const Lumberjack = {
   init: LumberjackCore.init,
+  withSpan,
+  startSpan,
+  metrics: globalMetricsRegistry,
   gatekeeper: (key: string) => {
     const instance = LumberjackCore.getInstance();
     if (!instance) {
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "@jest/globals";
+import { isLogLevel, LogLevelFilter } from "./log-level.js";
+
+describe("LogLevelFilter", () => {
+  describe("Minimum Level", () => {
+    it("should allow everything by default", () => {
+      const filter = new LogLevelFilter();
+
+      expect(filter.isEnabled("trace")).toBe(true);
+      expect(filter.isEnabled("fatal")).toBe(true);
+    });
+
+    it("should drop entries below the minimum level", () => {
+      const filter = new LogLevelFilter("warn");
+
+      expect(filter.isEnabled("debug")).toBe(false);
+      expect(filter.isEnabled("info")).toBe(false);
+      expect(filter.isEnabled("warn")).toBe(true);
+      expect(filter.isEnabled("error")).toBe(true);
+    });
+
+    it("should update the minimum level at runtime", () => {
+      const filter = new LogLevelFilter("error");
+      expect(filter.isEnabled("info")).toBe(false);
+
+      filter.setMinLevel("info");
+      expect(filter.isEnabled("info")).toBe(true);
+    });
+  });
+
+  describe("Module Overrides", () => {
+    const dbCaller = { file: "/app/src/db/client.ts", func: "query" };
+    const apiCaller = { file: "/app/src/api/users.ts", func: "getUser" };
+
+    it("should match overrides on the caller file", () => {
+      const filter = new LogLevelFilter("trace", {
+        "src/db/**": "debug",
+        "*": "warn",
+      });
+
+      expect(filter.isEnabled("debug", dbCaller)).toBe(true);
+      expect(filter.isEnabled("trace", dbCaller)).toBe(false);
+      expect(filter.isEnabled("info", apiCaller)).toBe(false);
+      expect(filter.isEnabled("warn", apiCaller)).toBe(true);
+    });
+
+    it("should prefer the most specific pattern regardless of order", () => {
+      const filter = new LogLevelFilter("trace", {
+        "*": "error",
+        "src/db/**": "trace",
+      });
+
+      expect(filter.isEnabled("trace", dbCaller)).toBe(true);
+      expect(filter.isEnabled("warn", apiCaller)).toBe(false);
+    });
+
+    it("should match overrides on the caller function", () => {
+      const filter = new LogLevelFilter("info", { "get*": "error" });
+
+      expect(filter.isEnabled("info", apiCaller)).toBe(false);
+      expect(filter.isEnabled("info", dbCaller)).toBe(true);
+    });
+
+    it("should handle file URLs from ESM stack frames", () => {
+      const filter = new LogLevelFilter("trace", { "src/db/*.ts": "error" });
+
+      expect(
+        filter.isEnabled("warn", { file: "file:///app/src/db/client.ts" })
+      ).toBe(false);
+    });
+
+    it("should match ** only across whole directories", () => {
+      const filter = new LogLevelFilter("info", {
+        "src/**/x.ts": "trace",
+        "src/{jobs,queue}/*.ts": "debug",
+      });
+
+      expect(filter.isEnabled("trace", { file: "/app/src/x.ts" })).toBe(true);
+      expect(filter.isEnabled("trace", { file: "/app/src/a/b/x.ts" })).toBe(
+        true
+      );
+      expect(filter.isEnabled("trace", { file: "/app/src/foox.ts" })).toBe(
+        false
+      );
+      expect(filter.isEnabled("debug", { file: "/app/src/queue/run.ts" })).toBe(
+        true
+      );
+    });
+
+    it("should fall back to the minimum level when nothing matches", () => {
+      const filter = new LogLevelFilter("info", { "src/db/**": "trace" });
+
+      expect(filter.isEnabled("debug", apiCaller)).toBe(false);
+      expect(filter.isEnabled("info", apiCaller)).toBe(true);
+    });
+
+    it("should add and remove overrides at runtime", () => {
+      const filter = new LogLevelFilter("info");
+      filter.setOverride("src/db/**", "trace");
+      expect(filter.isEnabled("trace", dbCaller)).toBe(true);
+
+      filter.removeOverride("src/db/**");
+      expect(filter.isEnabled("trace", dbCaller)).toBe(false);
+      expect(filter.getOverrides()).toEqual({});
+    });
+  });
+
+  describe("isLogLevel", () => {
+    it("should validate level names", () => {
+      expect(isLogLevel("warn")).toBe(true);
+      expect(isLogLevel("verbose")).toBe(false);
+      expect(isLogLevel("constructor")).toBe(false);
+      expect(isLogLevel("toString")).toBe(false);
+      expect(isLogLevel(undefined)).toBe(false);
+    });
+  });
+});
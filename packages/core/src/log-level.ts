@@ -0,0 +1,128 @@
+import type { LogLevelType } from "./types.js";
+import type { CallerInfo } from "./util/get-caller-info.js";
+import { globToRegExp } from "./util/glob.js";
+
+/**
+ * Numeric severity for each level, lowest first
+ */
+export const LOG_LEVEL_SEVERITY: Record<LogLevelType, number> = {
+  trace: 0,
+  debug: 1,
+  info: 2,
+  warn: 3,
+  error: 4,
+  fatal: 5,
+};
+
+export function isLogLevel(value: unknown): value is LogLevelType {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(LOG_LEVEL_SEVERITY, value)
+  );
+}
+
+interface CompiledOverride {
+  pattern: string;
+  level: LogLevelType;
+  regex: RegExp;
+  specificity: number;
+}
+
+/**
+ * Normalise a caller file path so patterns behave the same across platforms
+ * and module systems (ESM stack frames report `file://` URLs).
+ */
+function normalizeFile(file: string): string {
+  return file.replace(/^file:\/\//, "").replace(/\\/g, "/");
+}
+
+/**
+ * Decides whether a log entry should be kept, based on a global minimum
+ * level and glob overrides matched against the caller's file or function.
+ * The most specific matching pattern wins.
+ */
+export class LogLevelFilter {
+  private minLevel: LogLevelType;
+  private overrides: CompiledOverride[] = [];
+  private cache: Map<string, LogLevelType> = new Map();
+
+  constructor(
+    minLevel: LogLevelType = "trace",
+    overrides: Record<string, LogLevelType> = {}
+  ) {
+    this.minLevel = minLevel;
+    for (const [pattern, level] of Object.entries(overrides)) {
+      this.setOverride(pattern, level);
+    }
+  }
+
+  getMinLevel(): LogLevelType {
+    return this.minLevel;
+  }
+
+  setMinLevel(level: LogLevelType): void {
+    this.minLevel = level;
+    this.cache.clear();
+  }
+
+  getOverrides(): Record<string, LogLevelType> {
+    const result: Record<string, LogLevelType> = {};
+    for (const override of this.overrides) {
+      result[override.pattern] = override.level;
+    }
+    return result;
+  }
+
+  setOverride(pattern: string, level: LogLevelType): void {
+    this.removeOverride(pattern);
+    this.overrides.push({
+      pattern,
+      level,
+      regex: globToRegExp(pattern, { matchSuffix: true }),
+      specificity: pattern.replace(/[*?]/g, "").length,
+    });
+    // Keep the most specific patterns first so the first match wins
+    this.overrides.sort((a, b) => b.specificity - a.specificity);
+    this.cache.clear();
+  }
+
+  removeOverride(pattern: string): void {
+    this.overrides = this.overrides.filter((o) => o.pattern !== pattern);
+    this.cache.clear();
+  }
+
+  /** Resolve the effective minimum level for a caller */
+  resolveLevel(caller?: CallerInfo): LogLevelType {
+    if (this.overrides.length === 0 || !caller) {
+      return this.minLevel;
+    }
+
+    const file = caller.file ? normalizeFile(caller.file) : "";
+    const func = caller.func || "";
+    const cacheKey = `${file}\0${func}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let level = this.minLevel;
+    for (const override of this.overrides) {
+      if (
+        (file && override.regex.test(file)) ||
+        (func && override.regex.test(func))
+      ) {
+        level = override.level;
+        break;
+      }
+    }
+
+    this.cache.set(cacheKey, level);
+    return level;
+  }
+
+  isEnabled(level: LogLevelType, caller?: CallerInfo): boolean {
+    return (
+      LOG_LEVEL_SEVERITY[level] >= LOG_LEVEL_SEVERITY[this.resolveLevel(caller)]
+    );
+  }
+}
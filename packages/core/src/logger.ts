@@ -0,0 +1,95 @@
+import type { LumberjackCore } from "./core.js";
+import type { LogLevelType } from "./types.js";
+import { getCallerInfo } from "./util/get-caller-info.js";
+
+export interface Logger {
+  trace(message: string, metadata?: Record<string, any>): void;
+  debug(message: string, metadata?: Record<string, any>): void;
+  info(message: string, metadata?: Record<string, any>): void;
+  warn(message: string, metadata?: Record<string, any>): void;
+  error(message: string, metadata?: Record<string, any>): void;
+  fatal(message: string, metadata?: Record<string, any>): void;
+  logError(message: string, error: Error, metadata?: Record<string, any>): void;
+  child(bindings: Record<string, any>): Logger;
+}
+
+/**
+ * Logger with a set of fields bound to every entry it writes. The core is
+ * resolved on each call so children created before `init()` (or across a
+ * restart) still log to the current instance.
+ */
+export class ChildLogger implements Logger {
+  private readonly bindings: Record<string, any>;
+
+  constructor(
+    private readonly resolveCore: () => LumberjackCore | undefined,
+    bindings: Record<string, any> = {}
+  ) {
+    this.bindings = { ...bindings };
+  }
+
+  getBindings(): Record<string, any> {
+    return { ...this.bindings };
+  }
+
+  child(bindings: Record<string, any>): ChildLogger {
+    return new ChildLogger(this.resolveCore, {
+      ...this.bindings,
+      ...bindings,
+    });
+  }
+
+  trace(message: string, metadata?: Record<string, any>): void {
+    const caller = getCallerInfo(1); // Skip this method to get the actual caller
+    this.write("trace", message, metadata, caller);
+  }
+
+  debug(message: string, metadata?: Record<string, any>): void {
+    const caller = getCallerInfo(1); // Skip this method to get the actual caller
+    this.write("debug", message, metadata, caller);
+  }
+
+  info(message: string, metadata?: Record<string, any>): void {
+    const caller = getCallerInfo(1); // Skip this method to get the actual caller
+    this.write("info", message, metadata, caller);
+  }
+
+  warn(message: string, metadata?: Record<string, any>): void {
+    const caller = getCallerInfo(1); // Skip this method to get the actual caller
+    this.write("warn", message, metadata, caller);
+  }
+
+  error(message: string, metadata?: Record<string, any>): void {
+    const caller = getCallerInfo(1); // Skip this method to get the actual caller
+    this.write("error", message, metadata, caller);
+  }
+
+  fatal(message: string, metadata?: Record<string, any>): void {
+    const caller = getCallerInfo(1); // Skip this method to get the actual caller
+    this.write("fatal", message, metadata, caller);
+  }
+
+  logError(
+    message: string,
+    error: Error,
+    metadata?: Record<string, any>
+  ): void {
+    const caller = getCallerInfo(1); // Skip this method to get the actual caller
+    const core = this.resolveCore();
+    if (core) {
+      core.logError(message, error, { ...this.bindings, ...metadata }, caller);
+    }
+  }
+
+  private write(
+    level: LogLevelType,
+    message: string,
+    metadata: Record<string, any> | undefined,
+    caller: ReturnType<typeof getCallerInfo>
+  ): void {
+    const core = this.resolveCore();
+    if (core) {
+      core.log(level, message, { ...this.bindings, ...metadata }, caller);
+    }
+  }
+}
@@ -0,0 +1,205 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { LumberjackContext } from "./context.js";
+import { MetricsRegistry, OVERFLOW_ATTRIBUTES } from "./metrics.js";
+
+describe("MetricsRegistry", () => {
+  describe("counter", () => {
+    it("should sum values per attribute set regardless of key order", () => {
+      const registry = new MetricsRegistry();
+      const counter = registry.counter("orders", { unit: "{order}" });
+
+      counter.add(1, { region: "eu", tier: "pro" });
+      counter.add(2, { tier: "pro", region: "eu" });
+      counter.add(5, { region: "us" });
+
+      const [metric] = registry.collect(2000);
+      expect(metric).toMatchObject({
+        name: "orders",
+        unit: "{order}",
+        kind: "counter",
+        temporality: "delta",
+        endTime: 2000,
+      });
+      expect(metric.points).toEqual([
+        { attributes: { region: "eu", tier: "pro" }, value: 3 },
+        { attributes: { region: "us" }, value: 5 },
+      ]);
+    });
+
+    it("should reset after each collection", () => {
+      const registry = new MetricsRegistry();
+      const counter = registry.counter("orders");
+
+      counter.add(1);
+      const first = registry.collect(1000);
+      counter.add(4);
+      const [second] = registry.collect(2000);
+
+      expect(first[0].points).toEqual([{ attributes: {}, value: 1 }]);
+      expect(second).toMatchObject({ startTime: 1000, endTime: 2000 });
+      expect(second.points).toEqual([{ attributes: {}, value: 4 }]);
+      expect(registry.collect(3000)).toEqual([]);
+    });
+
+    it("should ignore negative values", () => {
+      const registry = new MetricsRegistry();
+      const consoleError = jest
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      registry.counter("orders").add(-1);
+
+      expect(registry.collect()).toEqual([]);
+      expect(consoleError).toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe("upDownCounter", () => {
+    it("should report the running total across collections", () => {
+      const registry = new MetricsRegistry();
+      const active = registry.upDownCounter("connections");
+
+      active.add(3);
+      registry.collect();
+      active.add(-1);
+      const [metric] = registry.collect();
+
+      expect(metric.temporality).toBe("cumulative");
+      expect(metric.points).toEqual([{ attributes: {}, value: 2 }]);
+    });
+  });
+
+  describe("histogram", () => {
+    it("should bucket values with configured boundaries", () => {
+      const registry = new MetricsRegistry();
+      const latency = registry.histogram("latency", {
+        unit: "ms",
+        boundaries: [100, 10],
+      });
+
+      [5, 10, 50, 500].forEach((value) => latency.record(value));
+
+      const [metric] = registry.collect();
+      expect(metric.kind).toBe("histogram");
+      expect(metric.points).toEqual([
+        {
+          attributes: {},
+          count: 4,
+          sum: 565,
+          min: 5,
+          max: 500,
+          boundaries: [10, 100],
+          bucketCounts: [2, 1, 1],
+          exemplars: [],
+        },
+      ]);
+    });
+
+    it("should attach exemplars from the active trace", () => {
+      const registry = new MetricsRegistry();
+      const latency = registry.histogram("latency", { boundaries: [10] });
+
+      latency.record(1);
+      LumberjackContext.run(
+        { traceId: "a".repeat(32), spanId: "b".repeat(16) },
+        () => {
+          latency.record(3);
+          latency.record(20);
+        }
+      );
+
+      const [metric] = registry.collect();
+      expect(metric.kind).toBe("histogram");
+      if (metric.kind !== "histogram") return;
+      expect(metric.points[0].exemplars).toEqual([
+        {
+          value: 3,
+          timestamp: expect.any(Number),
+          traceId: "a".repeat(32),
+          spanId: "b".repeat(16),
+        },
+        {
+          value: 20,
+          timestamp: expect.any(Number),
+          traceId: "a".repeat(32),
+          spanId: "b".repeat(16),
+        },
+      ]);
+    });
+  });
+
+  describe("observableGauge", () => {
+    it("should call the callback on each collection until removed", () => {
+      const registry = new MetricsRegistry();
+      let heap = 10;
+      const gauge = registry.observableGauge("heap", (result) => {
+        result.observe(heap, { space: "old" });
+      });
+
+      expect(registry.collect()[0].points).toEqual([
+        { attributes: { space: "old" }, value: 10 },
+      ]);
+      heap = 20;
+      expect(registry.collect()[0].points).toEqual([
+        { attributes: { space: "old" }, value: 20 },
+      ]);
+
+      gauge.remove();
+      expect(registry.collect()).toEqual([]);
+    });
+
+    it("should skip gauges whose callback throws", () => {
+      const registry = new MetricsRegistry();
+      const consoleError = jest
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+      registry.observableGauge("broken", () => {
+        throw new Error("boom");
+      });
+      registry.counter("orders").add(1);
+
+      expect(registry.collect().map((metric) => metric.name)).toEqual([
+        "orders",
+      ]);
+      consoleError.mockRestore();
+    });
+  });
+
+  describe("registration", () => {
+    it("should return the same instrument for the same name", () => {
+      const registry = new MetricsRegistry();
+
+      registry.counter("orders").add(1);
+      registry.counter("orders").add(1);
+
+      expect(registry.collect()[0].points).toEqual([
+        { attributes: {}, value: 2 },
+      ]);
+    });
+
+    it("should reject a name already used by another kind", () => {
+      const registry = new MetricsRegistry();
+      registry.counter("orders");
+
+      expect(() => registry.histogram("orders")).toThrow(/counter/);
+    });
+
+    it("should fold new attribute sets into an overflow set at the limit", () => {
+      const registry = new MetricsRegistry({ maxAttributeSets: 2 });
+      const counter = registry.counter("requests");
+
+      counter.add(1, { user: "a" });
+      counter.add(1, { user: "b" });
+      counter.add(1, { user: "c" });
+      counter.add(1, { user: "d" });
+      counter.add(1, { user: "a" });
+
+      expect(registry.collect()[0].points).toEqual([
+        { attributes: { user: "a" }, value: 2 },
+        { attributes: { user: "b" }, value: 1 },
+        { attributes: OVERFLOW_ATTRIBUTES, value: 2 },
+      ]);
+    });
+  });
+});
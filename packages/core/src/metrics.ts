@@ -0,0 +1,483 @@
+import { isSpanContextValid, trace } from "@opentelemetry/api";
+import { LumberjackContext } from "./context.js";
+
+export type MetricAttributes = Record<string, string | number | boolean>;
+
+export type MetricKind = "counter" | "updowncounter" | "histogram" | "gauge";
+
+/**
+ * - `delta`: the points cover only the export interval
+ * - `cumulative`: the points cover everything since `startTime`
+ */
+export type MetricTemporality = "delta" | "cumulative";
+
+export interface MetricOptions {
+  description?: string;
+  unit?: string;
+}
+
+export interface HistogramOptions extends MetricOptions {
+  /** Bucket upper bounds, ascending; the last bucket is unbounded */
+  boundaries?: number[];
+}
+
+/** A measurement recorded inside a trace, linking a point to that trace */
+export interface Exemplar {
+  value: number;
+  timestamp: number;
+  traceId: string;
+  spanId?: string | undefined;
+}
+
+export interface NumberDataPoint {
+  attributes: MetricAttributes;
+  value: number;
+}
+
+export interface HistogramDataPoint {
+  attributes: MetricAttributes;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  boundaries: number[];
+  /** One count per boundary plus one for the overflow bucket */
+  bucketCounts: number[];
+  /** At most one per bucket: the latest measurement made inside a trace */
+  exemplars: Exemplar[];
+}
+
+interface MetricBase {
+  name: string;
+  description?: string | undefined;
+  unit?: string | undefined;
+  temporality: MetricTemporality;
+  /** Start of the period the points cover (ms since epoch) */
+  startTime: number;
+  /** When the points were collected (ms since epoch) */
+  endTime: number;
+}
+
+export type MetricData =
+  | (MetricBase & {
+      kind: "counter" | "updowncounter" | "gauge";
+      points: NumberDataPoint[];
+    })
+  | (MetricBase & { kind: "histogram"; points: HistogramDataPoint[] });
+
+export interface Counter {
+  /** Add a non-negative value */
+  add(value: number, attributes?: MetricAttributes): void;
+}
+
+export interface UpDownCounter {
+  add(value: number, attributes?: MetricAttributes): void;
+}
+
+export interface Histogram {
+  record(value: number, attributes?: MetricAttributes): void;
+}
+
+export interface ObservableResult {
+  observe(value: number, attributes?: MetricAttributes): void;
+}
+
+export type ObservableCallback = (result: ObservableResult) => void;
+
+export interface ObservableGauge {
+  /** Stop calling the callback and reporting the gauge */
+  remove(): void;
+}
+
+export const DEFAULT_HISTOGRAM_BOUNDARIES = [
+  0, 5, 10, 25, 50, 75, 100, 250, 500, 750, 1000, 2500, 5000, 7500, 10000,
+];
+
+/** Attributes that stand in for new attribute sets once the limit is hit */
+export const OVERFLOW_ATTRIBUTES: MetricAttributes = {
+  "otel.metric.overflow": true,
+};
+
+interface Instrument {
+  readonly kind: MetricKind;
+  collect(startTime: number, endTime: number): MetricData | null;
+}
+
+/**
+ * Attribute sets tracked per instrument, keyed by their sorted entries so
+ * `{a, b}` and `{b, a}` share a point. New sets beyond `maxAttributeSets`
+ * are folded into `OVERFLOW_ATTRIBUTES`.
+ */
+class AttributeSets<T> {
+  private entries: Map<string, { attributes: MetricAttributes; value: T }> =
+    new Map();
+
+  constructor(
+    private readonly maxAttributeSets: number,
+    private readonly create: () => T
+  ) {}
+
+  get(attributes: MetricAttributes = {}): T {
+    let key = attributeKey(attributes);
+    let entry = this.entries.get(key);
+
+    if (!entry) {
+      if (this.entries.size >= this.maxAttributeSets) {
+        attributes = OVERFLOW_ATTRIBUTES;
+        key = attributeKey(attributes);
+        entry = this.entries.get(key);
+      }
+      if (!entry) {
+        entry = { attributes: { ...attributes }, value: this.create() };
+        this.entries.set(key, entry);
+      }
+    }
+
+    return entry.value;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  values(): Array<{ attributes: MetricAttributes; value: T }> {
+    return Array.from(this.entries.values());
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+function attributeKey(attributes: MetricAttributes): string {
+  return JSON.stringify(
+    Object.keys(attributes)
+      .sort()
+      .map((key) => [key, attributes[key]])
+  );
+}
+
+class SumInstrument implements Instrument, Counter, UpDownCounter {
+  private points: AttributeSets<{ value: number }>;
+  private startTime = Date.now();
+
+  constructor(
+    readonly kind: "counter" | "updowncounter",
+    private readonly name: string,
+    private readonly options: MetricOptions,
+    maxAttributeSets: number
+  ) {
+    this.points = new AttributeSets(maxAttributeSets, () => ({ value: 0 }));
+  }
+
+  add(value: number, attributes?: MetricAttributes): void {
+    if (!Number.isFinite(value)) {
+      return;
+    }
+    if (this.kind === "counter" && value < 0) {
+      console.error(
+        `[Lumberjack]: Counter ${this.name} only accepts non-negative values`
+      );
+      return;
+    }
+    this.points.get(attributes).value += value;
+  }
+
+  collect(startTime: number, endTime: number): MetricData | null {
+    if (this.points.size === 0) {
+      return null;
+    }
+
+    const points = this.points
+      .values()
+      .map(({ attributes, value }) => ({ attributes, value: value.value }));
+
+    // Counters report what happened during the interval; up-down counters
+    // report their current level
+    const delta = this.kind === "counter";
+    if (delta) {
+      this.points.clear();
+    }
+
+    return {
+      name: this.name,
+      description: this.options.description,
+      unit: this.options.unit,
+      kind: this.kind,
+      temporality: delta ? "delta" : "cumulative",
+      startTime: delta ? startTime : this.startTime,
+      endTime,
+      points,
+    };
+  }
+}
+
+interface HistogramState {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  bucketCounts: number[];
+  exemplars: Array<Exemplar | undefined>;
+}
+
+class HistogramInstrument implements Instrument, Histogram {
+  readonly kind = "histogram";
+  private points: AttributeSets<HistogramState>;
+  private readonly boundaries: number[];
+
+  constructor(
+    private readonly name: string,
+    private readonly options: HistogramOptions,
+    maxAttributeSets: number
+  ) {
+    this.boundaries = [
+      ...(options.boundaries ?? DEFAULT_HISTOGRAM_BOUNDARIES),
+    ].sort((a, b) => a - b);
+    this.points = new AttributeSets(maxAttributeSets, () => ({
+      count: 0,
+      sum: 0,
+      min: Infinity,
+      max: -Infinity,
+      bucketCounts: new Array(this.boundaries.length + 1).fill(0),
+      exemplars: new Array(this.boundaries.length + 1).fill(undefined),
+    }));
+  }
+
+  record(value: number, attributes?: MetricAttributes): void {
+    if (!Number.isFinite(value)) {
+      return;
+    }
+
+    const state = this.points.get(attributes);
+    state.count++;
+    state.sum += value;
+    state.min = Math.min(state.min, value);
+    state.max = Math.max(state.max, value);
+
+    let bucket = this.boundaries.findIndex((boundary) => value <= boundary);
+    if (bucket === -1) {
+      bucket = this.boundaries.length;
+    }
+    state.bucketCounts[bucket]++;
+
+    const traceContext = currentTraceContext();
+    if (traceContext) {
+      state.exemplars[bucket] = {
+        value,
+        timestamp: Date.now(),
+        ...traceContext,
+      };
+    }
+  }
+
+  collect(startTime: number, endTime: number): MetricData | null {
+    if (this.points.size === 0) {
+      return null;
+    }
+
+    const points = this.points.values().map(({ attributes, value }) => ({
+      attributes,
+      count: value.count,
+      sum: value.sum,
+      min: value.min,
+      max: value.max,
+      boundaries: [...this.boundaries],
+      bucketCounts: value.bucketCounts,
+      exemplars: value.exemplars.filter(
+        (exemplar): exemplar is Exemplar => exemplar !== undefined
+      ),
+    }));
+    this.points.clear();
+
+    return {
+      name: this.name,
+      description: this.options.description,
+      unit: this.options.unit,
+      kind: this.kind,
+      temporality: "delta",
+      startTime,
+      endTime,
+      points,
+    };
+  }
+}
+
+class GaugeInstrument implements Instrument, ObservableGauge {
+  readonly kind = "gauge";
+
+  constructor(
+    private readonly name: string,
+    private readonly callback: ObservableCallback,
+    private readonly options: MetricOptions,
+    private readonly maxAttributeSets: number,
+    private readonly onRemove: () => void
+  ) {}
+
+  remove(): void {
+    this.onRemove();
+  }
+
+  collect(startTime: number, endTime: number): MetricData | null {
+    const observed = new AttributeSets(this.maxAttributeSets, () => ({
+      value: 0,
+    }));
+
+    try {
+      this.callback({
+        observe: (value, attributes) => {
+          if (Number.isFinite(value)) {
+            observed.get(attributes).value = value;
+          }
+        },
+      });
+    } catch (error) {
+      console.error(
+        `[Lumberjack]: Observable gauge ${this.name} callback threw:`,
+        error
+      );
+      return null;
+    }
+
+    if (observed.size === 0) {
+      return null;
+    }
+
+    return {
+      name: this.name,
+      description: this.options.description,
+      unit: this.options.unit,
+      kind: this.kind,
+      temporality: "cumulative",
+      startTime,
+      endTime,
+      points: observed
+        .values()
+        .map(({ attributes, value }) => ({ attributes, value: value.value })),
+    };
+  }
+}
+
+/** Trace and span of the active OpenTelemetry span or Lumberjack context */
+function currentTraceContext():
+  | { traceId: string; spanId?: string | undefined }
+  | undefined {
+  const active = trace.getActiveSpan()?.spanContext();
+  if (active && isSpanContextValid(active)) {
+    return { traceId: active.traceId, spanId: active.spanId };
+  }
+
+  const traceId = LumberjackContext.getTraceId();
+  return traceId
+    ? { traceId, spanId: LumberjackContext.getSpanId() }
+    : undefined;
+}
+
+/**
+ * Creates instruments and aggregates their measurements in memory until
+ * `collect()` is called, once per export interval. Counters and histograms
+ * are reported as deltas over the interval; up-down counters and gauges as
+ * their current value.
+ */
+export class MetricsRegistry {
+  private instruments: Map<string, Instrument> = new Map();
+  private lastCollect = Date.now();
+  private readonly maxAttributeSets: number;
+
+  constructor(options: { maxAttributeSets?: number } = {}) {
+    this.maxAttributeSets = options.maxAttributeSets ?? 2000;
+  }
+
+  counter(name: string, options: MetricOptions = {}): Counter {
+    return this.getOrCreate(
+      name,
+      "counter",
+      () => new SumInstrument("counter", name, options, this.maxAttributeSets)
+    );
+  }
+
+  upDownCounter(name: string, options: MetricOptions = {}): UpDownCounter {
+    return this.getOrCreate(
+      name,
+      "updowncounter",
+      () =>
+        new SumInstrument("updowncounter", name, options, this.maxAttributeSets)
+    );
+  }
+
+  histogram(name: string, options: HistogramOptions = {}): Histogram {
+    return this.getOrCreate(
+      name,
+      "histogram",
+      () => new HistogramInstrument(name, options, this.maxAttributeSets)
+    );
+  }
+
+  /** Register a callback that reports the gauge's value at each collection */
+  observableGauge(
+    name: string,
+    callback: ObservableCallback,
+    options: MetricOptions = {}
+  ): ObservableGauge {
+    const gauge = new GaugeInstrument(
+      name,
+      callback,
+      options,
+      this.maxAttributeSets,
+      () => {
+        if (this.instruments.get(name) === gauge) {
+          this.instruments.delete(name);
+        }
+      }
+    );
+    this.register(name, gauge);
+    return gauge;
+  }
+
+  /** Aggregated data since the last collection */
+  collect(now: number = Date.now()): MetricData[] {
+    const startTime = this.lastCollect;
+    this.lastCollect = now;
+
+    const metrics: MetricData[] = [];
+    for (const instrument of this.instruments.values()) {
+      const data = instrument.collect(startTime, now);
+      if (data) {
+        metrics.push(data);
+      }
+    }
+    return metrics;
+  }
+
+  private getOrCreate<T extends Instrument>(
+    name: string,
+    kind: MetricKind,
+    create: () => T
+  ): T {
+    const existing = this.instruments.get(name);
+    if (existing && existing.kind === kind) {
+      return existing as T;
+    }
+
+    const instrument = create();
+    this.register(name, instrument);
+    return instrument;
+  }
+
+  private register(name: string, instrument: Instrument): void {
+    const existing = this.instruments.get(name);
+    if (existing) {
+      throw new Error(
+        `[Lumberjack] Metric ${name} is already registered as a ${existing.kind}`
+      );
+    }
+    this.instruments.set(name, instrument);
+  }
+}
+
+/**
+ * Registry behind `Lumberjack.metrics`, shared by every non-isolated SDK
+ * instance so instruments can be created before `init()` and survive a
+ * restart
+ */
+export const globalMetricsRegistry = new MetricsRegistry();
@@ -1,3 +1,5 @@
+import { BoundedBuffer, OverflowPolicy } from "./bounded-buffer.js";
+
 export interface RegisteredObject {
   name: string | undefined;
   id: string;
@@ -5,35 +7,44 @@ export interface RegisteredObject {
 }
 
 export class ObjectBatch {
-  private objects: RegisteredObject[] = [];
+  private objects: BoundedBuffer<RegisteredObject>;
   private maxSize: number;
   private maxAge: number;
   private lastFlush: number;
 
-  constructor(maxSize = 500, maxAge = 30000) {
+  constructor(
+    maxSize = 500,
+    maxAge = 30000,
+    maxQueueSize = 10000,
+    overflowPolicy: OverflowPolicy = "drop-oldest"
+  ) {
     this.maxSize = maxSize;
     this.maxAge = maxAge;
     this.lastFlush = Date.now();
+    this.objects = new BoundedBuffer(maxQueueSize, overflowPolicy);
   }
 
   add(obj: RegisteredObject): boolean {
     this.objects.push(obj);
     
     const shouldFlush = 
-      this.objects.length >= this.maxSize ||
+      this.objects.size >= this.maxSize ||
       (Date.now() - this.lastFlush) >= this.maxAge;
     
     return shouldFlush;
   }
 
   getObjects(): RegisteredObject[] {
-    const objects = [...this.objects];
-    this.objects = [];
+    const objects = this.objects.drain();
     this.lastFlush = Date.now();
     return objects;
   }
 
   get size(): number {
-    return this.objects.length;
+    return this.objects.size;
+  }
+
+  get dropped(): number {
+    return this.objects.dropped;
   }
-}
\ No newline at end of file
+}
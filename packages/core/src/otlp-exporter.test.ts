@@ -0,0 +1,378 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from "@jest/globals";
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+import { gunzipSync } from "zlib";
+import type { EnrichedLogEntry, EnrichedSpanRequest } from "./exporter.js";
+import { OtlpExporter } from "./otlp-exporter.js";
+
+interface CapturedRequest {
+  url: string;
+  headers: IncomingMessage["headers"];
+  body: Buffer;
+}
+
+interface StubResponse {
+  status: number;
+  body?: string;
+  headers?: Record<string, string>;
+}
+
+/** Decode protobuf wire format into field number -> raw values */
+function decodeProto(buffer: Buffer): Map<number, Array<bigint | Buffer>> {
+  const fields = new Map<number, Array<bigint | Buffer>>();
+  let offset = 0;
+
+  const readVarint = (): bigint => {
+    let result = BigInt(0);
+    let shift = BigInt(0);
+    for (;;) {
+      const byte = buffer[offset++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if (byte < 0x80) return result;
+      shift += BigInt(7);
+    }
+  };
+
+  while (offset < buffer.length) {
+    const tag = Number(readVarint());
+    const field = tag >> 3;
+    let value: bigint | Buffer;
+    switch (tag & 7) {
+      case 0:
+        value = readVarint();
+        break;
+      case 1:
+        value = buffer.subarray(offset, (offset += 8));
+        break;
+      case 2: {
+        const length = Number(readVarint());
+        value = buffer.subarray(offset, (offset += length));
+        break;
+      }
+      case 5:
+        value = buffer.subarray(offset, (offset += 4));
+        break;
+      default:
+        throw new Error(`Unexpected wire type in tag ${tag}`);
+    }
+    fields.set(field, [...(fields.get(field) ?? []), value]);
+  }
+  return fields;
+}
+
+/** Follow a path of embedded message fields, taking the first of each */
+function protoPath(buffer: Buffer, ...path: number[]): Buffer {
+  return path.reduce(
+    (current, field) => decodeProto(current).get(field)![0] as Buffer,
+    buffer
+  );
+}
+
+function makeLog(overrides: Partial<EnrichedLogEntry> = {}): EnrichedLogEntry {
+  return {
+    message: "payment failed",
+    level: "error",
+    timestamp: 1700000000123,
+    msg: "payment failed",
+    lvl: "error",
+    ts: 1700000000123,
+    fl: "src/pay.ts",
+    ln: 42,
+    fn: "charge",
+    tid: "a".repeat(32),
+    sid: "b".repeat(16),
+    ext: "TypeError",
+    exv: "card declined",
+    tb: "TypeError: card declined\n    at charge",
+    props: { orderId: "o-1", amount: 12.5, attempt: 2 },
+    project_name: "checkout",
+    sdk_version: "2",
+    commit_sha: "abc123",
+    ...overrides,
+  } as EnrichedLogEntry;
+}
+
+const spanRequest: EnrichedSpanRequest = {
+  resourceSpans: [
+    {
+      resource: {
+        attributes: [{ key: "service.name", value: { stringValue: "api" } }],
+      },
+      scopeSpans: [
+        {
+          scope: { name: "http" },
+          spans: [
+            {
+              traceId: "c".repeat(32),
+              spanId: "d".repeat(16),
+              name: "GET /",
+              kind: 2,
+              startTimeUnixNano: "1000",
+              endTimeUnixNano: "2000",
+            },
+          ],
+        },
+      ],
+    },
+  ],
+  project_name: "api",
+  sdk_version: "2",
+  commit_sha: "abc123",
+};
+
+describe("OtlpExporter", () => {
+  let server: Server;
+  let endpoint: string;
+  let requests: CapturedRequest[];
+  let responses: StubResponse[];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (chunk: Buffer) => chunks.push(chunk));
+      req.on("end", () => {
+        requests.push({
+          url: req.url!,
+          headers: req.headers,
+          body: Buffer.concat(chunks),
+        });
+        const response = responses.shift() ?? { status: 200 };
+        res.writeHead(response.status, response.headers);
+        res.end(response.body ?? "");
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const setup = (
+    config: ConstructorParameters<typeof OtlpExporter>[0] = {}
+  ) => {
+    requests = [];
+    responses = [];
+    return new OtlpExporter({
+      endpoint,
+      retry: { initialDelayMs: 1, jitter: 0 },
+      ...config,
+    });
+  };
+
+  describe("JSON encoding", () => {
+    it("should map logs onto the OTLP logs data model", async () => {
+      const exporter = setup({
+        resourceAttributes: { "deployment.env": "prod" },
+      });
+
+      const result = await exporter.exportLogs([makeLog()]);
+
+      expect(result).toMatchObject({ success: true, itemsExported: 1 });
+      expect(requests[0].url).toBe("/v1/logs");
+      expect(requests[0].headers["content-type"]).toBe("application/json");
+
+      const [resourceLogs] = JSON.parse(
+        requests[0].body.toString()
+      ).resourceLogs;
+      expect(resourceLogs.resource.attributes).toEqual([
+        { key: "service.name", value: { stringValue: "checkout" } },
+        { key: "vcs.ref.head.revision", value: { stringValue: "abc123" } },
+        { key: "deployment.env", value: { stringValue: "prod" } },
+      ]);
+
+      const [record] = resourceLogs.scopeLogs[0].logRecords;
+      expect(record).toMatchObject({
+        timeUnixNano: "1700000000123000000",
+        severityNumber: 17,
+        severityText: "ERROR",
+        body: { stringValue: "payment failed" },
+        traceId: "a".repeat(32),
+        spanId: "b".repeat(16),
+      });
+      expect(record.attributes).toEqual(
+        expect.arrayContaining([
+          { key: "orderId", value: { stringValue: "o-1" } },
+          { key: "amount", value: { doubleValue: 12.5 } },
+          { key: "attempt", value: { intValue: "2" } },
+          { key: "code.filepath", value: { stringValue: "src/pay.ts" } },
+          { key: "code.lineno", value: { intValue: "42" } },
+          { key: "exception.type", value: { stringValue: "TypeError" } },
+          { key: "exception.message", value: { stringValue: "card declined" } },
+        ])
+      );
+    });
+
+    it("should omit trace context that is not a valid OTLP ID", async () => {
+      const exporter = setup();
+
+      await exporter.exportLogs([makeLog({ tid: "req-1", sid: undefined })]);
+
+      const [record] = JSON.parse(requests[0].body.toString()).resourceLogs[0]
+        .scopeLogs[0].logRecords;
+      expect(record.traceId).toBeUndefined();
+      expect(record.spanId).toBeUndefined();
+    });
+
+    it("should post spans to /v1/traces without Lumberjack metadata", async () => {
+      const exporter = setup();
+
+      const result = await exporter.exportSpans(spanRequest);
+
+      expect(result).toMatchObject({ success: true, itemsExported: 1 });
+      expect(requests[0].url).toBe("/v1/traces");
+      expect(JSON.parse(requests[0].body.toString())).toEqual({
+        resourceSpans: spanRequest.resourceSpans,
+      });
+    });
+
+    it("should honour partial success responses", async () => {
+      const exporter = setup();
+      responses.push({
+        status: 200,
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          partialSuccess: { rejectedLogRecords: "1", errorMessage: "too old" },
+        }),
+      });
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      const result = await exporter.exportLogs([makeLog(), makeLog()]);
+
+      expect(result.itemsExported).toBe(1);
+      expect(warn).toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
+  describe("protobuf encoding", () => {
+    it("should encode logs as an ExportLogsServiceRequest", async () => {
+      const exporter = setup({ encoding: "protobuf" });
+
+      await exporter.exportLogs([makeLog()]);
+
+      expect(requests[0].headers["content-type"]).toBe(
+        "application/x-protobuf"
+      );
+      // resource_logs(1) > scope_logs(2) > log_records(2)
+      const record = decodeProto(protoPath(requests[0].body, 1, 2, 2));
+      expect(record.get(2)).toEqual([BigInt(17)]); // severity_number
+      expect(record.get(3)?.[0].toString()).toBe("ERROR"); // severity_text
+      expect(protoPath(record.get(5)![0] as Buffer, 1).toString()).toBe(
+        "payment failed"
+      ); // body.string_value
+      expect((record.get(9)![0] as Buffer).toString("hex")).toBe(
+        "a".repeat(32)
+      ); // trace_id
+      expect((record.get(1)![0] as Buffer).readBigUInt64LE()).toBe(
+        BigInt("1700000000123000000")
+      ); // time_unix_nano
+    });
+
+    it("should encode spans as an ExportTraceServiceRequest", async () => {
+      const exporter = setup({ encoding: "protobuf" });
+
+      await exporter.exportSpans(spanRequest);
+
+      // resource_spans(1) > scope_spans(2) > spans(2)
+      const span = decodeProto(protoPath(requests[0].body, 1, 2, 2));
+      expect((span.get(1)![0] as Buffer).toString("hex")).toBe("c".repeat(32));
+      expect(span.get(5)?.[0].toString()).toBe("GET /");
+      expect(span.get(6)).toEqual([BigInt(2)]); // kind
+      // resource_spans(1) > resource(1) > attributes(1) > key(1)
+      expect(protoPath(requests[0].body, 1, 1, 1, 1).toString()).toBe(
+        "service.name"
+      );
+    });
+
+    it("should encode int64 attributes without losing precision", async () => {
+      const exporter = setup({ encoding: "protobuf" });
+      const [resourceSpans] = spanRequest.resourceSpans;
+      const [scopeSpans] = resourceSpans.scopeSpans!;
+      const span = {
+        ...scopeSpans.spans[0],
+        attributes: [
+          { key: "bytes", value: { intValue: "9007199254740993" } },
+          { key: "offset", value: { intValue: "-1" } },
+        ],
+      };
+
+      await exporter.exportSpans({
+        ...spanRequest,
+        resourceSpans: [
+          { ...resourceSpans, scopeSpans: [{ ...scopeSpans, spans: [span] }] },
+        ],
+      });
+
+      // spans(2) > attributes(9) > value(2) > int_value(3)
+      const attributes = decodeProto(protoPath(requests[0].body, 1, 2, 2)).get(
+        9
+      ) as Buffer[];
+      const intValues = attributes.map(
+        (attribute) => decodeProto(protoPath(attribute, 2)).get(3)?.[0]
+      );
+      expect(intValues).toEqual([
+        BigInt("9007199254740993"),
+        BigInt.asUintN(64, BigInt(-1)),
+      ]);
+    });
+  });
+
+  describe("transport", () => {
+    it("should send custom headers and gzip the body", async () => {
+      const exporter = setup({
+        headers: { "x-collector-token": "secret" },
+        compression: "gzip",
+      });
+
+      await exporter.exportLogs([makeLog()]);
+
+      expect(requests[0].headers["x-collector-token"]).toBe("secret");
+      expect(requests[0].headers["content-encoding"]).toBe("gzip");
+      const body = JSON.parse(gunzipSync(requests[0].body).toString());
+      expect(body.resourceLogs[0].scopeLogs[0].logRecords).toHaveLength(1);
+    });
+
+    it("should use explicit signal endpoints", async () => {
+      const exporter = setup({ tracesEndpoint: `${endpoint}/custom/traces` });
+
+      await exporter.exportSpans(spanRequest);
+
+      expect(requests[0].url).toBe("/custom/traces");
+    });
+
+    it("should retry retryable responses", async () => {
+      const exporter = setup();
+      responses.push({ status: 503 });
+
+      const result = await exporter.exportLogs([makeLog()]);
+
+      expect(result).toMatchObject({ success: true, attempts: 2 });
+      expect(requests).toHaveLength(2);
+    });
+
+    it("should not retry rejected payloads", async () => {
+      const exporter = setup();
+      responses.push({ status: 400, body: "bad request" });
+
+      const result = await exporter.exportLogs([makeLog()]);
+
+      expect(result).toMatchObject({
+        success: false,
+        retryable: false,
+        attempts: 1,
+      });
+      expect(result.error?.message).toContain("400");
+    });
+
+    it("should skip registered objects", async () => {
+      const exporter = setup();
+
+      const result = await exporter.exportObjects([]);
+
+      expect(result).toEqual({ success: true, itemsExported: 0 });
+      expect(requests).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,261 @@
+import { promisify } from "util";
+import { gzip as gzipCallback } from "zlib";
+import type {
+  EnrichedLogEntry,
+  EnrichedRegisteredObject,
+  EnrichedSpanRequest,
+  Exporter,
+  ExportResult,
+} from "./exporter.js";
+import { convertLogsToOTLP } from "./otlp-logs.js";
+import { encodeLogsRequest, encodeTraceRequest } from "./otlp-protobuf.js";
+import {
+  computeBackoff,
+  isRetryableStatus,
+  parseRetryAfter,
+  resolveRetryOptions,
+  RetryOptions,
+  sleep,
+} from "./retry.js";
+
+const gzip = promisify(gzipCallback);
+
+export type OtlpEncoding = "json" | "protobuf";
+
+export interface OtlpExporterConfig {
+  /**
+   * Collector base URL; `/v1/logs` and `/v1/traces` are appended
+   * @default "http://localhost:4318"
+   */
+  endpoint?: string;
+  /** Full URL for logs, overriding `endpoint` */
+  logsEndpoint?: string;
+  /** Full URL for traces, overriding `endpoint` */
+  tracesEndpoint?: string;
+  /** @default "json" */
+  encoding?: OtlpEncoding;
+  /** Extra request headers, e.g. collector auth */
+  headers?: Record<string, string>;
+  /** @default "none" */
+  compression?: "gzip" | "none";
+  /**
+   * Resource attributes for log records. `service.name` defaults to the
+   * project name; spans carry their own resource.
+   */
+  resourceAttributes?: Record<string, string | number | boolean>;
+  retry?: RetryOptions;
+  debug?: boolean;
+}
+
+interface PartialSuccess {
+  rejectedLogRecords?: number | string;
+  rejectedSpans?: number | string;
+  errorMessage?: string;
+}
+
+/**
+ * Exporter that sends logs and spans to any OTLP/HTTP endpoint, such as an
+ * OpenTelemetry Collector. Registered objects have no OTLP equivalent and
+ * are skipped.
+ */
+export class OtlpExporter implements Exporter {
+  private readonly config: OtlpExporterConfig;
+  private readonly logsEndpoint: string;
+  private readonly tracesEndpoint: string;
+  private readonly retry: Required<RetryOptions>;
+
+  constructor(config: OtlpExporterConfig = {}) {
+    this.config = config;
+    this.retry = resolveRetryOptions(config.retry);
+    const baseEndpoint = (config.endpoint || "http://localhost:4318").replace(
+      /\/+$/,
+      ""
+    );
+    this.logsEndpoint = config.logsEndpoint || `${baseEndpoint}/v1/logs`;
+    this.tracesEndpoint = config.tracesEndpoint || `${baseEndpoint}/v1/traces`;
+  }
+
+  async exportLogs(logs: EnrichedLogEntry[]): Promise<ExportResult> {
+    if (logs.length === 0) {
+      return { success: true, itemsExported: 0 };
+    }
+
+    try {
+      const request = convertLogsToOTLP(logs, this.config.resourceAttributes);
+      const body =
+        this.config.encoding === "protobuf"
+          ? encodeLogsRequest(request)
+          : JSON.stringify(request);
+
+      return await this.postWithRetry(
+        this.logsEndpoint,
+        body,
+        "logs",
+        logs.length
+      );
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+        itemsExported: 0,
+      };
+    }
+  }
+
+  async exportObjects(
+    _objects: EnrichedRegisteredObject[]
+  ): Promise<ExportResult> {
+    return { success: true, itemsExported: 0 };
+  }
+
+  async exportSpans(spanRequest: EnrichedSpanRequest): Promise<ExportResult> {
+    if (!spanRequest.resourceSpans || spanRequest.resourceSpans.length === 0) {
+      return { success: true, itemsExported: 0 };
+    }
+
+    try {
+      const request = { resourceSpans: spanRequest.resourceSpans };
+      const body =
+        this.config.encoding === "protobuf"
+          ? encodeTraceRequest(request)
+          : JSON.stringify(request);
+
+      const totalSpans = spanRequest.resourceSpans.reduce(
+        (total, rs) =>
+          total +
+          (rs.scopeSpans?.reduce(
+            (scopeTotal, ss) => scopeTotal + (ss.spans?.length || 0),
+            0
+          ) || 0),
+        0
+      );
+
+      return await this.postWithRetry(
+        this.tracesEndpoint,
+        body,
+        "spans",
+        totalSpans
+      );
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+        itemsExported: 0,
+      };
+    }
+  }
+
+  /**
+   * POST an encoded request, retrying network errors and the status codes
+   * OTLP/HTTP marks as retryable with exponential backoff
+   */
+  private async postWithRetry(
+    url: string,
+    payload: string | Uint8Array,
+    label: string,
+    itemCount: number
+  ): Promise<ExportResult> {
+    const headers: Record<string, string> = {
+      "Content-Type":
+        this.config.encoding === "protobuf"
+          ? "application/x-protobuf"
+          : "application/json",
+      ...this.config.headers,
+    };
+
+    let body: string | Uint8Array = payload;
+    if (this.config.compression === "gzip") {
+      body = new Uint8Array(await gzip(payload));
+      headers["Content-Encoding"] = "gzip";
+    }
+
+    let attempts = 0;
+
+    for (;;) {
+      attempts++;
+      let error: Error;
+      let retryable = true;
+      let retryAfterMs: number | undefined;
+
+      try {
+        const response = await fetch(url, { method: "POST", headers, body });
+
+        if (response.ok) {
+          const rejected = await this.readRejectedCount(response, label);
+          return {
+            success: true,
+            itemsExported: Math.max(0, itemCount - rejected),
+            attempts,
+          };
+        }
+
+        const errorText = await response.text();
+        error = new Error(
+          `Failed to send ${label} to OTLP endpoint: ${response.status} ${response.statusText} - ${errorText}`
+        );
+        retryable = isRetryableStatus(response.status);
+        if (response.status === 429 || response.status === 503) {
+          retryAfterMs = parseRetryAfter(response.headers?.get("retry-after"));
+        }
+      } catch (fetchError) {
+        error =
+          fetchError instanceof Error
+            ? fetchError
+            : new Error(String(fetchError));
+      }
+
+      if (!retryable || attempts >= this.retry.maxAttempts) {
+        return {
+          success: false,
+          error,
+          itemsExported: 0,
+          attempts,
+          retryable,
+        };
+      }
+
+      const delay = Math.min(
+        retryAfterMs ?? computeBackoff(attempts, this.retry),
+        this.retry.maxDelayMs
+      );
+
+      if (this.config.debug) {
+        console.debug(
+          `[Lumberjack] Retrying OTLP ${label} export in ${delay}ms (attempt ${
+            attempts + 1
+          }/${this.retry.maxAttempts}): ${error.message}`
+        );
+      }
+
+      await sleep(delay);
+    }
+  }
+
+  /** Items the collector rejected in a JSON partial-success response */
+  private async readRejectedCount(
+    response: Response,
+    label: string
+  ): Promise<number> {
+    if (!response.headers?.get("content-type")?.includes("application/json")) {
+      return 0;
+    }
+
+    try {
+      const { partialSuccess } = (await response.json()) as {
+        partialSuccess?: PartialSuccess;
+      };
+      const rejected = Number(
+        partialSuccess?.rejectedLogRecords ?? partialSuccess?.rejectedSpans ?? 0
+      );
+      if (rejected > 0) {
+        console.warn(
+          `[Lumberjack]: OTLP endpoint rejected ${rejected} ${label}:`,
+          partialSuccess?.errorMessage
+        );
+      }
+      return rejected;
+    } catch {
+      return 0;
+    }
+  }
+}
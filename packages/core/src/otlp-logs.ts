@@ -0,0 +1,137 @@
+import type { EnrichedLogEntry } from "./exporter.js";
+import { convertValueToOTLP } from "./span-batch.js";
+import type {
+  AnyValue,
+  InstrumentationScope,
+  Resource,
+  SpanAttributes,
+} from "./span-types.js";
+import { LUMBERJACK_TRACER_NAME } from "./tracing.js";
+import type { LogLevelType } from "./types.js";
+
+/**
+ * OTLP/JSON logs types, matching the OTLP JSON schema. 64-bit timestamps are
+ * decimal strings so nanosecond values keep their precision.
+ */
+export interface OTLPLogRecord {
+  timeUnixNano: string;
+  observedTimeUnixNano: string;
+  severityNumber: number;
+  severityText: string;
+  body: AnyValue;
+  attributes: SpanAttributes;
+  droppedAttributesCount?: number | undefined;
+  flags?: number | undefined;
+  traceId?: string | undefined;
+  spanId?: string | undefined;
+}
+
+export interface ScopeLogs {
+  scope?: InstrumentationScope;
+  logRecords: OTLPLogRecord[];
+  schemaUrl?: string | undefined;
+}
+
+export interface ResourceLogs {
+  resource?: Resource;
+  scopeLogs: ScopeLogs[];
+  schemaUrl?: string | undefined;
+}
+
+export interface LogsExportRequest {
+  resourceLogs: ResourceLogs[];
+}
+
+/** OpenTelemetry SeverityNumber for each level (the first of each range) */
+export const OTLP_SEVERITY_NUMBER: Record<LogLevelType, number> = {
+  trace: 1,
+  debug: 5,
+  info: 9,
+  warn: 13,
+  error: 17,
+  fatal: 21,
+};
+
+const TRACE_ID_PATTERN = /^[0-9a-f]{32}$/i;
+const SPAN_ID_PATTERN = /^[0-9a-f]{16}$/i;
+
+/**
+ * Map enriched log entries onto the OTLP logs data model. Source location
+ * and exceptions use the OpenTelemetry semantic convention attribute names;
+ * `props` become attributes as-is.
+ */
+export function convertLogsToOTLP(
+  logs: EnrichedLogEntry[],
+  resourceAttributes: Record<string, unknown> = {}
+): LogsExportRequest {
+  const first = logs[0];
+  const resource: Record<string, unknown> = {
+    "service.name": first?.project_name || "unknown",
+    "vcs.ref.head.revision": first?.commit_sha,
+    ...resourceAttributes,
+  };
+
+  return {
+    resourceLogs: [
+      {
+        resource: {
+          attributes: toAttributes(resource),
+          droppedAttributesCount: 0,
+        },
+        scopeLogs: [
+          {
+            scope: { name: LUMBERJACK_TRACER_NAME },
+            logRecords: logs.map(convertLogToOTLP),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function convertLogToOTLP(log: EnrichedLogEntry): OTLPLogRecord {
+  const level = log.lvl as LogLevelType;
+  const time = msToNanos(log.ts);
+
+  const record: OTLPLogRecord = {
+    timeUnixNano: time,
+    observedTimeUnixNano: time,
+    severityNumber: OTLP_SEVERITY_NUMBER[level] ?? 0,
+    severityText: log.lvl.toUpperCase(),
+    body: { stringValue: log.msg },
+    attributes: toAttributes({
+      ...log.props,
+      "code.filepath": log.fl,
+      "code.lineno": log.ln,
+      "code.function": log.fn,
+      "exception.type": log.ext,
+      "exception.message": log.exv,
+      "exception.stacktrace": log.tb,
+      "lumberjack.source": log.src,
+    }),
+    droppedAttributesCount: 0,
+  };
+
+  if (log.tid && TRACE_ID_PATTERN.test(log.tid)) {
+    record.traceId = log.tid.toLowerCase();
+  }
+  if (log.sid && SPAN_ID_PATTERN.test(log.sid)) {
+    record.spanId = log.sid.toLowerCase();
+  }
+
+  return record;
+}
+
+function toAttributes(values: Record<string, unknown>): SpanAttributes {
+  const result: SpanAttributes = [];
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined && value !== null) {
+      result.push({ key, value: convertValueToOTLP(value) });
+    }
+  }
+  return result;
+}
+
+function msToNanos(ms: number): string {
+  return (BigInt(Math.round(ms)) * BigInt(1000000)).toString();
+}
@@ -0,0 +1,318 @@
+import type {
+  LogsExportRequest,
+  OTLPLogRecord,
+  ResourceLogs,
+  ScopeLogs,
+} from "./otlp-logs.js";
+import type {
+  AnyValue,
+  InstrumentationScope,
+  OTLPSpan,
+  Resource,
+  ResourceSpans,
+  ScopeSpans,
+  SpanAttributes,
+  SpanExportRequest,
+} from "./span-types.js";
+
+/**
+ * Minimal protobuf encoder for the OTLP export requests, following the
+ * field numbers of opentelemetry-proto v1. Only encoding is supported.
+ */
+
+const WireType = {
+  Varint: 0,
+  Fixed64: 1,
+  LengthDelimited: 2,
+  Fixed32: 5,
+} as const;
+
+type WireType = (typeof WireType)[keyof typeof WireType];
+
+const textEncoder = new TextEncoder();
+
+class ProtoWriter {
+  private chunks: number[] = [];
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+
+  uint(field: number, value: number | undefined): void {
+    if (value) {
+      this.tag(field, WireType.Varint);
+      this.varint(BigInt(value));
+    }
+  }
+
+  int64(field: number, value: string): void {
+    this.tag(field, WireType.Varint);
+    this.varint(BigInt.asUintN(64, BigInt(value)));
+  }
+
+  bool(field: number, value: boolean): void {
+    this.tag(field, WireType.Varint);
+    this.varint(value ? BigInt(1) : BigInt(0));
+  }
+
+  double(field: number, value: number): void {
+    this.tag(field, WireType.Fixed64);
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value, true);
+    this.raw(new Uint8Array(view.buffer));
+  }
+
+  fixed32(field: number, value: number | undefined): void {
+    if (value) {
+      this.tag(field, WireType.Fixed32);
+      const view = new DataView(new ArrayBuffer(4));
+      view.setUint32(0, value, true);
+      this.raw(new Uint8Array(view.buffer));
+    }
+  }
+
+  /** Unsigned 64-bit values arrive as decimal strings, as in OTLP/JSON */
+  fixed64(field: number, value: string | undefined): void {
+    if (value === undefined) {
+      return;
+    }
+    const big = BigInt(value);
+    if (big === BigInt(0)) {
+      return;
+    }
+    this.tag(field, WireType.Fixed64);
+    const view = new DataView(new ArrayBuffer(8));
+    view.setBigUint64(0, BigInt.asUintN(64, big), true);
+    this.raw(new Uint8Array(view.buffer));
+  }
+
+  string(field: number, value: string | undefined): void {
+    if (value) {
+      this.bytes(field, textEncoder.encode(value));
+    }
+  }
+
+  /** Hex-encoded IDs (trace and span IDs) as raw bytes */
+  hex(field: number, value: string | undefined): void {
+    if (value) {
+      const bytes = new Uint8Array(value.length / 2);
+      for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(value.substr(i * 2, 2), 16);
+      }
+      this.bytes(field, bytes);
+    }
+  }
+
+  bytes(field: number, value: Uint8Array): void {
+    this.tag(field, WireType.LengthDelimited);
+    this.varint(BigInt(value.length));
+    this.raw(value);
+  }
+
+  /** Embedded message; written even when empty so repeated positions hold */
+  message(field: number, write: (writer: ProtoWriter) => void): void {
+    const nested = new ProtoWriter();
+    write(nested);
+    this.bytes(field, nested.finish());
+  }
+
+  private tag(field: number, wireType: WireType): void {
+    this.varint(BigInt((field << 3) | wireType));
+  }
+
+  private varint(value: bigint): void {
+    let remaining = value;
+    while (remaining > BigInt(0x7f)) {
+      this.chunks.push(Number(remaining & BigInt(0x7f)) | 0x80);
+      remaining >>= BigInt(7);
+    }
+    this.chunks.push(Number(remaining));
+  }
+
+  private raw(bytes: Uint8Array): void {
+    for (const byte of bytes) {
+      this.chunks.push(byte);
+    }
+  }
+}
+
+/** Encode an ExportTraceServiceRequest */
+export function encodeTraceRequest(request: SpanExportRequest): Uint8Array {
+  const writer = new ProtoWriter();
+  for (const resourceSpans of request.resourceSpans) {
+    writer.message(1, (w) => writeResourceSpans(w, resourceSpans));
+  }
+  return writer.finish();
+}
+
+/** Encode an ExportLogsServiceRequest */
+export function encodeLogsRequest(request: LogsExportRequest): Uint8Array {
+  const writer = new ProtoWriter();
+  for (const resourceLogs of request.resourceLogs) {
+    writer.message(1, (w) => writeResourceLogs(w, resourceLogs));
+  }
+  return writer.finish();
+}
+
+function writeResourceSpans(w: ProtoWriter, value: ResourceSpans): void {
+  if (value.resource) {
+    writeResourceField(w, 1, value.resource);
+  }
+  for (const scopeSpans of value.scopeSpans ?? []) {
+    w.message(2, (sw) => writeScopeSpans(sw, scopeSpans));
+  }
+}
+
+function writeScopeSpans(w: ProtoWriter, value: ScopeSpans): void {
+  if (value.scope) {
+    writeScopeField(w, 1, value.scope);
+  }
+  for (const span of value.spans) {
+    w.message(2, (sw) => writeSpan(sw, span));
+  }
+  w.string(3, value.schemaUrl);
+}
+
+function writeSpan(w: ProtoWriter, span: OTLPSpan): void {
+  w.hex(1, span.traceId);
+  w.hex(2, span.spanId);
+  w.string(3, span.traceState);
+  w.hex(4, span.parentSpanId);
+  w.string(5, span.name);
+  w.uint(6, span.kind);
+  w.fixed64(7, span.startTimeUnixNano);
+  w.fixed64(8, span.endTimeUnixNano);
+  writeAttributes(w, 9, span.attributes);
+  w.uint(10, span.droppedAttributesCount);
+  for (const event of span.events ?? []) {
+    w.message(11, (ew) => {
+      ew.fixed64(1, event.timeUnixNano);
+      ew.string(2, event.name);
+      writeAttributes(ew, 3, event.attributes);
+      ew.uint(4, event.droppedAttributesCount);
+    });
+  }
+  w.uint(12, span.droppedEventsCount);
+  for (const link of span.links ?? []) {
+    w.message(13, (lw) => {
+      lw.hex(1, link.traceId);
+      lw.hex(2, link.spanId);
+      lw.string(3, link.traceState);
+      writeAttributes(lw, 4, link.attributes);
+      lw.uint(5, link.droppedAttributesCount);
+      lw.fixed32(6, link.flags);
+    });
+  }
+  w.uint(14, span.droppedLinksCount);
+  if (span.status) {
+    const status = span.status;
+    w.message(15, (sw) => {
+      sw.string(2, status.message);
+      sw.uint(3, status.code);
+    });
+  }
+  w.fixed32(16, span.flags);
+}
+
+function writeResourceLogs(w: ProtoWriter, value: ResourceLogs): void {
+  if (value.resource) {
+    writeResourceField(w, 1, value.resource);
+  }
+  for (const scopeLogs of value.scopeLogs) {
+    w.message(2, (sw) => writeScopeLogs(sw, scopeLogs));
+  }
+  w.string(3, value.schemaUrl);
+}
+
+function writeScopeLogs(w: ProtoWriter, value: ScopeLogs): void {
+  if (value.scope) {
+    writeScopeField(w, 1, value.scope);
+  }
+  for (const record of value.logRecords) {
+    w.message(2, (rw) => writeLogRecord(rw, record));
+  }
+  w.string(3, value.schemaUrl);
+}
+
+function writeLogRecord(w: ProtoWriter, record: OTLPLogRecord): void {
+  w.fixed64(1, record.timeUnixNano);
+  w.uint(2, record.severityNumber);
+  w.string(3, record.severityText);
+  w.message(5, (bw) => writeAnyValue(bw, record.body));
+  writeAttributes(w, 6, record.attributes);
+  w.uint(7, record.droppedAttributesCount);
+  w.fixed32(8, record.flags);
+  w.hex(9, record.traceId);
+  w.hex(10, record.spanId);
+  w.fixed64(11, record.observedTimeUnixNano);
+}
+
+function writeResourceField(
+  w: ProtoWriter,
+  field: number,
+  resource: Resource
+): void {
+  w.message(field, (rw) => {
+    writeAttributes(rw, 1, resource.attributes);
+    rw.uint(2, resource.droppedAttributesCount);
+  });
+}
+
+function writeScopeField(
+  w: ProtoWriter,
+  field: number,
+  scope: InstrumentationScope
+): void {
+  w.message(field, (sw) => {
+    sw.string(1, scope.name);
+    sw.string(2, scope.version);
+    writeAttributes(sw, 3, scope.attributes);
+  });
+}
+
+function writeAttributes(
+  w: ProtoWriter,
+  field: number,
+  attributes: SpanAttributes | undefined
+): void {
+  for (const { key, value } of attributes ?? []) {
+    w.message(field, (kw) => {
+      kw.string(1, key);
+      kw.message(2, (vw) => writeAnyValue(vw, value));
+    });
+  }
+}
+
+function writeAnyValue(w: ProtoWriter, value: AnyValue): void {
+  if ("stringValue" in value) {
+    // Set explicitly so an empty string is not read back as an unset value
+    w.bytes(1, textEncoder.encode(value.stringValue));
+  } else if ("boolValue" in value) {
+    w.bool(2, value.boolValue);
+  } else if ("intValue" in value) {
+    w.int64(3, value.intValue);
+  } else if ("doubleValue" in value) {
+    w.double(4, value.doubleValue);
+  } else if ("arrayValue" in value) {
+    const { values } = value.arrayValue;
+    w.message(5, (aw) => {
+      for (const item of values) {
+        aw.message(1, (iw) => writeAnyValue(iw, item));
+      }
+    });
+  } else if ("kvlistValue" in value) {
+    const { values } = value.kvlistValue;
+    w.message(6, (kw) => writeAttributes(kw, 1, values));
+  } else if ("bytesValue" in value) {
+    w.bytes(7, base64ToBytes(value.bytesValue));
+  }
+}
+
+function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
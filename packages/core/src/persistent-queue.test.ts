@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import {
+  appendFileSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+} from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PersistentQueue } from "./persistent-queue.js";
+
+describe("PersistentQueue", () => {
+  let directory: string;
+
+  const segments = () =>
+    readdirSync(directory).filter((file) => file.endsWith(".wal"));
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "lumberjack-wal-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should replay unacknowledged records in a new instance", () => {
+    const queue = new PersistentQueue<{ n: number }>({ directory });
+    queue.append({ n: 1 });
+    queue.append({ n: 2 });
+    queue.close();
+
+    const reopened = new PersistentQueue<{ n: number }>({ directory });
+
+    expect(reopened.replay()).toEqual([
+      { seq: 1, data: { n: 1 } },
+      { seq: 2, data: { n: 2 } },
+    ]);
+  });
+
+  it("should not replay acknowledged records", () => {
+    const queue = new PersistentQueue<number>({ directory });
+    queue.append(1);
+    queue.append(2);
+    queue.append(3);
+    queue.ack(2);
+    queue.close();
+
+    const reopened = new PersistentQueue<number>({ directory });
+
+    expect(reopened.replay()).toEqual([{ seq: 3, data: 3 }]);
+    expect(reopened.append(4)).toBe(4);
+  });
+
+  it("should delete segments once fully acknowledged", () => {
+    const queue = new PersistentQueue<number>({ directory });
+    queue.append(1);
+    queue.append(2);
+
+    expect(segments()).toHaveLength(1);
+
+    queue.ack(2);
+
+    expect(segments()).toHaveLength(0);
+    expect(queue.sizeBytes).toBe(0);
+
+    queue.append(3);
+    queue.close();
+
+    expect(new PersistentQueue<number>({ directory }).replay()).toEqual([
+      { seq: 3, data: 3 },
+    ]);
+  });
+
+  it("should rotate segments at the configured size", () => {
+    const queue = new PersistentQueue<string>({
+      directory,
+      segmentSizeBytes: 64,
+    });
+    for (let i = 0; i < 5; i++) {
+      queue.append("x".repeat(20));
+    }
+    queue.close();
+
+    expect(segments().length).toBeGreaterThan(1);
+    expect(new PersistentQueue<string>({ directory }).replay()).toHaveLength(5);
+  });
+
+  it("should drop the oldest segments when over the size limit", () => {
+    const queue = new PersistentQueue<string>({
+      directory,
+      segmentSizeBytes: 64,
+      maxSizeBytes: 128,
+    });
+    for (let i = 0; i < 10; i++) {
+      queue.append(`record-${i}`.padEnd(20, "."));
+    }
+    queue.close();
+
+    const replayed = new PersistentQueue<string>({ directory }).replay();
+
+    expect(queue.dropped).toBeGreaterThan(0);
+    expect(replayed.length + queue.dropped).toBe(10);
+    expect(replayed[replayed.length - 1].data).toMatch(/^record-9/);
+  });
+
+  it("should ignore a torn or corrupted tail", () => {
+    const queue = new PersistentQueue<number>({ directory });
+    queue.append(1);
+    queue.append(2);
+    queue.close();
+
+    const [segment] = segments();
+    const path = join(directory, segment);
+    appendFileSync(path, '0badc0de\t{"seq":3,"data":3}\n{"seq":4,"da');
+
+    const reopened = new PersistentQueue<number>({ directory });
+
+    expect(reopened.replay()).toEqual([
+      { seq: 1, data: 1 },
+      { seq: 2, data: 2 },
+    ]);
+
+    // New records go to a fresh segment instead of after the corrupt tail
+    reopened.append(5);
+    reopened.close();
+
+    expect(segments()).toHaveLength(2);
+    expect(readFileSync(path, "utf8")).toContain('{"seq":4,"da');
+  });
+});
@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import type { EnrichedLogEntry, EnrichedSpanRequest } from "./exporter.js";
+import { PrettyConsoleExporter } from "./pretty-console-exporter.js";
+import type { OTLPSpan } from "./span-types.js";
+
+function makeLog(overrides: Partial<EnrichedLogEntry> = {}): EnrichedLogEntry {
+  return {
+    message: "User signed in",
+    level: "info",
+    timestamp: new Date(2024, 0, 1, 9, 5, 3, 42).getTime(),
+    msg: "User signed in",
+    lvl: "info",
+    ts: new Date(2024, 0, 1, 9, 5, 3, 42).getTime(),
+    project_name: "test-project",
+    sdk_version: "2",
+    ...overrides,
+  } as EnrichedLogEntry;
+}
+
+function makeSpan(
+  spanId: string,
+  name: string,
+  overrides: Partial<OTLPSpan> = {}
+): OTLPSpan {
+  return {
+    traceId: "abcdef0123456789abcdef0123456789",
+    spanId,
+    name,
+    kind: 1,
+    startTimeUnixNano: "0",
+    endTimeUnixNano: "5000000",
+    ...overrides,
+  };
+}
+
+function spanRequest(...spans: OTLPSpan[]): EnrichedSpanRequest {
+  return {
+    resourceSpans: [{ scopeSpans: [{ spans }] }],
+    project_name: "test-project",
+    sdk_version: "2",
+  };
+}
+
+describe("PrettyConsoleExporter", () => {
+  let lines: string[];
+  let exporter: PrettyConsoleExporter;
+
+  beforeEach(() => {
+    lines = [];
+    exporter = new PrettyConsoleExporter({
+      colors: false,
+      write: (line) => lines.push(line),
+    });
+  });
+
+  it("should print the time, level, trace ID, message and location", async () => {
+    const result = await exporter.exportLogs([
+      makeLog({
+        tid: "abcdef0123456789abcdef0123456789",
+        fl: `${process.cwd()}/src/routes/auth.ts`,
+        ln: 42,
+      }),
+    ]);
+
+    expect(result).toEqual({ success: true, itemsExported: 1 });
+    expect(lines).toEqual([
+      "09:05:03.042 INFO  [abcdef] User signed in src/routes/auth.ts:42",
+    ]);
+  });
+
+  it("should skip console-captured logs when asked", async () => {
+    exporter = new PrettyConsoleExporter({
+      colors: false,
+      skipConsoleLogs: true,
+      write: (line) => lines.push(line),
+    });
+
+    const result = await exporter.exportLogs([
+      makeLog({ msg: "from the console", src: "console" }),
+      makeLog({ msg: "from the sdk" }),
+    ]);
+
+    expect(result).toEqual({ success: true, itemsExported: 2 });
+    expect(lines).toEqual(["09:05:03.042 INFO  from the sdk"]);
+  });
+
+  it("should indent props and exception stacks", async () => {
+    await exporter.exportLogs([
+      makeLog({
+        lvl: "error",
+        msg: "Checkout failed",
+        props: { orderId: "o-1", cart: { items: 2 } },
+        tb: "Error: declined\n    at charge (pay.ts:10:5)",
+      }),
+    ]);
+
+    expect(lines[0].split("\n")).toEqual([
+      "09:05:03.042 ERROR Checkout failed",
+      "    orderId: o-1",
+      "    cart: {",
+      '      "items": 2',
+      "    }",
+      "    Error: declined",
+      "    at charge (pay.ts:10:5)",
+    ]);
+  });
+
+  it("should print spans as a tree per trace", async () => {
+    const result = await exporter.exportSpans(
+      spanRequest(
+        makeSpan("root", "GET /checkout", { endTimeUnixNano: "12500000" }),
+        makeSpan("db", "db.query", {
+          parentSpanId: "root",
+          startTimeUnixNano: "1000000",
+          endTimeUnixNano: "4000000",
+        }),
+        makeSpan("pay", "charge", {
+          parentSpanId: "root",
+          startTimeUnixNano: "5000000",
+          endTimeUnixNano: "9000000",
+          status: { code: 2, message: "declined" },
+        }),
+        makeSpan("retry", "http.post", {
+          parentSpanId: "pay",
+          startTimeUnixNano: "6000000",
+          endTimeUnixNano: "8000000",
+        })
+      )
+    );
+
+    expect(result).toEqual({ success: true, itemsExported: 4 });
+    expect(lines).toEqual([
+      "trace [abcdef]",
+      "└─ GET /checkout 12.5ms",
+      "   ├─ db.query 3.0ms",
+      "   └─ charge 4.0ms ERROR declined",
+      "      └─ http.post 2.0ms",
+    ]);
+  });
+
+  it("should add colors when enabled", async () => {
+    exporter = new PrettyConsoleExporter({
+      colors: true,
+      write: (line) => lines.push(line),
+    });
+
+    await exporter.exportLogs([makeLog({ lvl: "warn" })]);
+
+    expect(lines[0]).toContain("\x1b[33mWARN \x1b[0m");
+  });
+});
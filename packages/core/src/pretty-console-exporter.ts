@@ -0,0 +1,307 @@
+import type {
+  EnrichedLogEntry,
+  EnrichedMetricsRequest,
+  EnrichedRegisteredObject,
+  EnrichedSpanRequest,
+  Exporter,
+  ExportResult,
+} from "./exporter.js";
+import type { MetricAttributes } from "./metrics.js";
+import type { OTLPSpan } from "./span-types.js";
+import type { LogLevelType } from "./types.js";
+
+export interface PrettyConsoleExporterConfig {
+  /**
+   * Use ANSI colors
+   * @default true when stdout is a terminal and NO_COLOR is not set
+   */
+  colors?: boolean;
+  /**
+   * Print props below each log line
+   * @default true
+   */
+  showProps?: boolean;
+  /**
+   * Skip logs captured from the console, which the console already printed
+   * @default false
+   */
+  skipConsoleLogs?: boolean;
+  /**
+   * Where lines are written
+   * @default process.stdout, which console capture does not intercept
+   */
+  write?: (line: string) => void;
+}
+
+const ANSI = {
+  reset: "\x1b[0m",
+  bold: "\x1b[1m",
+  dim: "\x1b[2m",
+  red: "\x1b[31m",
+  green: "\x1b[32m",
+  yellow: "\x1b[33m",
+  blue: "\x1b[34m",
+  magenta: "\x1b[35m",
+  cyan: "\x1b[36m",
+  gray: "\x1b[90m",
+  bgRed: "\x1b[41m",
+} as const;
+
+type Color = keyof typeof ANSI;
+
+const LEVEL_COLORS: Record<LogLevelType, Color> = {
+  trace: "gray",
+  debug: "blue",
+  info: "green",
+  warn: "yellow",
+  error: "red",
+  fatal: "bgRed",
+};
+
+/** Trace IDs are colored by hash so one request's lines stand out */
+const TRACE_COLORS: Color[] = ["cyan", "magenta", "blue", "yellow", "green"];
+
+const TRACE_ID_LENGTH = 6;
+const INDENT = "    ";
+
+/**
+ * Exporter that prints human-readable output for local development:
+ * colorized levels, timestamps, short `file:line`, indented props and
+ * stacks, abbreviated trace IDs, and spans as a tree per trace.
+ */
+export class PrettyConsoleExporter implements Exporter {
+  private readonly colors: boolean;
+  private readonly showProps: boolean;
+  private readonly skipConsoleLogs: boolean;
+  private readonly write: (line: string) => void;
+
+  constructor(config: PrettyConsoleExporterConfig = {}) {
+    const stdout = typeof process !== "undefined" ? process.stdout : undefined;
+    this.colors =
+      config.colors ??
+      (!!stdout?.isTTY &&
+        !(typeof process !== "undefined" && process.env.NO_COLOR));
+    this.showProps = config.showProps ?? true;
+    this.skipConsoleLogs = config.skipConsoleLogs ?? false;
+    this.write =
+      config.write ??
+      (stdout?.write
+        ? (line) => stdout.write(`${line}\n`)
+        : // The marker keeps console capture from re-logging the output
+          (line) => console.log("[Lumberjack]", line));
+  }
+
+  async exportLogs(logs: EnrichedLogEntry[]): Promise<ExportResult> {
+    for (const log of logs) {
+      if (this.skipConsoleLogs && log.src === "console") {
+        continue;
+      }
+      this.write(this.formatLog(log));
+    }
+    return { success: true, itemsExported: logs.length };
+  }
+
+  async exportObjects(
+    objects: EnrichedRegisteredObject[]
+  ): Promise<ExportResult> {
+    for (const object of objects) {
+      this.write(
+        `${this.paint("magenta", "object")} ${this.paint(
+          "bold",
+          object.name ?? "(unnamed)"
+        )} ${this.paint("gray", object.id)}`
+      );
+      if (this.showProps) {
+        this.writeFields(object.fields);
+      }
+    }
+    return { success: true, itemsExported: objects.length };
+  }
+
+  async exportSpans(spanRequest: EnrichedSpanRequest): Promise<ExportResult> {
+    const spans = spanRequest.resourceSpans.flatMap(
+      (resourceSpans) =>
+        resourceSpans.scopeSpans?.flatMap((scopeSpans) => scopeSpans.spans) ??
+        []
+    );
+
+    for (const [traceId, traceSpans] of groupBy(spans, (s) => s.traceId)) {
+      this.write(
+        `${this.paint("gray", "trace")} ${this.formatTraceId(traceId)}`
+      );
+      this.writeSpanTree(traceSpans);
+    }
+    return { success: true, itemsExported: spans.length };
+  }
+
+  async exportMetrics(request: EnrichedMetricsRequest): Promise<ExportResult> {
+    let points = 0;
+    for (const metric of request.metrics) {
+      for (const point of metric.points) {
+        points++;
+        const value =
+          "value" in point
+            ? String(point.value)
+            : `count=${point.count} sum=${point.sum} min=${point.min} max=${point.max}`;
+        this.write(
+          `${this.paint("cyan", "metric")} ${metric.name} ${this.paint(
+            "bold",
+            value
+          )}${metric.unit ? ` ${metric.unit}` : ""}${this.formatAttributes(
+            point.attributes
+          )}`
+        );
+      }
+    }
+    return { success: true, itemsExported: points };
+  }
+
+  private formatLog(log: EnrichedLogEntry): string {
+    const level = log.lvl as LogLevelType;
+    const parts = [
+      this.paint("gray", formatTime(log.ts)),
+      this.paint(LEVEL_COLORS[level] ?? "reset", level.toUpperCase().padEnd(5)),
+    ];
+    if (log.tid) {
+      parts.push(this.formatTraceId(log.tid));
+    }
+    parts.push(log.msg);
+    if (log.fl) {
+      parts.push(
+        this.paint(
+          "gray",
+          `${shortenPath(log.fl)}${log.ln ? `:${log.ln}` : ""}`
+        )
+      );
+    }
+
+    const lines = [parts.join(" ")];
+    if (this.showProps && log.props) {
+      lines.push(...this.fieldLines(log.props));
+    }
+    if (log.tb || log.exv) {
+      const stack = log.tb ?? `${log.ext ?? "Error"}: ${log.exv}`;
+      lines.push(
+        ...stack
+          .split("\n")
+          .map((line) => this.paint("red", `${INDENT}${line.trim()}`))
+      );
+    }
+    return lines.join("\n");
+  }
+
+  private writeFields(fields: Record<string, unknown>): void {
+    for (const line of this.fieldLines(fields)) {
+      this.write(line);
+    }
+  }
+
+  private fieldLines(fields: Record<string, unknown>): string[] {
+    return Object.entries(fields).map(([key, value]) => {
+      const formatted =
+        typeof value === "string" ? value : JSON.stringify(value, null, 2);
+      const indented = (formatted ?? String(value)).replace(
+        /\n/g,
+        `\n${INDENT}`
+      );
+      return `${INDENT}${this.paint("dim", `${key}:`)} ${indented}`;
+    });
+  }
+
+  /** Print spans as a tree, children ordered by start time */
+  private writeSpanTree(spans: OTLPSpan[]): void {
+    const ids = new Set(spans.map((span) => span.spanId));
+    const children = groupBy(
+      spans,
+      (span) =>
+        (span.parentSpanId && ids.has(span.parentSpanId)
+          ? span.parentSpanId
+          : undefined) ?? ""
+    );
+    const byStart = (a: OTLPSpan, b: OTLPSpan) =>
+      Number(BigInt(a.startTimeUnixNano) - BigInt(b.startTimeUnixNano));
+
+    const visit = (span: OTLPSpan, prefix: string, last: boolean) => {
+      const branch = last ? "└─ " : "├─ ";
+      this.write(
+        `${this.paint("gray", prefix + branch)}${this.formatSpan(span)}`
+      );
+      const next = prefix + (last ? "   " : "│  ");
+      const nested = (children.get(span.spanId) ?? []).sort(byStart);
+      nested.forEach((child, i) => visit(child, next, i === nested.length - 1));
+    };
+
+    const roots = (children.get("") ?? []).sort(byStart);
+    roots.forEach((root, i) => visit(root, "", i === roots.length - 1));
+  }
+
+  private formatSpan(span: OTLPSpan): string {
+    const durationMs =
+      Number(BigInt(span.endTimeUnixNano) - BigInt(span.startTimeUnixNano)) /
+      1_000_000;
+    const error = span.status?.code === 2;
+    return [
+      this.paint(error ? "red" : "bold", span.name),
+      this.paint("gray", `${durationMs.toFixed(1)}ms`),
+      error
+        ? this.paint(
+            "red",
+            `ERROR${span.status?.message ? ` ${span.status.message}` : ""}`
+          )
+        : "",
+    ]
+      .filter(Boolean)
+      .join(" ");
+  }
+
+  private formatTraceId(traceId: string): string {
+    let hash = 0;
+    for (let i = 0; i < traceId.length; i++) {
+      hash = (hash * 31 + traceId.charCodeAt(i)) >>> 0;
+    }
+    return this.paint(
+      TRACE_COLORS[hash % TRACE_COLORS.length],
+      `[${traceId.slice(0, TRACE_ID_LENGTH)}]`
+    );
+  }
+
+  private formatAttributes(attributes: MetricAttributes): string {
+    const entries = Object.entries(attributes);
+    if (entries.length === 0) {
+      return "";
+    }
+    return ` ${this.paint(
+      "gray",
+      `{${entries.map(([key, value]) => `${key}=${value}`).join(", ")}}`
+    )}`;
+  }
+
+  private paint(color: Color, text: string): string {
+    return this.colors ? `${ANSI[color]}${text}${ANSI.reset}` : text;
+  }
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) ?? []), item]);
+  }
+  return groups;
+}
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number, length = 2) =>
+    String(value).padStart(length, "0");
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(
+    date.getSeconds()
+  )}.${pad(date.getMilliseconds(), 3)}`;
+}
+
+/** Path relative to the working directory, without a `file://` prefix */
+function shortenPath(file: string): string {
+  const path = file.replace(/^file:\/\//, "");
+  const cwd = typeof process !== "undefined" ? process.cwd?.() : undefined;
+  return cwd && path.startsWith(`${cwd}/`) ? path.slice(cwd.length + 1) : path;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import { runProcessors, runSpanProcessors } from "./processors.js";
+import type { EnrichedSpanRequest, OTLPSpan } from "./span-types.js";
+
+function makeSpan(name: string): OTLPSpan {
+  return {
+    traceId: "a".repeat(32),
+    spanId: "b".repeat(16),
+    name,
+    startTimeUnixNano: "0",
+    endTimeUnixNano: "1",
+    attributes: [],
+  };
+}
+
+describe("beforeSend processors", () => {
+  describe("runProcessors", () => {
+    it("should return items unchanged without processors", async () => {
+      const items = [{ value: 1 }];
+      expect(await runProcessors(items, [])).toBe(items);
+    });
+
+    it("should run processors in order", async () => {
+      const result = await runProcessors(
+        [{ value: 1 }],
+        [
+          (item) => ({ value: item.value + 1 }),
+          async (item) => ({ value: item.value * 10 }),
+        ]
+      );
+
+      expect(result).toEqual([{ value: 20 }]);
+    });
+
+    it("should drop items when a processor returns null", async () => {
+      const second = jest.fn((item: { value: number }) => item);
+      const result = await runProcessors(
+        [{ value: 1 }, { value: 2 }],
+        [(item) => (item.value === 1 ? null : item), second]
+      );
+
+      expect(result).toEqual([{ value: 2 }]);
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    it("should skip a processor that throws and keep the item", async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+
+      const result = await runProcessors(
+        [{ value: 1 }],
+        [
+          () => {
+            throw new Error("boom");
+          },
+          (item) => ({ value: item.value + 1 }),
+        ]
+      );
+
+      expect(result).toEqual([{ value: 2 }]);
+      jest.restoreAllMocks();
+    });
+  });
+
+  describe("runSpanProcessors", () => {
+    it("should process spans and prune empty groups", async () => {
+      const request: EnrichedSpanRequest = {
+        resourceSpans: [
+          { scopeSpans: [{ spans: [makeSpan("GET /health")] }] },
+          {
+            scopeSpans: [
+              { spans: [makeSpan("GET /health"), makeSpan("GET /users")] },
+            ],
+          },
+        ],
+        project_name: "test-project",
+        sdk_version: "2",
+      };
+
+      const result = await runSpanProcessors(request, [
+        (span) => (span.name === "GET /health" ? null : span),
+      ]);
+
+      expect(result.resourceSpans).toHaveLength(1);
+      expect(result.resourceSpans[0].scopeSpans?.[0].spans).toEqual([
+        makeSpan("GET /users"),
+      ]);
+      expect(result.project_name).toBe("test-project");
+    });
+  });
+});
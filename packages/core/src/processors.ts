@@ -0,0 +1,90 @@
+import type { RegisteredObject } from "./object-batch.js";
+import type {
+  EnrichedSpanRequest,
+  OTLPSpan,
+  ResourceSpans,
+  ScopeSpans,
+} from "./span-types.js";
+import type { LogEntry } from "./types.js";
+
+/**
+ * A beforeSend processor receives one item and returns it (mutated or
+ * replaced) or `null`/`undefined` to drop it. May be async.
+ */
+export type Processor<T> = (
+  item: T
+) => T | null | undefined | Promise<T | null | undefined>;
+
+export type LogProcessor = Processor<LogEntry>;
+export type ObjectProcessor = Processor<RegisteredObject>;
+export type SpanProcessorFn = Processor<OTLPSpan>;
+
+/**
+ * Run every item through the processor chain in order. Items dropped by a
+ * processor are not passed to later processors. A processor that throws is
+ * skipped for that item so a bug in user code never loses data.
+ */
+export async function runProcessors<T>(
+  items: T[],
+  processors: Processor<T>[] | undefined,
+  debug = false
+): Promise<T[]> {
+  if (!processors || processors.length === 0) {
+    return items;
+  }
+
+  const result: T[] = [];
+  for (const item of items) {
+    let current: T | null | undefined = item;
+
+    for (const processor of processors) {
+      try {
+        current = await processor(current);
+      } catch (error) {
+        console.error("[Lumberjack]: beforeSend processor failed:", error);
+      }
+
+      if (current === null || current === undefined) {
+        break;
+      }
+    }
+
+    if (current !== null && current !== undefined) {
+      result.push(current);
+    } else if (debug) {
+      console.log("[Lumberjack] Item dropped by beforeSend processor");
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Run span processors over every span of an OTLP request, pruning scopes and
+ * resources that end up empty.
+ */
+export async function runSpanProcessors(
+  request: EnrichedSpanRequest,
+  processors: SpanProcessorFn[] | undefined,
+  debug = false
+): Promise<EnrichedSpanRequest> {
+  if (!processors || processors.length === 0) {
+    return request;
+  }
+
+  const resourceSpans: ResourceSpans[] = [];
+  for (const rs of request.resourceSpans) {
+    const scopeSpans: ScopeSpans[] = [];
+    for (const ss of rs.scopeSpans || []) {
+      const spans = await runProcessors(ss.spans, processors, debug);
+      if (spans.length > 0) {
+        scopeSpans.push({ ...ss, spans });
+      }
+    }
+    if (scopeSpans.length > 0) {
+      resourceSpans.push({ ...rs, scopeSpans });
+    }
+  }
+
+  return { ...request, resourceSpans };
+}
@@ -0,0 +1,353 @@
+import { createHash } from "node:crypto";
+import type { RegisteredObject } from "./object-batch.js";
+import type {
+  AnyValue,
+  OTLPSpan,
+  SpanAttributes,
+  SpanExportRequest,
+} from "./span-types.js";
+import type { ExceptionInfo, LogEntry } from "./types.js";
+
+export type RedactionStrategy = "mask" | "hash" | "remove";
+
+export type BuiltInDetector = "email" | "creditCard" | "jwt" | "bearer";
+
+export interface CustomDetector {
+  name: string;
+  pattern: RegExp;
+}
+
+export interface RedactionConfig {
+  /**
+   * Key names whose values are always redacted. Strings match case- and
+   * separator-insensitively (`api_key` matches `apiKey`); RegExps are tested
+   * against the raw key.
+   * @default DEFAULT_REDACTED_KEYS
+   */
+  keys?: Array<string | RegExp>;
+  /**
+   * Patterns searched for inside string values
+   * @default ["email", "creditCard", "jwt", "bearer"]
+   */
+  detectors?: Array<BuiltInDetector | CustomDetector>;
+  /**
+   * What to do with sensitive data
+   * @default "mask"
+   */
+  strategy?: RedactionStrategy;
+  /**
+   * Replacement used by the mask strategy
+   * @default "[REDACTED]"
+   */
+  mask?: string;
+  /**
+   * Maximum depth walked inside nested values
+   * @default 10
+   */
+  maxDepth?: number;
+}
+
+export const DEFAULT_REDACTED_KEYS = [
+  "password",
+  "passwd",
+  "secret",
+  "clientSecret",
+  "token",
+  "accessToken",
+  "refreshToken",
+  "idToken",
+  "apiKey",
+  "privateKey",
+  "authorization",
+  "cookie",
+  "setCookie",
+  "ssn",
+  "creditCard",
+  "cardNumber",
+  "cvv",
+];
+
+const BUILT_IN_DETECTORS: Record<BuiltInDetector, RegExp> = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  creditCard: /\b\d(?:[ -]?\d){12,18}\b/g,
+  jwt: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+  bearer: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi,
+};
+
+interface CompiledDetector {
+  name: string;
+  pattern: RegExp;
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** Luhn checksum, used to avoid masking arbitrary long numbers */
+function passesLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, "");
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = Number(digits[i]);
+    if (double) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Declarative PII redaction applied to logs, registered objects and spans
+ * right before they are handed to the exporter. Never mutates its input.
+ */
+export class Redactor {
+  private readonly keyNames: Set<string>;
+  private readonly keyPatterns: RegExp[];
+  private readonly detectors: CompiledDetector[];
+  private readonly strategy: RedactionStrategy;
+  private readonly mask: string;
+  private readonly maxDepth: number;
+
+  constructor(config: RedactionConfig = {}) {
+    const keys = config.keys || DEFAULT_REDACTED_KEYS;
+    this.keyNames = new Set(
+      keys.filter((k): k is string => typeof k === "string").map(normalizeKey)
+    );
+    this.keyPatterns = keys.filter((k): k is RegExp => k instanceof RegExp);
+
+    const detectors = config.detectors || [
+      "email",
+      "creditCard",
+      "jwt",
+      "bearer",
+    ];
+    this.detectors = detectors.map((detector) =>
+      typeof detector === "string"
+        ? { name: detector, pattern: BUILT_IN_DETECTORS[detector] }
+        : {
+            name: detector.name,
+            // Detectors are always applied globally
+            pattern: detector.pattern.global
+              ? detector.pattern
+              : new RegExp(
+                  detector.pattern.source,
+                  detector.pattern.flags + "g"
+                ),
+          }
+    );
+
+    this.strategy = config.strategy || "mask";
+    this.mask = config.mask ?? "[REDACTED]";
+    this.maxDepth = config.maxDepth ?? 10;
+  }
+
+  isSensitiveKey(key: string): boolean {
+    return (
+      this.keyNames.has(normalizeKey(key)) ||
+      this.keyPatterns.some((pattern) => pattern.test(key))
+    );
+  }
+
+  /** Replace every detector match inside a string */
+  redactString(value: string): string {
+    let result = value;
+    for (const detector of this.detectors) {
+      detector.pattern.lastIndex = 0;
+      result = result.replace(detector.pattern, (match) => {
+        if (detector.name === "creditCard" && !passesLuhn(match)) {
+          return match;
+        }
+        return this.replacement(match);
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Redact a value found under `key`. Returns `undefined` when the value
+   * should be removed entirely.
+   */
+  redactValue(value: any, key?: string, depth = 0, seen = new WeakSet()): any {
+    if (key !== undefined && this.isSensitiveKey(key)) {
+      return this.strategy === "remove" ? undefined : this.replacement(value);
+    }
+
+    if (typeof value === "string") {
+      return this.redactString(value);
+    }
+
+    if (!value || typeof value !== "object" || value instanceof Date) {
+      return value;
+    }
+
+    if (depth >= this.maxDepth || seen.has(value)) {
+      return value;
+    }
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      return value
+        .map((item) => this.redactValue(item, undefined, depth + 1, seen))
+        .filter((item) => item !== undefined);
+    }
+
+    if (value instanceof Error) {
+      return value;
+    }
+
+    const result: Record<string, any> = {};
+    for (const [childKey, childValue] of Object.entries(value)) {
+      const redacted = this.redactValue(childValue, childKey, depth + 1, seen);
+      if (redacted !== undefined) {
+        result[childKey] = redacted;
+      }
+    }
+    return result;
+  }
+
+  redactLog<T extends LogEntry>(entry: T): T {
+    const result: T = {
+      ...entry,
+      message: this.redactString(entry.message),
+    };
+
+    if (entry.props) {
+      result.props = this.redactValue(entry.props);
+    }
+
+    if (entry.exception) {
+      result.exception = this.redactException(entry.exception);
+    }
+
+    return result;
+  }
+
+  redactObject<T extends RegisteredObject>(obj: T): T {
+    return {
+      ...obj,
+      fields: this.redactValue(obj.fields),
+    };
+  }
+
+  redactSpan(span: OTLPSpan): OTLPSpan {
+    return {
+      ...span,
+      attributes: this.redactAttributes(span.attributes),
+      events: span.events?.map((event) => ({
+        ...event,
+        attributes: this.redactAttributes(event.attributes),
+      })),
+      links: span.links?.map((link) => ({
+        ...link,
+        attributes: this.redactAttributes(link.attributes),
+      })),
+    };
+  }
+
+  redactSpanRequest<T extends SpanExportRequest>(request: T): T {
+    return {
+      ...request,
+      resourceSpans: request.resourceSpans.map((rs) => ({
+        ...rs,
+        scopeSpans: (rs.scopeSpans || []).map((ss) => ({
+          ...ss,
+          spans: ss.spans.map((span) => this.redactSpan(span)),
+        })),
+      })),
+    };
+  }
+
+  redactAttributes(
+    attributes: SpanAttributes | undefined
+  ): SpanAttributes | undefined {
+    if (!attributes) {
+      return attributes;
+    }
+
+    const result: SpanAttributes = [];
+    for (const { key, value } of attributes) {
+      if (this.isSensitiveKey(key)) {
+        if (this.strategy !== "remove") {
+          result.push({
+            key,
+            value: {
+              stringValue: this.replacement(this.anyValueToString(value)),
+            },
+          });
+        }
+        continue;
+      }
+      result.push({ key, value: this.redactAnyValue(value) });
+    }
+    return result;
+  }
+
+  private redactException(exception: ExceptionInfo): ExceptionInfo {
+    const result: ExceptionInfo = {
+      ...exception,
+      message: this.redactString(exception.message),
+      stack: this.redactString(exception.stack),
+    };
+
+    if (exception.properties) {
+      result.properties = this.redactValue(exception.properties);
+    }
+    if (exception.cause) {
+      result.cause = this.redactException(exception.cause);
+    }
+    if (exception.errors) {
+      result.errors = exception.errors.map((e) => this.redactException(e));
+    }
+
+    return result;
+  }
+
+  private redactAnyValue(value: AnyValue): AnyValue {
+    if ("stringValue" in value) {
+      return { stringValue: this.redactString(value.stringValue) };
+    }
+    if ("arrayValue" in value) {
+      return {
+        arrayValue: {
+          values: value.arrayValue.values.map((v) => this.redactAnyValue(v)),
+        },
+      };
+    }
+    if ("kvlistValue" in value) {
+      return {
+        kvlistValue: {
+          values: this.redactAttributes(value.kvlistValue.values) || [],
+        },
+      };
+    }
+    return value;
+  }
+
+  private anyValueToString(value: AnyValue): string {
+    if ("stringValue" in value) return value.stringValue;
+    if ("boolValue" in value) return String(value.boolValue);
+    if ("intValue" in value) return value.intValue;
+    if ("doubleValue" in value) return String(value.doubleValue);
+    return JSON.stringify(value);
+  }
+
+  private replacement(value: unknown): string {
+    switch (this.strategy) {
+      case "hash": {
+        const input = typeof value === "string" ? value : JSON.stringify(value);
+        return `sha256:${createHash("sha256")
+          .update(input ?? "")
+          .digest("hex")
+          .substring(0, 16)}`;
+      }
+      case "remove":
+        return "";
+      default:
+        return this.mask;
+    }
+  }
+}
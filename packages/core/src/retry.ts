@@ -0,0 +1,108 @@
+export interface RetryOptions {
+  /**
+   * Total number of attempts, including the first one
+   * @default 3
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry
+   * @default 500
+   */
+  initialDelayMs?: number;
+  /**
+   * Upper bound for any single delay, including Retry-After values
+   * @default 30000
+   */
+  maxDelayMs?: number;
+  /**
+   * Growth factor applied to the delay after each attempt
+   * @default 2
+   */
+  multiplier?: number;
+  /**
+   * Random spread applied to each delay, as a fraction of the delay
+   * (0.2 means ±20%)
+   * @default 0.2
+   */
+  jitter?: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 30000,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+export function resolveRetryOptions(
+  options: RetryOptions = {}
+): Required<RetryOptions> {
+  return {
+    maxAttempts: Math.max(
+      1,
+      options.maxAttempts ?? DEFAULT_RETRY_OPTIONS.maxAttempts
+    ),
+    initialDelayMs:
+      options.initialDelayMs ?? DEFAULT_RETRY_OPTIONS.initialDelayMs,
+    maxDelayMs: options.maxDelayMs ?? DEFAULT_RETRY_OPTIONS.maxDelayMs,
+    multiplier: options.multiplier ?? DEFAULT_RETRY_OPTIONS.multiplier,
+    jitter: Math.min(
+      1,
+      Math.max(0, options.jitter ?? DEFAULT_RETRY_OPTIONS.jitter)
+    ),
+  };
+}
+
+/**
+ * Server errors, rate limiting and request timeouts are worth retrying.
+ * Other 4xx responses (bad payload, auth failures) will fail the same way
+ * again.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into
+ * milliseconds from now.
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now = Date.now()
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/** Exponential backoff with jitter for the given (1-based) attempt */
+export function computeBackoff(
+  attempt: number,
+  options: Required<RetryOptions>,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(
+    options.maxDelayMs,
+    options.initialDelayMs * Math.pow(options.multiplier, attempt - 1)
+  );
+  const spread = base * options.jitter;
+  const delay = base - spread + random() * spread * 2;
+  return Math.round(Math.min(options.maxDelayMs, Math.max(0, delay)));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
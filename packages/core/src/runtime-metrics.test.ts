@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { MetricsRegistry } from "./metrics.js";
+import {
+  RuntimeMetricsCollector,
+  RuntimeMetricsConfig,
+} from "./runtime-metrics.js";
+
+describe("RuntimeMetricsCollector", () => {
+  let collector: RuntimeMetricsCollector | null = null;
+
+  const setup = (config: RuntimeMetricsConfig = {}) => {
+    const onSample = jest.fn();
+    collector = new RuntimeMetricsCollector(
+      { interval: 60000, ...config },
+      onSample
+    );
+    collector.start();
+    return { collector, onSample };
+  };
+
+  afterEach(() => {
+    collector?.stop();
+    collector = null;
+  });
+
+  it("should sample process health", () => {
+    const { collector, onSample } = setup();
+
+    const snapshot = collector.sample();
+
+    expect(snapshot.memory.heapUsed).toBeGreaterThan(0);
+    expect(snapshot.memory.heapLimit).toBeGreaterThan(snapshot.memory.heapUsed);
+    expect(snapshot.memory.rss).toBeGreaterThan(0);
+    expect(snapshot.eventLoopUtilization).toBeGreaterThanOrEqual(0);
+    expect(snapshot.eventLoopUtilization).toBeLessThanOrEqual(1);
+    expect(snapshot.eventLoopDelay.p99).toBeGreaterThanOrEqual(
+      snapshot.eventLoopDelay.p50
+    );
+    expect(snapshot.cpu.percent).toBeGreaterThanOrEqual(0);
+    expect(snapshot.activeHandles).toBeGreaterThan(0);
+    expect(snapshot.gc).toEqual({
+      count: expect.any(Number),
+      pauseMs: expect.any(Number),
+    });
+    expect(collector.latest).toBe(snapshot);
+    expect(onSample).toHaveBeenCalledWith(snapshot, []);
+  });
+
+  it("should report a threshold once until it recovers", () => {
+    const { collector, onSample } = setup({
+      thresholds: { rssBytes: 1, heapUsedRatio: 1 },
+    });
+
+    collector.sample();
+    collector.sample();
+
+    expect(onSample.mock.calls[0][1]).toEqual([
+      { metric: "rssBytes", value: expect.any(Number), threshold: 1 },
+    ]);
+    expect(onSample.mock.calls[1][1]).toEqual([]);
+  });
+
+  it("should expose samples as metrics until unregistered", () => {
+    const { collector } = setup();
+    const registry = new MetricsRegistry();
+
+    const unregister = collector.registerMetrics(registry, {
+      environment: "test",
+    });
+    collector.sample();
+    const metrics = registry.collect();
+
+    const rss = metrics.find(
+      (metric) => metric.name === "process.memory.usage"
+    );
+    expect(rss).toMatchObject({ kind: "gauge", unit: "By" });
+    expect(rss?.points[0].attributes).toEqual({ environment: "test" });
+    const cpu = metrics.find((metric) => metric.name === "process.cpu.time");
+    expect(cpu?.points.map((point) => point.attributes["cpu.mode"])).toEqual([
+      "user",
+      "system",
+    ]);
+
+    unregister();
+    collector.sample();
+    expect(registry.collect().map((metric) => metric.name)).not.toContain(
+      "process.memory.usage"
+    );
+  });
+});
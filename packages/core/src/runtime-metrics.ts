@@ -0,0 +1,322 @@
+import {
+  constants,
+  monitorEventLoopDelay,
+  performance,
+  PerformanceObserver,
+  type EventLoopUtilization,
+  type IntervalHistogram,
+} from "perf_hooks";
+import { getHeapStatistics } from "v8";
+import type {
+  Counter,
+  Histogram,
+  MetricAttributes,
+  MetricsRegistry,
+  ObservableGauge,
+} from "./metrics.js";
+
+export interface RuntimeMetricsThresholds {
+  /** p99 event-loop delay, in milliseconds */
+  eventLoopDelayMs?: number;
+  /** Share of time the event loop was busy, from 0 to 1 */
+  eventLoopUtilization?: number;
+  /** Heap used as a share of the V8 heap size limit, from 0 to 1 */
+  heapUsedRatio?: number;
+  rssBytes?: number;
+  /** Process CPU time as a percentage of one core */
+  cpuPercent?: number;
+  /** Total GC pause time within one sampling interval, in milliseconds */
+  gcPauseMs?: number;
+}
+
+export interface RuntimeMetricsConfig {
+  /**
+   * How often the process is sampled, in milliseconds
+   * @default 10000
+   */
+  interval?: number;
+  /**
+   * - `metrics`: gauges and counters in `Lumberjack.metrics`, exported with
+   *   the other metrics
+   * - `logs`: an info log with the full sample every interval
+   * @default "metrics"
+   */
+  reportAs?: "metrics" | "logs";
+  /** A warning is logged when a sample first crosses one of these */
+  thresholds?: RuntimeMetricsThresholds;
+}
+
+export interface RuntimeMetricsSnapshot {
+  /** Event-loop delay over the interval, in milliseconds */
+  eventLoopDelay: {
+    min: number;
+    max: number;
+    mean: number;
+    p50: number;
+    p90: number;
+    p99: number;
+  };
+  eventLoopUtilization: number;
+  memory: {
+    heapUsed: number;
+    heapTotal: number;
+    heapLimit: number;
+    rss: number;
+    external: number;
+  };
+  /** Garbage collections that finished during the interval */
+  gc: { count: number; pauseMs: number };
+  activeHandles: number;
+  /** CPU time spent during the interval, in milliseconds */
+  cpu: { user: number; system: number; percent: number };
+}
+
+export interface ThresholdBreach {
+  metric: keyof RuntimeMetricsThresholds;
+  value: number;
+  threshold: number;
+}
+
+const GC_KINDS: Record<number, string> = {
+  [constants.NODE_PERFORMANCE_GC_MINOR]: "minor",
+  [constants.NODE_PERFORMANCE_GC_MAJOR]: "major",
+  [constants.NODE_PERFORMANCE_GC_INCREMENTAL]: "incremental",
+  [constants.NODE_PERFORMANCE_GC_WEAKCB]: "weakcb",
+};
+
+const NS_PER_MS = 1e6;
+
+/**
+ * Samples Node.js process health on a timer: event-loop delay and
+ * utilization, memory, GC pauses, active handles and CPU usage. Each sample
+ * covers the time since the previous one.
+ */
+export class RuntimeMetricsCollector {
+  private readonly interval: number;
+  private readonly thresholds: RuntimeMetricsThresholds;
+  private timer: NodeJS.Timeout | null = null;
+  private delayHistogram: IntervalHistogram | null = null;
+  private gcObserver: PerformanceObserver | null = null;
+  private lastUtilization: EventLoopUtilization | null = null;
+  private lastCpu: NodeJS.CpuUsage | null = null;
+  private lastSampleAt = 0;
+  private gcCount = 0;
+  private gcPauseMs = 0;
+  private breached: Set<keyof RuntimeMetricsThresholds> = new Set();
+  private latestSnapshot: RuntimeMetricsSnapshot | null = null;
+  private instruments: {
+    gcDuration: Histogram;
+    cpuTime: Counter;
+    attributes: MetricAttributes;
+  } | null = null;
+
+  constructor(
+    config: RuntimeMetricsConfig,
+    private readonly onSample: (
+      snapshot: RuntimeMetricsSnapshot,
+      breaches: ThresholdBreach[]
+    ) => void
+  ) {
+    this.interval = config.interval ?? 10000;
+    this.thresholds = config.thresholds ?? {};
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.delayHistogram = monitorEventLoopDelay({ resolution: 20 });
+    this.delayHistogram.enable();
+
+    this.gcObserver = new PerformanceObserver((list) => {
+      for (const entry of list.getEntries()) {
+        this.gcCount++;
+        this.gcPauseMs += entry.duration;
+        const kind = (entry.detail as { kind?: number } | undefined)?.kind;
+        this.instruments?.gcDuration.record(entry.duration, {
+          ...this.instruments.attributes,
+          "gc.kind": (kind !== undefined && GC_KINDS[kind]) || "unknown",
+        });
+      }
+    });
+    this.gcObserver.observe({ entryTypes: ["gc"] });
+
+    this.lastUtilization = performance.eventLoopUtilization();
+    this.lastCpu = process.cpuUsage();
+    this.lastSampleAt = performance.now();
+
+    this.timer = setInterval(() => this.sample(), this.interval);
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.delayHistogram?.disable();
+    this.delayHistogram = null;
+    this.gcObserver?.disconnect();
+    this.gcObserver = null;
+  }
+
+  /** The most recent sample, or null before the first interval ends */
+  get latest(): RuntimeMetricsSnapshot | null {
+    return this.latestSnapshot;
+  }
+
+  /** Take a sample now and start a new interval */
+  sample(): RuntimeMetricsSnapshot {
+    const now = performance.now();
+    const elapsedMs = Math.max(now - this.lastSampleAt, 1);
+    this.lastSampleAt = now;
+
+    const delay = this.delayHistogram;
+    const toMs = (ns: number) => (Number.isFinite(ns) ? ns / NS_PER_MS : 0);
+    const eventLoopDelay = {
+      min: toMs(delay?.min ?? 0),
+      max: toMs(delay?.max ?? 0),
+      mean: toMs(delay?.mean ?? 0),
+      p50: toMs(delay?.percentile(50) ?? 0),
+      p90: toMs(delay?.percentile(90) ?? 0),
+      p99: toMs(delay?.percentile(99) ?? 0),
+    };
+    delay?.reset();
+
+    const utilization = performance.eventLoopUtilization(
+      this.lastUtilization ?? undefined
+    );
+    this.lastUtilization = performance.eventLoopUtilization();
+
+    const cpu = process.cpuUsage(this.lastCpu ?? undefined);
+    this.lastCpu = process.cpuUsage();
+    const cpuUserMs = cpu.user / 1000;
+    const cpuSystemMs = cpu.system / 1000;
+
+    const memory = process.memoryUsage();
+
+    const snapshot: RuntimeMetricsSnapshot = {
+      eventLoopDelay,
+      eventLoopUtilization: utilization.utilization,
+      memory: {
+        heapUsed: memory.heapUsed,
+        heapTotal: memory.heapTotal,
+        heapLimit: getHeapStatistics().heap_size_limit,
+        rss: memory.rss,
+        external: memory.external,
+      },
+      gc: { count: this.gcCount, pauseMs: this.gcPauseMs },
+      activeHandles: process.getActiveResourcesInfo?.().length ?? 0,
+      cpu: {
+        user: cpuUserMs,
+        system: cpuSystemMs,
+        percent: ((cpuUserMs + cpuSystemMs) / elapsedMs) * 100,
+      },
+    };
+    this.gcCount = 0;
+    this.gcPauseMs = 0;
+
+    if (this.instruments) {
+      const { cpuTime, attributes } = this.instruments;
+      cpuTime.add(cpuUserMs, { ...attributes, "cpu.mode": "user" });
+      cpuTime.add(cpuSystemMs, { ...attributes, "cpu.mode": "system" });
+    }
+
+    this.latestSnapshot = snapshot;
+    this.onSample(snapshot, this.checkThresholds(snapshot));
+    return snapshot;
+  }
+
+  /**
+   * Report samples as metrics: gauges read the latest sample, while GC
+   * pauses and CPU time are recorded as they happen. Returns a function
+   * that removes the gauges.
+   */
+  registerMetrics(
+    registry: MetricsRegistry,
+    attributes: MetricAttributes = {}
+  ): () => void {
+    this.instruments = {
+      gcDuration: registry.histogram("v8js.gc.duration", {
+        description: "Garbage collection pause duration",
+        unit: "ms",
+        boundaries: [1, 5, 10, 25, 50, 100, 250, 500, 1000],
+      }),
+      cpuTime: registry.counter("process.cpu.time", {
+        description: "CPU time spent by the process",
+        unit: "ms",
+      }),
+      attributes,
+    };
+
+    const gauge = (
+      name: string,
+      unit: string,
+      read: (snapshot: RuntimeMetricsSnapshot) => number
+    ): ObservableGauge =>
+      registry.observableGauge(
+        name,
+        (result) => {
+          if (this.latestSnapshot) {
+            result.observe(read(this.latestSnapshot), attributes);
+          }
+        },
+        { unit }
+      );
+
+    const gauges = [
+      gauge("nodejs.eventloop.delay.min", "ms", (s) => s.eventLoopDelay.min),
+      gauge("nodejs.eventloop.delay.max", "ms", (s) => s.eventLoopDelay.max),
+      gauge("nodejs.eventloop.delay.mean", "ms", (s) => s.eventLoopDelay.mean),
+      gauge("nodejs.eventloop.delay.p50", "ms", (s) => s.eventLoopDelay.p50),
+      gauge("nodejs.eventloop.delay.p90", "ms", (s) => s.eventLoopDelay.p90),
+      gauge("nodejs.eventloop.delay.p99", "ms", (s) => s.eventLoopDelay.p99),
+      gauge("nodejs.eventloop.utilization", "1", (s) => s.eventLoopUtilization),
+      gauge("v8js.memory.heap.used", "By", (s) => s.memory.heapUsed),
+      gauge("v8js.memory.heap.total", "By", (s) => s.memory.heapTotal),
+      gauge("v8js.memory.heap.limit", "By", (s) => s.memory.heapLimit),
+      gauge("process.memory.usage", "By", (s) => s.memory.rss),
+      gauge("nodejs.active_handles", "{handle}", (s) => s.activeHandles),
+      gauge("process.cpu.utilization", "%", (s) => s.cpu.percent),
+    ];
+
+    return () => {
+      gauges.forEach((g) => g.remove());
+      this.instruments = null;
+    };
+  }
+
+  /** Thresholds crossed by this sample that were not crossed by the last */
+  private checkThresholds(snapshot: RuntimeMetricsSnapshot): ThresholdBreach[] {
+    const values: Record<keyof RuntimeMetricsThresholds, number> = {
+      eventLoopDelayMs: snapshot.eventLoopDelay.p99,
+      eventLoopUtilization: snapshot.eventLoopUtilization,
+      heapUsedRatio: snapshot.memory.heapLimit
+        ? snapshot.memory.heapUsed / snapshot.memory.heapLimit
+        : 0,
+      rssBytes: snapshot.memory.rss,
+      cpuPercent: snapshot.cpu.percent,
+      gcPauseMs: snapshot.gc.pauseMs,
+    };
+
+    const breaches: ThresholdBreach[] = [];
+    for (const metric of Object.keys(values) as Array<
+      keyof RuntimeMetricsThresholds
+    >) {
+      const threshold = this.thresholds[metric];
+      if (threshold === undefined) {
+        continue;
+      }
+
+      const value = values[metric];
+      if (value <= threshold) {
+        this.breached.delete(metric);
+      } else if (!this.breached.has(metric)) {
+        this.breached.add(metric);
+        breaches.push({ metric, value, threshold });
+      }
+    }
+    return breaches;
+  }
+}
@@ -0,0 +1,369 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  context,
+  createTraceState,
+  ROOT_CONTEXT,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  TraceFlags,
+} from "@opentelemetry/api";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  InMemorySpanExporter,
+  NodeTracerProvider,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-node";
+import {
+  convertReadableSpansToOTLP,
+  convertSpanAttributesToOTLP,
+  convertValueToOTLP,
+} from "./span-batch.js";
+import type { AnyValue, OTLPSpan } from "./span-types.js";
+
+const ANY_VALUE_KEYS = [
+  "stringValue",
+  "boolValue",
+  "intValue",
+  "doubleValue",
+  "arrayValue",
+  "kvlistValue",
+  "bytesValue",
+];
+
+/** An OTLP AnyValue sets at most one of the value fields */
+function expectValidAnyValue(value: AnyValue): void {
+  const keys = Object.keys(value);
+  expect(keys.length).toBeLessThanOrEqual(1);
+  keys.forEach((key) => expect(ANY_VALUE_KEYS).toContain(key));
+
+  if ("arrayValue" in value) {
+    value.arrayValue.values.forEach(expectValidAnyValue);
+  }
+  if ("kvlistValue" in value) {
+    value.kvlistValue.values.forEach((kv) => expectValidAnyValue(kv.value));
+  }
+}
+
+function createTracing(
+  attributes: Record<string, string> = { "service.name": "checkout" },
+  spanLimits = {}
+) {
+  const exporter = new InMemorySpanExporter();
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes(attributes),
+    spanLimits,
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+  return { exporter, provider };
+}
+
+function convertOne(span: ReadableSpan): OTLPSpan {
+  const request = convertReadableSpansToOTLP([span]);
+  return request.resourceSpans[0].scopeSpans![0].spans[0];
+}
+
+describe("convertValueToOTLP", () => {
+  it("should distinguish integers from doubles", () => {
+    expect(convertValueToOTLP(42)).toEqual({ intValue: "42" });
+    expect(convertValueToOTLP(-3)).toEqual({ intValue: "-3" });
+    expect(convertValueToOTLP(0.25)).toEqual({ doubleValue: 0.25 });
+    expect(convertValueToOTLP(2 ** 60)).toEqual({ doubleValue: 2 ** 60 });
+  });
+
+  it("should encode integers as int64 decimal strings", () => {
+    const large = BigInt("9223372036854775807");
+
+    expect(convertValueToOTLP(Number.MAX_SAFE_INTEGER)).toEqual({
+      intValue: "9007199254740991",
+    });
+    expect(convertValueToOTLP(large)).toEqual({
+      intValue: "9223372036854775807",
+    });
+    // JSON.parse would round a numeric int64 to the nearest double
+    expect(JSON.parse(JSON.stringify(convertValueToOTLP(large)))).toEqual({
+      intValue: "9223372036854775807",
+    });
+    expect(convertValueToOTLP(large + BigInt(1))).toEqual({
+      stringValue: "9223372036854775808",
+    });
+  });
+
+  it("should convert arrays to arrayValue", () => {
+    expect(convertValueToOTLP(["a", "b"])).toEqual({
+      arrayValue: { values: [{ stringValue: "a" }, { stringValue: "b" }] },
+    });
+    expect(convertValueToOTLP([1, 1.5, null, true])).toEqual({
+      arrayValue: {
+        values: [
+          { intValue: "1" },
+          { doubleValue: 1.5 },
+          {},
+          { boolValue: true },
+        ],
+      },
+    });
+  });
+
+  it("should convert objects to kvlistValue without following cycles", () => {
+    const value: any = { id: 7, tags: ["x"] };
+    value.self = value;
+
+    const converted = convertValueToOTLP(value);
+
+    expect(converted).toEqual({
+      kvlistValue: {
+        values: [
+          { key: "id", value: { intValue: "7" } },
+          {
+            key: "tags",
+            value: { arrayValue: { values: [{ stringValue: "x" }] } },
+          },
+          { key: "self", value: { stringValue: "[Circular]" } },
+        ],
+      },
+    });
+    expectValidAnyValue(converted);
+  });
+});
+
+describe("convertSpanAttributesToOTLP", () => {
+  it("should skip unset attributes", () => {
+    expect(convertSpanAttributesToOTLP({ a: "x", b: undefined, c: 0 })).toEqual(
+      [
+        { key: "a", value: { stringValue: "x" } },
+        { key: "c", value: { intValue: "0" } },
+      ]
+    );
+  });
+});
+
+describe("convertReadableSpansToOTLP", () => {
+  it("should convert a span to OTLP JSON", () => {
+    const { exporter, provider } = createTracing();
+    const tracer = provider.getTracer("app", "1.2.3");
+
+    const span = tracer.startSpan("GET /cart", {
+      kind: SpanKind.SERVER,
+      attributes: {
+        "http.status_code": 200,
+        "sample.ratio": 0.25,
+        "http.methods": ["GET", "HEAD"],
+        cached: false,
+      },
+    });
+    span.addEvent("cache.miss", { "cache.latency": 1.5 });
+    span.setStatus({ code: SpanStatusCode.ERROR, message: "boom" });
+    span.end();
+
+    const [readable] = exporter.getFinishedSpans();
+    const otlp = convertOne(readable);
+
+    expect(otlp).toMatchObject({
+      traceId: readable.spanContext().traceId,
+      spanId: readable.spanContext().spanId,
+      name: "GET /cart",
+      kind: 2, // SPAN_KIND_SERVER
+      flags: TraceFlags.SAMPLED | 0x100,
+      droppedAttributesCount: 0,
+      droppedEventsCount: 0,
+      droppedLinksCount: 0,
+      links: [],
+      status: { code: 2, message: "boom" },
+    });
+    expect(otlp.parentSpanId).toBeUndefined();
+    expect(otlp.attributes).toEqual([
+      { key: "http.status_code", value: { intValue: "200" } },
+      { key: "sample.ratio", value: { doubleValue: 0.25 } },
+      {
+        key: "http.methods",
+        value: {
+          arrayValue: {
+            values: [{ stringValue: "GET" }, { stringValue: "HEAD" }],
+          },
+        },
+      },
+      { key: "cached", value: { boolValue: false } },
+    ]);
+    expect(otlp.events).toEqual([
+      {
+        timeUnixNano: expect.stringMatching(/^\d+$/),
+        name: "cache.miss",
+        attributes: [{ key: "cache.latency", value: { doubleValue: 1.5 } }],
+        droppedAttributesCount: 0,
+      },
+    ]);
+    expect(BigInt(otlp.endTimeUnixNano)).toBeGreaterThanOrEqual(
+      BigInt(otlp.startTimeUnixNano)
+    );
+    otlp.attributes!.forEach(({ value }) => expectValidAnyValue(value));
+  });
+
+  it("should read the parent from the v2 parentSpanContext", () => {
+    const { exporter, provider } = createTracing();
+    const tracer = provider.getTracer("app");
+
+    const parent = tracer.startSpan("parent");
+    const child = tracer.startSpan(
+      "child",
+      {},
+      trace.setSpan(context.active(), parent)
+    );
+    child.end();
+    parent.end();
+
+    const [readableChild] = exporter.getFinishedSpans();
+    const otlp = convertOne(readableChild);
+
+    expect(otlp.parentSpanId).toBe(parent.spanContext().spanId);
+    expect(otlp.flags! & 0x200).toBe(0);
+  });
+
+  it("should flag remote parents and carry the trace state", () => {
+    const { exporter, provider } = createTracing();
+    const remote = trace.setSpanContext(ROOT_CONTEXT, {
+      traceId: "1".repeat(32),
+      spanId: "2".repeat(16),
+      traceFlags: TraceFlags.SAMPLED,
+      isRemote: true,
+      traceState: createTraceState("vendor=abc"),
+    });
+
+    provider.getTracer("app").startSpan("server", {}, remote).end();
+
+    const otlp = convertOne(exporter.getFinishedSpans()[0]);
+
+    expect(otlp.traceId).toBe("1".repeat(32));
+    expect(otlp.parentSpanId).toBe("2".repeat(16));
+    expect(otlp.traceState).toBe("vendor=abc");
+    expect(otlp.flags).toBe(TraceFlags.SAMPLED | 0x100 | 0x200);
+  });
+
+  it("should fall back to the v1 parentSpanId field", () => {
+    const { exporter, provider } = createTracing();
+    provider.getTracer("app").startSpan("legacy").end();
+    const [readable] = exporter.getFinishedSpans();
+
+    const legacy = Object.assign(Object.create(readable), {
+      parentSpanContext: undefined,
+      parentSpanId: "3".repeat(16),
+    });
+
+    expect(convertOne(legacy).parentSpanId).toBe("3".repeat(16));
+  });
+
+  it("should include links and dropped counts", () => {
+    const { exporter, provider } = createTracing(
+      { "service.name": "checkout" },
+      { attributeCountLimit: 1, eventCountLimit: 1 }
+    );
+    const linked = {
+      traceId: "4".repeat(32),
+      spanId: "5".repeat(16),
+      traceFlags: TraceFlags.SAMPLED,
+      isRemote: true,
+      traceState: createTraceState("k=v"),
+    };
+
+    const span = provider.getTracer("app").startSpan("batch", {
+      attributes: { a: 1, b: 2 },
+      links: [{ context: linked, attributes: { "link.kind": "batch" } }],
+    });
+    span.addEvent("first");
+    span.addEvent("second");
+    span.end();
+
+    const otlp = convertOne(exporter.getFinishedSpans()[0]);
+
+    expect(otlp.droppedAttributesCount).toBe(1);
+    expect(otlp.droppedEventsCount).toBe(1);
+    expect(otlp.links).toEqual([
+      {
+        traceId: "4".repeat(32),
+        spanId: "5".repeat(16),
+        traceState: "k=v",
+        attributes: [{ key: "link.kind", value: { stringValue: "batch" } }],
+        droppedAttributesCount: 0,
+        flags: TraceFlags.SAMPLED | 0x100 | 0x200,
+      },
+    ]);
+  });
+
+  it("should send all resource attributes", () => {
+    const { exporter, provider } = createTracing({
+      "service.name": "checkout",
+      "service.version": "1.4.0",
+      "deployment.environment": "prod",
+    });
+    provider.getTracer("app").startSpan("op").end();
+
+    const request = convertReadableSpansToOTLP(exporter.getFinishedSpans());
+
+    expect(request.resourceSpans[0].resource).toEqual({
+      attributes: [
+        { key: "service.name", value: { stringValue: "checkout" } },
+        { key: "service.version", value: { stringValue: "1.4.0" } },
+        { key: "deployment.environment", value: { stringValue: "prod" } },
+      ],
+      droppedAttributesCount: 0,
+    });
+  });
+
+  it("should group spans by resource and instrumentation scope", () => {
+    const first = createTracing({ "service.name": "api" });
+    const second = createTracing({ "service.name": "worker" });
+
+    first.provider.getTracer("http", "1.0.0").startSpan("a").end();
+    first.provider.getTracer("db").startSpan("b").end();
+    first.provider.getTracer("http", "1.0.0").startSpan("c").end();
+    second.provider.getTracer("queue").startSpan("d").end();
+
+    const request = convertReadableSpansToOTLP([
+      ...first.exporter.getFinishedSpans(),
+      ...second.exporter.getFinishedSpans(),
+    ]);
+
+    expect(request.resourceSpans).toHaveLength(2);
+    const [api, worker] = request.resourceSpans;
+    expect(
+      api.scopeSpans!.map((group) => ({
+        scope: group.scope,
+        spans: group.spans.map((span) => span.name),
+      }))
+    ).toEqual([
+      { scope: { name: "http", version: "1.0.0" }, spans: ["a", "c"] },
+      { scope: { name: "db" }, spans: ["b"] },
+    ]);
+    expect(worker.scopeSpans!.map((group) => group.scope)).toEqual([
+      { name: "queue" },
+    ]);
+  });
+
+  it("should produce JSON that survives a round trip", () => {
+    const { exporter, provider } = createTracing();
+    provider
+      .getTracer("app")
+      .startSpan("op", { attributes: { ids: [1, 2], ratio: 0.5 } })
+      .end();
+
+    const request = convertReadableSpansToOTLP(exporter.getFinishedSpans());
+
+    expect(JSON.parse(JSON.stringify(request))).toEqual(request);
+  });
+
+  it("should keep nanosecond precision as decimal strings", () => {
+    const { exporter, provider } = createTracing();
+    const span = provider
+      .getTracer("app")
+      .startSpan("op", { startTime: [1700000000, 123456789] });
+    span.addEvent("tick", [1700000000, 123456790]);
+    span.end([1700000001, 987654321]);
+
+    const otlp = convertOne(exporter.getFinishedSpans()[0]);
+
+    expect(otlp.startTimeUnixNano).toBe("1700000000123456789");
+    expect(otlp.endTimeUnixNano).toBe("1700000001987654321");
+    expect(otlp.events![0].timeUnixNano).toBe("1700000000123456790");
+  });
+});
@@ -1,88 +1,67 @@
+import type { HrTime } from "@opentelemetry/api";
 import { ReadableSpan } from "@opentelemetry/sdk-trace-node";
+import { BoundedBuffer, OverflowPolicy } from "./bounded-buffer.js";
+import { getParentSpanId } from "./span-filter.js";
 import {
+  AnyValue,
   EnrichedSpanRequest,
   OTLPSpan,
+  Resource,
   ResourceSpans,
+  ScopeSpans,
   SpanAttributes,
+  SpanLink,
 } from "./span-types.js";
+import { LUMBERJACK_TRACER_NAME } from "./tracing.js";
+import { serializeValue } from "./util/serialize.js";
+
+/** Default `service.name` when a span's resource does not set one */
+const UNKNOWN_SERVICE = "unknown";
+
+// OTLP span flags: bits 0-7 carry the W3C trace flags, bit 8 says whether
+// bit 9 (the parent or linked context is remote) is known
+const SPAN_FLAGS_CONTEXT_HAS_IS_REMOTE = 0x100;
+const SPAN_FLAGS_CONTEXT_IS_REMOTE = 0x200;
 
 /**
- * Convert OpenTelemetry ReadableSpan to our OTLP format
+ * Convert OpenTelemetry ReadableSpans to an OTLP/JSON export request, with
+ * one resource group per span resource and one scope group per
+ * instrumentation scope within it
  */
 export function convertReadableSpansToOTLP(
   spans: ReadableSpan[]
 ): EnrichedSpanRequest {
-  // Group spans by resource (service name)
-  const spansByResource = new Map<string, ReadableSpan[]>();
+  const spansByResource = new Map<
+    ReadableSpan["resource"] | undefined,
+    Map<string, ReadableSpan[]>
+  >();
 
   for (const span of spans) {
-    const serviceName =
-      (span.resource.attributes["service.name"] as string) || "unknown";
-    if (!spansByResource.has(serviceName)) {
-      spansByResource.set(serviceName, []);
+    let byScope = spansByResource.get(span.resource);
+    if (!byScope) {
+      byScope = new Map();
+      spansByResource.set(span.resource, byScope);
+    }
+
+    const scope = span.instrumentationScope;
+    const scopeKey = `${scope?.name}@${scope?.version ?? ""}:${
+      scope?.schemaUrl ?? ""
+    }`;
+    let scopeSpans = byScope.get(scopeKey);
+    if (!scopeSpans) {
+      scopeSpans = [];
+      byScope.set(scopeKey, scopeSpans);
     }
-    spansByResource.get(serviceName)!.push(span);
+    scopeSpans.push(span);
   }
 
   const resourceSpans: ResourceSpans[] = Array.from(
     spansByResource.entries()
-  ).map(([serviceName, spans]) => ({
-    resource: {
-      attributes: [
-        {
-          key: "service.name",
-          value: { stringValue: serviceName },
-        },
-      ],
-    },
-    scopeSpans: [
-      {
-        scope: {
-          name: spans[0]?.instrumentationScope?.name || "@lumberjack-sdk/core",
-          version: spans[0]?.instrumentationScope?.version || "0.5.0",
-        },
-        spans: spans.map((span) => {
-          // Convert OpenTelemetry attributes to simple key-value pairs
-          const attributes: SpanAttributes = convertSpanAttributesToOTLP(
-            span.attributes
-          );
-
-          const result: OTLPSpan = {
-            traceId: span.spanContext().traceId,
-            spanId: span.spanContext().spanId,
-            name: span.name,
-            kind: span.kind,
-            startTimeUnixNano:
-              span.startTime[0] * 1000000000 + span.startTime[1],
-            endTimeUnixNano: span.endTime[0] * 1000000000 + span.endTime[1],
-            attributes,
-            events: span.events?.map((event) => {
-              const eventAttributes: SpanAttributes = event.attributes
-                ? convertSpanAttributesToOTLP(event.attributes)
-                : [];
-
-              return {
-                timeUnixNano: event.time[0] * 1000000000 + event.time[1],
-                name: event.name,
-                attributes: eventAttributes,
-              };
-            }),
-            status: {
-              code: span.status.code,
-              message: span.status.message || undefined,
-            },
-          };
-
-          // Add parentSpanId if available
-          const spanContext = span.spanContext();
-          if (spanContext.traceFlags && (span as any).parentSpanId) {
-            result.parentSpanId = (span as any).parentSpanId;
-          }
-
-          return result;
-        }),
-      },
-    ],
+  ).map(([resource, byScope]) => ({
+    resource: convertResourceToOTLP(resource),
+    scopeSpans: Array.from(byScope.values()).map((scopeSpans) =>
+      convertScopeSpansToOTLP(scopeSpans)
+    ),
   }));
 
   return {
@@ -92,70 +71,214 @@ export function convertReadableSpansToOTLP(
   };
 }
 
+function convertResourceToOTLP(
+  resource: ReadableSpan["resource"] | undefined
+): Resource {
+  const attributes = convertSpanAttributesToOTLP(resource?.attributes ?? {});
+  if (!attributes.some(({ key }) => key === "service.name")) {
+    attributes.unshift({
+      key: "service.name",
+      value: { stringValue: UNKNOWN_SERVICE },
+    });
+  }
+
+  return { attributes, droppedAttributesCount: 0 };
+}
+
+function convertScopeSpansToOTLP(spans: ReadableSpan[]): ScopeSpans {
+  const scope = spans[0]?.instrumentationScope;
+  const result: ScopeSpans = {
+    scope: { name: scope?.name || LUMBERJACK_TRACER_NAME },
+    spans: spans.map(convertSpanToOTLP),
+  };
+
+  if (scope?.version) {
+    result.scope!.version = scope.version;
+  }
+  if (scope?.schemaUrl) {
+    result.schemaUrl = scope.schemaUrl;
+  }
+  return result;
+}
+
+function convertSpanToOTLP(span: ReadableSpan): OTLPSpan {
+  const spanContext = span.spanContext();
+  const parent = span.parentSpanContext;
+
+  const result: OTLPSpan = {
+    traceId: spanContext.traceId,
+    spanId: spanContext.spanId,
+    flags: toSpanFlags(spanContext.traceFlags, parent?.isRemote),
+    name: span.name,
+    // The OTLP enum reserves 0 for "unspecified", so API kinds shift by one
+    kind: span.kind == null ? 0 : span.kind + 1,
+    startTimeUnixNano: hrTimeToNanos(span.startTime),
+    endTimeUnixNano: hrTimeToNanos(span.endTime),
+    attributes: convertSpanAttributesToOTLP(span.attributes),
+    droppedAttributesCount: span.droppedAttributesCount ?? 0,
+    events: (span.events ?? []).map((event) => ({
+      timeUnixNano: hrTimeToNanos(event.time),
+      name: event.name,
+      attributes: convertSpanAttributesToOTLP(event.attributes),
+      droppedAttributesCount: event.droppedAttributesCount ?? 0,
+    })),
+    droppedEventsCount: span.droppedEventsCount ?? 0,
+    links: (span.links ?? []).map((link) => {
+      const otlpLink: SpanLink = {
+        traceId: link.context.traceId,
+        spanId: link.context.spanId,
+        attributes: convertSpanAttributesToOTLP(link.attributes),
+        droppedAttributesCount: link.droppedAttributesCount ?? 0,
+        flags: toSpanFlags(link.context.traceFlags, link.context.isRemote),
+      };
+      const traceState = link.context.traceState?.serialize();
+      if (traceState) {
+        otlpLink.traceState = traceState;
+      }
+      return otlpLink;
+    }),
+    droppedLinksCount: span.droppedLinksCount ?? 0,
+    status: {
+      code: span.status.code,
+      message: span.status.message || undefined,
+    },
+  };
+
+  const parentSpanId = getParentSpanId(span);
+  if (parentSpanId) {
+    result.parentSpanId = parentSpanId;
+  }
+
+  const traceState = spanContext.traceState?.serialize();
+  if (traceState) {
+    result.traceState = traceState;
+  }
+
+  return result;
+}
+
+/** Exact nanoseconds; the number would be past 2^53 and lose precision */
+function hrTimeToNanos([seconds, nanos]: HrTime): string {
+  return (BigInt(seconds) * BigInt(1000000000) + BigInt(nanos)).toString();
+}
+
+function toSpanFlags(
+  traceFlags: number | undefined,
+  isRemote: boolean | undefined
+): number {
+  return (
+    ((traceFlags ?? 0) & 0xff) |
+    SPAN_FLAGS_CONTEXT_HAS_IS_REMOTE |
+    (isRemote ? SPAN_FLAGS_CONTEXT_IS_REMOTE : 0)
+  );
+}
+
 export function convertSpanAttributesToOTLP(
-  attributes: ReadableSpan["attributes"]
+  attributes: ReadableSpan["attributes"] | undefined
 ): SpanAttributes {
   const result: SpanAttributes = [];
   if (attributes) {
     for (const [key, value] of Object.entries(attributes)) {
       if (value !== undefined && value !== null) {
-        if (typeof value === "string") {
-          result.push({
-            key,
-            value: { stringValue: String(value) },
-          });
-        } else if (typeof value === "number") {
-          result.push({
-            key,
-            value: { intValue: value },
-          });
-        } else if (typeof value === "boolean") {
-          result.push({
-            key,
-            value: { boolValue: value },
-          });
-        } else {
-          result.push({
-            key,
-            value: { stringValue: String(value) },
-          });
-        }
+        result.push({ key, value: convertValueToOTLP(value) });
       }
     }
   }
   return result;
 }
 
+/**
+ * Map a JavaScript value to an OTLP AnyValue. Safe integers and int64
+ * bigints become `intValue` and other numbers `doubleValue`; arrays and objects are converted element
+ * by element, with null elements left as empty values.
+ */
+export function convertValueToOTLP(value: unknown): AnyValue {
+  // Span attributes are primitives or arrays of them. Anything else is made
+  // JSON-safe first so cycles and exotic objects cannot break the export.
+  const isPrimitiveArray =
+    Array.isArray(value) &&
+    value.every((item) => item === null || typeof item !== "object");
+
+  return toAnyValue(
+    typeof value === "object" && value !== null && !isPrimitiveArray
+      ? serializeValue(value)
+      : value
+  );
+}
+
+function toAnyValue(value: unknown): AnyValue {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value === "string") {
+    return { stringValue: value };
+  }
+  if (typeof value === "boolean") {
+    return { boolValue: value };
+  }
+  if (typeof value === "number") {
+    return Number.isSafeInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+  if (typeof value === "bigint" && BigInt.asIntN(64, value) === value) {
+    return { intValue: value.toString() };
+  }
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(toAnyValue) } };
+  }
+  if (typeof value === "object") {
+    return {
+      kvlistValue: {
+        values: Object.entries(value).map(([key, entry]) => ({
+          key,
+          value: toAnyValue(entry),
+        })),
+      },
+    };
+  }
+  return { stringValue: String(value) };
+}
+
 export class SpanBatch {
-  private spans: ReadableSpan[] = [];
+  private spans: BoundedBuffer<ReadableSpan>;
   private maxSize: number;
   private maxAge: number;
   private lastFlush: number;
 
-  constructor(maxSize = 500, maxAge = 30000) {
+  constructor(
+    maxSize = 500,
+    maxAge = 30000,
+    maxQueueSize = 10000,
+    overflowPolicy: OverflowPolicy = "drop-oldest"
+  ) {
     this.maxSize = maxSize;
     this.maxAge = maxAge;
     this.lastFlush = Date.now();
+    this.spans = new BoundedBuffer(maxQueueSize, overflowPolicy);
   }
 
   add(span: ReadableSpan): boolean {
     this.spans.push(span);
 
     const shouldFlush =
-      this.spans.length >= this.maxSize ||
+      this.spans.size >= this.maxSize ||
       Date.now() - this.lastFlush >= this.maxAge;
 
     return shouldFlush;
   }
 
   getSpans(): ReadableSpan[] {
-    const spans = [...this.spans];
-    this.spans = [];
+    const spans = this.spans.drain();
     this.lastFlush = Date.now();
     return spans;
   }
 
   get size(): number {
-    return this.spans.length;
+    return this.spans.size;
+  }
+
+  get dropped(): number {
+    return this.spans.dropped;
   }
 }
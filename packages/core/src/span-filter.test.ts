@@ -0,0 +1,117 @@
+import { describe, expect, it, jest } from "@jest/globals";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-node";
+import type { LumberjackCore } from "./core.js";
+import { createSpanFilter } from "./span-filter.js";
+import { LumberjackSpanProcessor } from "./span-processor.js";
+import { LUMBERJACK_TRACER_NAME } from "./tracing.js";
+
+function makeSpan(
+  overrides: {
+    name?: string;
+    scope?: string;
+    attributes?: Record<string, unknown>;
+    parentSpanId?: string;
+  } = {}
+): ReadableSpan {
+  return {
+    name: overrides.name ?? "GET /users",
+    attributes: overrides.attributes ?? {},
+    instrumentationScope: { name: overrides.scope ?? "@opentelemetry/http" },
+    parentSpanContext: overrides.parentSpanId
+      ? { spanId: overrides.parentSpanId }
+      : undefined,
+  } as unknown as ReadableSpan;
+}
+
+describe("createSpanFilter", () => {
+  it("should default to the Next.js preset", () => {
+    const filter = createSpanFilter();
+
+    expect(
+      filter(
+        makeSpan({
+          attributes: { "next.span_type": "BaseServer.handleRequest" },
+        })
+      )
+    ).toBe(true);
+    expect(filter(makeSpan({ scope: LUMBERJACK_TRACER_NAME }))).toBe(true);
+    expect(filter(makeSpan())).toBe(false);
+  });
+
+  it("should export everything with the all preset", () => {
+    expect(createSpanFilter("all")(makeSpan())).toBe(true);
+  });
+
+  it("should keep only root spans with the root preset", () => {
+    const filter = createSpanFilter("root");
+
+    expect(filter(makeSpan())).toBe(true);
+    expect(filter(makeSpan({ parentSpanId: "b".repeat(16) }))).toBe(false);
+  });
+
+  it("should use predicates as-is", () => {
+    const filter = createSpanFilter((span) => span.name.startsWith("db."));
+
+    expect(filter(makeSpan({ name: "db.query" }))).toBe(true);
+    expect(filter(makeSpan({ name: "GET /" }))).toBe(false);
+  });
+
+  it("should apply allow and deny rules by scope and name", () => {
+    const filter = createSpanFilter({
+      allowScopes: ["@opentelemetry/http", /^@prisma\//],
+      denyNames: [/health/, "GET /metrics"],
+    });
+
+    expect(filter(makeSpan({ scope: "@prisma/client" }))).toBe(true);
+    expect(filter(makeSpan({ scope: "@opentelemetry/dns" }))).toBe(false);
+    expect(filter(makeSpan({ name: "GET /healthz" }))).toBe(false);
+    expect(filter(makeSpan({ name: "GET /metrics" }))).toBe(false);
+  });
+
+  it("should combine rules with rootOnly", () => {
+    const filter = createSpanFilter({
+      rootOnly: true,
+      allowNames: [/^GET /],
+    });
+
+    expect(filter(makeSpan())).toBe(true);
+    expect(filter(makeSpan({ parentSpanId: "b".repeat(16) }))).toBe(false);
+    expect(filter(makeSpan({ name: "POST /users" }))).toBe(false);
+  });
+
+  it("should reject unknown presets", () => {
+    expect(() => createSpanFilter("everything" as never)).toThrow(
+      "Unknown span filter preset"
+    );
+  });
+});
+
+describe("LumberjackSpanProcessor filtering", () => {
+  const setup = (filter?: Parameters<typeof createSpanFilter>[0]) => {
+    const addSpan = jest.fn();
+    const processor = new LumberjackSpanProcessor({
+      instance: { addSpan } as unknown as LumberjackCore,
+      filter,
+    });
+    return { addSpan, processor };
+  };
+
+  it("should only collect spans accepted by the configured filter", () => {
+    const { addSpan, processor } = setup({ denyScopes: ["@opentelemetry/fs"] });
+
+    processor.onEnd(makeSpan());
+    processor.onEnd(makeSpan({ scope: "@opentelemetry/fs" }));
+
+    expect(addSpan).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip spans when the predicate throws", () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const { addSpan, processor } = setup(() => {
+      throw new Error("bad filter");
+    });
+
+    expect(() => processor.onEnd(makeSpan())).not.toThrow();
+    expect(addSpan).not.toHaveBeenCalled();
+  });
+});
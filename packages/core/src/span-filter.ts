@@ -0,0 +1,99 @@
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-node";
+import { LUMBERJACK_TRACER_NAME } from "./tracing.js";
+
+export type SpanFilterPredicate = (span: ReadableSpan) => boolean;
+
+/**
+ * Declarative span filter. Every configured rule must pass for a span to be
+ * exported. Strings match exactly; RegExps are tested against the value.
+ */
+export interface SpanFilterRules {
+  /** Only export spans from these instrumentation scopes */
+  allowScopes?: Array<string | RegExp>;
+  /** Never export spans from these instrumentation scopes */
+  denyScopes?: Array<string | RegExp>;
+  /** Only export spans with these names */
+  allowNames?: Array<string | RegExp>;
+  /** Never export spans with these names */
+  denyNames?: Array<string | RegExp>;
+  /** Only export spans without a parent */
+  rootOnly?: boolean;
+}
+
+/**
+ * - `nextjs`: Next.js request spans plus spans created with `withSpan`,
+ *   `startSpan` and `@traced` (the default)
+ * - `all`: every span
+ * - `root`: spans without a parent
+ */
+export type SpanFilterPreset = "nextjs" | "all" | "root";
+
+export type SpanFilter =
+  | SpanFilterPreset
+  | SpanFilterPredicate
+  | SpanFilterRules;
+
+export const NEXTJS_REQUEST_SPAN_TYPE = "BaseServer.handleRequest";
+
+const PRESETS: Record<SpanFilterPreset, SpanFilterPredicate> = {
+  nextjs: (span) =>
+    span.attributes["next.span_type"] === NEXTJS_REQUEST_SPAN_TYPE ||
+    span.instrumentationScope?.name === LUMBERJACK_TRACER_NAME,
+  all: () => true,
+  root: (span) => !getParentSpanId(span),
+};
+
+/** Resolve a configured filter into a predicate */
+export function createSpanFilter(
+  filter: SpanFilter = "nextjs"
+): SpanFilterPredicate {
+  if (typeof filter === "function") {
+    return filter;
+  }
+
+  if (typeof filter === "string") {
+    const preset = PRESETS[filter];
+    if (!preset) {
+      throw new Error(`[Lumberjack] Unknown span filter preset: ${filter}`);
+    }
+    return preset;
+  }
+
+  return (span) => matchesRules(span, filter);
+}
+
+function matchesRules(span: ReadableSpan, rules: SpanFilterRules): boolean {
+  const scope = span.instrumentationScope?.name ?? "";
+
+  if (rules.rootOnly && getParentSpanId(span)) {
+    return false;
+  }
+  if (rules.allowScopes && !matchesAny(scope, rules.allowScopes)) {
+    return false;
+  }
+  if (rules.denyScopes && matchesAny(scope, rules.denyScopes)) {
+    return false;
+  }
+  if (rules.allowNames && !matchesAny(span.name, rules.allowNames)) {
+    return false;
+  }
+  if (rules.denyNames && matchesAny(span.name, rules.denyNames)) {
+    return false;
+  }
+
+  return true;
+}
+
+function matchesAny(value: string, patterns: Array<string | RegExp>): boolean {
+  return patterns.some((pattern) =>
+    typeof pattern === "string" ? pattern === value : pattern.test(value)
+  );
+}
+
+/** Parent span ID across OpenTelemetry SDK v1 (`parentSpanId`) and v2 */
+export function getParentSpanId(span: ReadableSpan): string | undefined {
+  return (
+    span.parentSpanContext?.spanId ??
+    (span as { parentSpanId?: string }).parentSpanId
+  );
+}
@@ -1,6 +1,13 @@
 import { Context } from "@opentelemetry/api";
 import { ReadableSpan, SpanProcessor } from "@opentelemetry/sdk-trace-node";
 import { LumberjackCore } from "./core.js";
+import {
+  createSpanFilter,
+  NEXTJS_REQUEST_SPAN_TYPE,
+  SpanFilter,
+  SpanFilterPredicate,
+} from "./span-filter.js";
+import { TailSampler } from "./tail-sampler.js";
 
 /**
  * Custom OpenTelemetry SpanProcessor that captures all spans and exports them
@@ -9,24 +16,50 @@ import { LumberjackCore } from "./core.js";
  */
 export class LumberjackSpanProcessor implements SpanProcessor {
   private instance: LumberjackCore;
+  private shouldExport: SpanFilterPredicate;
   constructor(
-    private options: { debug?: boolean | undefined; instance: LumberjackCore }
+    private options: {
+      debug?: boolean | undefined;
+      instance: LumberjackCore;
+      /** Which ended spans to export. Defaults to the `nextjs` preset. */
+      filter?: SpanFilter | undefined;
+      /**
+       * Hold spans per trace and export only the traces the sampler keeps.
+       * Spans rejected by `filter` still count towards the decision.
+       */
+      sampler?: TailSampler | undefined;
+    }
   ) {
     this.instance = options.instance;
+    this.shouldExport = createSpanFilter(options.filter);
   }
 
   onStart(span: ReadableSpan, _parentContext: Context) {
+    this.options.sampler?.start(span);
+
     if (
       this.options.debug &&
-      span.attributes["next.span_type"] === "BaseServer.handleRequest"
+      span.attributes["next.span_type"] === NEXTJS_REQUEST_SPAN_TYPE
     ) {
       console.debug("[Lumberjack] Starting span:", span.name);
     }
   }
 
   onEnd(span: ReadableSpan) {
-    if (span.attributes["next.span_type"] === "BaseServer.handleRequest") {
-      // Always collect the span for export
+    let shouldExport: boolean;
+    try {
+      shouldExport = this.shouldExport(span);
+    } catch (error) {
+      console.error("[Lumberjack]: Span filter threw, skipping span:", error);
+      return;
+    }
+
+    if (this.options.sampler) {
+      this.options.sampler.add(span, shouldExport);
+      return;
+    }
+
+    if (shouldExport) {
       this.instance.addSpan(span);
 
       if (this.options.debug) {
@@ -8,31 +8,66 @@ type KeyValue = {
   value: AnyValue;
 };
 
+export interface ArrayValue {
+  values: AnyValue[];
+}
+
+export interface KeyValueList {
+  values: KeyValue[];
+}
+
 /**
  * AnyValue type for OTLP span attributes.
- * This matches the OTLP JSON schema for AnyValue.
+ * This matches the OTLP JSON schema for AnyValue, which encodes int64 as a
+ * decimal string. An empty object stands for an unset value, e.g. a null
+ * element of an array attribute.
  */
 export type AnyValue =
   | { stringValue: string }
   | { boolValue: boolean }
-  | { intValue: number }
+  | { intValue: string }
   | { doubleValue: number }
-  | { arrayValue: AnyValue[] }
-  | { kvlistValue: KeyValue[] }
-  | { bytesValue: string };
+  | { arrayValue: ArrayValue }
+  | { kvlistValue: KeyValueList }
+  | { bytesValue: string }
+  | Record<string, never>;
 
 export type SpanAttributes = KeyValue[];
 
+/**
+ * Primitive value of the attribute with the given key, with `intValue`
+ * parsed back into a number. Arrays and maps yield undefined.
+ */
+export function attributeValue(
+  attributes: SpanAttributes | undefined,
+  key: string
+): string | number | boolean | undefined {
+  const value = attributes?.find((attribute) => attribute.key === key)?.value;
+  if (!value) {
+    return undefined;
+  }
+  if ("stringValue" in value) return value.stringValue;
+  if ("intValue" in value) return Number(value.intValue);
+  if ("doubleValue" in value) return value.doubleValue;
+  if ("boolValue" in value) return value.boolValue;
+  return undefined;
+}
+
 export interface SpanEvent {
-  timeUnixNano: number;
+  /** fixed64 nanoseconds as a decimal string, as OTLP/JSON encodes them */
+  timeUnixNano: string;
   name: string;
   attributes?: SpanAttributes | undefined;
+  droppedAttributesCount?: number | undefined;
 }
 
 export interface SpanLink {
   traceId: string;
   spanId: string;
+  traceState?: string | undefined;
   attributes?: SpanAttributes | undefined;
+  droppedAttributesCount?: number | undefined;
+  flags?: number | undefined;
 }
 
 export interface SpanStatus {
@@ -43,14 +78,21 @@ export interface SpanStatus {
 export interface OTLPSpan {
   traceId: string;
   spanId: string;
+  traceState?: string | undefined;
   parentSpanId?: string;
+  /** W3C trace flags in bits 0-7, parent remoteness in bits 8-9 */
+  flags?: number | undefined;
   name: string;
-  kind?: number;
-  startTimeUnixNano: number;
-  endTimeUnixNano: number;
+  kind?: number; // 0=Unspecified, 1=Internal, 2=Server, 3=Client, 4=Producer, 5=Consumer
+  /** fixed64 nanoseconds as a decimal string, as OTLP/JSON encodes them */
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
   attributes?: SpanAttributes | undefined;
+  droppedAttributesCount?: number | undefined;
   events?: SpanEvent[] | undefined;
+  droppedEventsCount?: number | undefined;
   links?: SpanLink[] | undefined;
+  droppedLinksCount?: number | undefined;
   status?: SpanStatus | undefined;
 }
 
@@ -63,10 +105,12 @@ export interface InstrumentationScope {
 export interface ScopeSpans {
   scope?: InstrumentationScope;
   spans: OTLPSpan[];
+  schemaUrl?: string | undefined;
 }
 
 export interface Resource {
   attributes?: SpanAttributes | undefined;
+  droppedAttributesCount?: number | undefined;
 }
 
 export interface ResourceSpans {
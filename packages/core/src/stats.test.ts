@@ -0,0 +1,96 @@
+import { describe, expect, it } from "@jest/globals";
+import { StatsCollector } from "./stats.js";
+
+const noDrops = { logs: 0, objects: 0, spans: 0 };
+
+describe("StatsCollector", () => {
+  it("should count enqueued, exported and retried items per signal", () => {
+    const stats = new StatsCollector();
+    stats.recordEnqueued("logs", 3);
+    stats.recordEnqueued("spans");
+
+    const event = stats.recordExport(
+      "logs",
+      3,
+      { success: true, itemsExported: 3, attempts: 2 },
+      12
+    );
+
+    const snapshot = stats.snapshot(noDrops);
+    expect(event).toEqual({
+      signal: "logs",
+      items: 3,
+      durationMs: 12,
+      attempts: 2,
+    });
+    expect(snapshot.logs).toEqual({
+      enqueued: 3,
+      exported: 3,
+      failed: 0,
+      retried: 1,
+      dropped: 0,
+    });
+    expect(snapshot.spans.enqueued).toBe(1);
+    expect(snapshot.lastError).toBeNull();
+  });
+
+  it("should record failures and the last error", () => {
+    const stats = new StatsCollector();
+    const error = new Error("boom");
+
+    const event = stats.recordExport(
+      "objects",
+      2,
+      { success: false, error, itemsExported: 0 },
+      5
+    );
+
+    const snapshot = stats.snapshot(noDrops);
+    expect(event.error).toBe(error);
+    expect(snapshot.objects.failed).toBe(2);
+    expect(snapshot.lastError).toMatchObject({
+      signal: "objects",
+      message: "boom",
+    });
+  });
+
+  it("should add queue overflow to the dropped counters", () => {
+    const stats = new StatsCollector();
+    stats.recordDropped("logs", 2);
+
+    expect(stats.snapshot({ logs: 3, objects: 1, spans: 0 })).toMatchObject({
+      logs: { dropped: 5 },
+      objects: { dropped: 1 },
+      spans: { dropped: 0 },
+    });
+  });
+
+  it("should bucket flush latency", () => {
+    const stats = new StatsCollector();
+    const ok = { success: true, itemsExported: 1 };
+    stats.recordExport("logs", 1, ok, 3);
+    stats.recordExport("logs", 1, ok, 40);
+    stats.recordExport("logs", 1, ok, 60000);
+
+    const histogram = stats.snapshot(noDrops).flushLatency.logs;
+    expect(histogram).toMatchObject({
+      count: 3,
+      sum: 60043,
+      min: 3,
+      max: 60000,
+    });
+    expect(histogram.bucketCounts[0]).toBe(1); // <= 5ms
+    expect(histogram.bucketCounts[3]).toBe(1); // <= 50ms
+    expect(histogram.bucketCounts[histogram.boundaries.length]).toBe(1);
+  });
+
+  it("should return snapshots that do not change afterwards", () => {
+    const stats = new StatsCollector();
+    const snapshot = stats.snapshot(noDrops);
+    stats.recordEnqueued("logs");
+    stats.recordExport("logs", 1, { success: true, itemsExported: 1 }, 1);
+
+    expect(snapshot.logs.enqueued).toBe(0);
+    expect(snapshot.flushLatency.logs.bucketCounts[0]).toBe(0);
+  });
+});
@@ -0,0 +1,165 @@
+import type { ExportResult } from "./exporter.js";
+
+export type SignalType = "logs" | "objects" | "spans";
+
+export interface SignalStats {
+  /** Items accepted into the queue */
+  enqueued: number;
+  /** Items the exporter reported as exported */
+  exported: number;
+  /** Items in failed export calls; re-queued items count again */
+  failed: number;
+  /** Extra attempts the exporter made after a failed request */
+  retried: number;
+  /** Items lost to queue overflow or discarded after a permanent failure */
+  dropped: number;
+}
+
+export interface LatencyHistogram {
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  /** Upper bounds in milliseconds; the last bucket is unbounded */
+  boundaries: number[];
+  /** One count per boundary plus one for the overflow bucket */
+  bucketCounts: number[];
+}
+
+export interface LastError {
+  signal: SignalType;
+  message: string;
+  timestamp: number;
+}
+
+export interface SdkStats {
+  logs: SignalStats;
+  objects: SignalStats;
+  spans: SignalStats;
+  /** Time spent in the exporter per flush */
+  flushLatency: Record<SignalType, LatencyHistogram>;
+  lastError: LastError | null;
+}
+
+export interface FlushEvent {
+  signal: SignalType;
+  items: number;
+  durationMs: number;
+  attempts: number;
+  error?: Error;
+}
+
+export const LATENCY_BOUNDARIES_MS = [
+  5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+
+function emptySignalStats(): SignalStats {
+  return { enqueued: 0, exported: 0, failed: 0, retried: 0, dropped: 0 };
+}
+
+function emptyHistogram(): LatencyHistogram {
+  return {
+    count: 0,
+    sum: 0,
+    min: 0,
+    max: 0,
+    boundaries: [...LATENCY_BOUNDARIES_MS],
+    bucketCounts: new Array(LATENCY_BOUNDARIES_MS.length + 1).fill(0),
+  };
+}
+
+/** Counters and flush latency histograms describing the SDK's own health */
+export class StatsCollector {
+  private signals: Record<SignalType, SignalStats> = {
+    logs: emptySignalStats(),
+    objects: emptySignalStats(),
+    spans: emptySignalStats(),
+  };
+  private latency: Record<SignalType, LatencyHistogram> = {
+    logs: emptyHistogram(),
+    objects: emptyHistogram(),
+    spans: emptyHistogram(),
+  };
+  private lastError: LastError | null = null;
+
+  recordEnqueued(signal: SignalType, count = 1): void {
+    this.signals[signal].enqueued += count;
+  }
+
+  recordDropped(signal: SignalType, count: number): void {
+    this.signals[signal].dropped += count;
+  }
+
+  /** Record the outcome of one export call and return the matching event */
+  recordExport(
+    signal: SignalType,
+    items: number,
+    result: ExportResult,
+    durationMs: number
+  ): FlushEvent {
+    const stats = this.signals[signal];
+    const attempts = result.attempts ?? 1;
+
+    stats.retried += Math.max(0, attempts - 1);
+    this.observeLatency(signal, durationMs);
+
+    if (result.success) {
+      stats.exported += result.itemsExported ?? items;
+      return { signal, items, durationMs, attempts };
+    }
+
+    const error = result.error ?? new Error(`Failed to export ${signal}`);
+    stats.failed += items;
+    this.lastError = {
+      signal,
+      message: error.message,
+      timestamp: Date.now(),
+    };
+    return { signal, items, durationMs, attempts, error };
+  }
+
+  /**
+   * Snapshot of all counters. `overflowDrops` is added to the dropped
+   * counters since the queues track overflow themselves.
+   */
+  snapshot(overflowDrops: Record<SignalType, number>): SdkStats {
+    const signal = (type: SignalType): SignalStats => ({
+      ...this.signals[type],
+      dropped: this.signals[type].dropped + overflowDrops[type],
+    });
+    const histogram = (type: SignalType): LatencyHistogram => ({
+      ...this.latency[type],
+      boundaries: [...this.latency[type].boundaries],
+      bucketCounts: [...this.latency[type].bucketCounts],
+    });
+
+    return {
+      logs: signal("logs"),
+      objects: signal("objects"),
+      spans: signal("spans"),
+      flushLatency: {
+        logs: histogram("logs"),
+        objects: histogram("objects"),
+        spans: histogram("spans"),
+      },
+      lastError: this.lastError ? { ...this.lastError } : null,
+    };
+  }
+
+  private observeLatency(signal: SignalType, durationMs: number): void {
+    const histogram = this.latency[signal];
+
+    histogram.min =
+      histogram.count === 0 ? durationMs : Math.min(histogram.min, durationMs);
+    histogram.max = Math.max(histogram.max, durationMs);
+    histogram.count++;
+    histogram.sum += durationMs;
+
+    const bucket = histogram.boundaries.findIndex(
+      (boundary) => durationMs <= boundary
+    );
+    histogram.bucketCounts[
+      bucket === -1 ? histogram.boundaries.length : bucket
+    ]++;
+  }
+}
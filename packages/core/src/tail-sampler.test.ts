@@ -0,0 +1,245 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { SpanStatusCode } from "@opentelemetry/api";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-node";
+import type { LumberjackCore } from "./core.js";
+import { LumberjackSpanProcessor } from "./span-processor.js";
+import { TailSampler, TailSamplingConfig } from "./tail-sampler.js";
+
+const TRACE_A = "a".repeat(32);
+const TRACE_B = "b".repeat(32);
+
+function makeSpan(
+  overrides: {
+    name?: string;
+    traceId?: string;
+    parentSpanId?: string;
+    remoteParent?: boolean;
+    error?: boolean;
+    durationMs?: number;
+    attributes?: Record<string, unknown>;
+    scope?: string;
+  } = {}
+): ReadableSpan {
+  const durationMs = overrides.durationMs ?? 10;
+  return {
+    name: overrides.name ?? "span",
+    attributes: overrides.attributes ?? {},
+    instrumentationScope: { name: overrides.scope ?? "@opentelemetry/http" },
+    status: {
+      code: overrides.error ? SpanStatusCode.ERROR : SpanStatusCode.UNSET,
+    },
+    duration: [Math.floor(durationMs / 1000), (durationMs % 1000) * 1e6],
+    spanContext: () => ({
+      traceId: overrides.traceId ?? TRACE_A,
+      spanId: "c".repeat(16),
+      traceFlags: 1,
+    }),
+    parentSpanContext: overrides.parentSpanId
+      ? {
+          spanId: overrides.parentSpanId,
+          isRemote: overrides.remoteParent === true,
+        }
+      : undefined,
+  } as unknown as ReadableSpan;
+}
+
+const child = (overrides: Parameters<typeof makeSpan>[0] = {}) =>
+  makeSpan({ parentSpanId: "d".repeat(16), ...overrides });
+
+describe("TailSampler", () => {
+  const samplers: TailSampler[] = [];
+
+  const setup = (config: TailSamplingConfig = {}, random = () => 1) => {
+    const onKeep = jest.fn((_spans: ReadableSpan[]) => {});
+    const sampler = new TailSampler(config, onKeep, random);
+    samplers.push(sampler);
+    const kept = () => onKeep.mock.calls.flatMap(([spans]) => spans);
+    return { sampler, onKeep, kept };
+  };
+
+  afterEach(() => {
+    samplers.splice(0).forEach((sampler) => sampler.shutdown());
+    jest.useRealTimers();
+  });
+
+  it("should hold spans until the root ends and keep errored traces", () => {
+    const { sampler, kept } = setup();
+    const failing = child({ name: "db.query", error: true });
+
+    sampler.add(failing, true);
+    expect(kept()).toHaveLength(0);
+    expect(sampler.getDecision(TRACE_A)).toBe("pending");
+
+    const root = makeSpan({ name: "GET /" });
+    sampler.add(root, true);
+
+    expect(kept()).toEqual([failing, root]);
+    expect(sampler.getDecision(TRACE_A)).toBe("keep");
+    expect(sampler.pendingTraces).toBe(0);
+  });
+
+  it("should treat a trace as pending from its first started span", () => {
+    const { sampler } = setup();
+    const root = makeSpan({ name: "GET /" });
+
+    sampler.start(root);
+    expect(sampler.getDecision(TRACE_A)).toBe("pending");
+
+    sampler.add(root, true);
+    sampler.start(child());
+    expect(sampler.getDecision(TRACE_A)).toBe("drop");
+    expect(sampler.pendingTraces).toBe(0);
+  });
+
+  it("should drop traces matching no rule", () => {
+    const { sampler, kept } = setup();
+
+    sampler.add(child(), true);
+    sampler.add(makeSpan(), true);
+
+    expect(kept()).toHaveLength(0);
+    expect(sampler.getDecision(TRACE_A)).toBe("drop");
+  });
+
+  it("should keep slow traces by root duration", () => {
+    const { sampler, kept } = setup({ latencyThresholdMs: 500 });
+
+    sampler.add(makeSpan({ traceId: TRACE_A, durationMs: 499 }), true);
+    sampler.add(makeSpan({ traceId: TRACE_B, durationMs: 1500 }), true);
+
+    expect(kept().map((s) => s.spanContext().traceId)).toEqual([TRACE_B]);
+  });
+
+  it("should keep traces matching attribute rules", () => {
+    const { sampler } = setup({
+      attributeRules: [
+        { key: "http.route", value: /^\/checkout/ },
+        { key: "app.debug" },
+      ],
+    });
+
+    sampler.add(child({ attributes: { "http.route": "/checkout/pay" } }), true);
+    sampler.add(makeSpan(), true);
+    sampler.add(makeSpan({ traceId: TRACE_B, attributes: { a: 1 } }), true);
+
+    expect(sampler.getDecision(TRACE_A)).toBe("keep");
+    expect(sampler.getDecision(TRACE_B)).toBe("drop");
+  });
+
+  it("should keep a fraction of other traces", () => {
+    const { sampler } = setup({ fallbackRatio: 0.25 }, () => 0.1);
+
+    sampler.add(makeSpan(), true);
+
+    expect(sampler.getDecision(TRACE_A)).toBe("keep");
+  });
+
+  it("should ignore errors when keepErrors is false", () => {
+    const { sampler } = setup({ keepErrors: false });
+
+    sampler.add(makeSpan({ error: true }), true);
+
+    expect(sampler.getDecision(TRACE_A)).toBe("drop");
+  });
+
+  it("should treat spans with a remote parent as the local root", () => {
+    const { sampler } = setup();
+
+    sampler.add(
+      makeSpan({ parentSpanId: "e".repeat(16), remoteParent: true }),
+      true
+    );
+
+    expect(sampler.getDecision(TRACE_A)).toBe("drop");
+  });
+
+  it("should use non-exportable spans for the decision only", () => {
+    const { sampler, kept } = setup();
+    const root = makeSpan();
+
+    sampler.add(child({ error: true }), false);
+    sampler.add(root, true);
+
+    expect(kept()).toEqual([root]);
+  });
+
+  it("should follow the decision for spans ending after the root", () => {
+    const { sampler, kept } = setup();
+
+    sampler.add(makeSpan({ error: true }), true);
+    const late = child({ traceId: TRACE_A });
+    sampler.add(late, true);
+
+    expect(kept()).toContain(late);
+    expect(sampler.pendingTraces).toBe(0);
+  });
+
+  it("should decide the oldest trace when maxTraces is exceeded", () => {
+    const { sampler, kept } = setup({ maxTraces: 1 });
+    const failing = child({ traceId: TRACE_A, error: true });
+
+    sampler.add(failing, true);
+    sampler.add(child({ traceId: TRACE_B }), true);
+
+    expect(kept()).toEqual([failing]);
+    expect(sampler.getDecision(TRACE_B)).toBe("pending");
+  });
+
+  it("should cap the spans held per trace", () => {
+    const { sampler, kept } = setup({ maxSpansPerTrace: 2 });
+
+    for (let i = 0; i < 5; i++) {
+      sampler.add(child({ name: `child-${i}` }), true);
+    }
+    sampler.add(makeSpan({ error: true }), true);
+
+    expect(kept().map((s) => s.name)).toEqual(["child-0", "child-1"]);
+  });
+
+  it("should decide incomplete traces after the timeout", () => {
+    jest.useFakeTimers();
+    const { sampler, kept } = setup({ traceTimeoutMs: 1000 });
+
+    sampler.add(child({ error: true }), true);
+    jest.advanceTimersByTime(999);
+    expect(sampler.getDecision(TRACE_A)).toBe("pending");
+
+    jest.advanceTimersByTime(1);
+    expect(sampler.getDecision(TRACE_A)).toBe("keep");
+    expect(kept()).toHaveLength(1);
+  });
+
+  it("should decide every pending trace on flush", () => {
+    const { sampler } = setup();
+
+    sampler.add(child({ traceId: TRACE_A }), true);
+    sampler.add(child({ traceId: TRACE_B }), true);
+    sampler.flush();
+
+    expect(sampler.pendingTraces).toBe(0);
+  });
+});
+
+describe("LumberjackSpanProcessor tail sampling", () => {
+  it("should pass kept spans accepted by the filter to the instance", () => {
+    const addSpan = jest.fn();
+    const sampler = new TailSampler({}, (spans) =>
+      spans.forEach((span) => addSpan(span))
+    );
+    const processor = new LumberjackSpanProcessor({
+      instance: { addSpan } as unknown as LumberjackCore,
+      filter: "root",
+      sampler,
+    });
+    const root = makeSpan();
+
+    processor.onEnd(child({ error: true }));
+    expect(addSpan).not.toHaveBeenCalled();
+
+    processor.onEnd(root);
+    expect(addSpan).toHaveBeenCalledTimes(1);
+    expect(addSpan).toHaveBeenCalledWith(root);
+
+    sampler.shutdown();
+  });
+});
@@ -0,0 +1,257 @@
+import { SpanStatusCode } from "@opentelemetry/api";
+import type { ReadableSpan } from "@opentelemetry/sdk-trace-node";
+
+/**
+ * Keep a trace when any span carries the attribute `key`. With `value`, the
+ * attribute must also equal it (or match it, for a RegExp).
+ */
+export interface TailSamplingAttributeRule {
+  key: string;
+  value?: string | number | boolean | RegExp;
+}
+
+export interface TailSamplingConfig {
+  /**
+   * Keep traces where any span ended with an ERROR status
+   * @default true
+   */
+  keepErrors?: boolean;
+  /** Keep traces whose root span took at least this many milliseconds */
+  latencyThresholdMs?: number;
+  /** Keep traces where any span matches one of these rules */
+  attributeRules?: TailSamplingAttributeRule[];
+  /**
+   * Fraction (0-1) of the remaining traces to keep at random
+   * @default 0
+   */
+  fallbackRatio?: number;
+  /**
+   * Most traces held in memory while waiting for their root span. When
+   * exceeded, the oldest trace is decided with the spans seen so far.
+   * @default 1000
+   */
+  maxTraces?: number;
+  /**
+   * Most spans held per trace. Further spans still count towards the
+   * decision but are not exported.
+   * @default 1000
+   */
+  maxSpansPerTrace?: number;
+  /**
+   * Traces whose root span has not ended after this many milliseconds are
+   * decided with the spans seen so far
+   * @default 30000
+   */
+  traceTimeoutMs?: number;
+  /**
+   * Also drop logs that belong to dropped traces. Logs of traces still
+   * waiting for a decision are held back until it is made.
+   * @default false
+   */
+  dropLogs?: boolean;
+}
+
+export type TraceDecision = "keep" | "drop";
+
+interface PendingTrace {
+  spans: ReadableSpan[];
+  startedAt: number;
+  hasError: boolean;
+  matchesRule: boolean;
+  maxDurationMs: number;
+}
+
+// Decisions are remembered so spans ending after their root (and logs of the
+// trace) follow it; bounded so long-running processes don't grow forever
+const MAX_REMEMBERED_DECISIONS = 10000;
+
+/**
+ * Tail-based sampler. Spans are held per trace until the local root span
+ * ends, then the whole trace is kept or dropped.
+ */
+export class TailSampler {
+  private pending: Map<string, PendingTrace> = new Map();
+  private decisions: Map<string, TraceDecision> = new Map();
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private readonly keepErrors: boolean;
+  private readonly fallbackRatio: number;
+  private readonly maxTraces: number;
+  private readonly maxSpansPerTrace: number;
+  private readonly traceTimeoutMs: number;
+  readonly dropLogs: boolean;
+
+  constructor(
+    private readonly config: TailSamplingConfig,
+    private readonly onKeep: (spans: ReadableSpan[]) => void,
+    private readonly random: () => number = Math.random
+  ) {
+    this.keepErrors = config.keepErrors !== false;
+    this.fallbackRatio = config.fallbackRatio ?? 0;
+    this.maxTraces = config.maxTraces ?? 1000;
+    this.maxSpansPerTrace = config.maxSpansPerTrace ?? 1000;
+    this.traceTimeoutMs = config.traceTimeoutMs ?? 30000;
+    this.dropLogs = config.dropLogs === true;
+
+    this.sweepTimer = setInterval(
+      () => this.expire(),
+      Math.min(this.traceTimeoutMs, 5000)
+    );
+    this.sweepTimer.unref?.();
+  }
+
+  /** Number of traces waiting for a decision */
+  get pendingTraces(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Record a started span, so logs of its trace are held back until the
+   * trace is decided
+   */
+  start(span: ReadableSpan): void {
+    const traceId = span.spanContext().traceId;
+    if (!this.decisions.has(traceId)) {
+      this.track(traceId);
+    }
+  }
+
+  /**
+   * Record an ended span. `exportable` spans are passed to `onKeep` if their
+   * trace is kept; the others only contribute to the decision.
+   */
+  add(span: ReadableSpan, exportable: boolean): void {
+    const traceId = span.spanContext().traceId;
+
+    const decided = this.decisions.get(traceId);
+    if (decided) {
+      if (decided === "keep" && exportable) {
+        this.onKeep([span]);
+      }
+      return;
+    }
+
+    const trace = this.track(traceId);
+    if (exportable && trace.spans.length < this.maxSpansPerTrace) {
+      trace.spans.push(span);
+    }
+    trace.hasError ||= span.status.code === SpanStatusCode.ERROR;
+    trace.matchesRule ||= this.matchesRules(span);
+    trace.maxDurationMs = Math.max(trace.maxDurationMs, durationMs(span));
+
+    if (isLocalRoot(span)) {
+      this.decide(traceId, trace, durationMs(span));
+    }
+  }
+
+  /**
+   * Decision for a trace: `"pending"` while its root span has not ended,
+   * `undefined` if no span of it has been started (or it was forgotten)
+   */
+  getDecision(traceId: string): TraceDecision | "pending" | undefined {
+    if (this.pending.has(traceId)) {
+      return "pending";
+    }
+    return this.decisions.get(traceId);
+  }
+
+  /** Decide traces that have been waiting longer than the timeout */
+  expire(now: number = Date.now()): void {
+    for (const [traceId, trace] of this.pending) {
+      if (now - trace.startedAt >= this.traceTimeoutMs) {
+        this.decide(traceId, trace);
+      }
+    }
+  }
+
+  /** Decide every pending trace with the spans seen so far */
+  flush(): void {
+    for (const [traceId, trace] of this.pending) {
+      this.decide(traceId, trace);
+    }
+  }
+
+  shutdown(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    this.flush();
+  }
+
+  private track(traceId: string): PendingTrace {
+    let trace = this.pending.get(traceId);
+    if (!trace) {
+      if (this.pending.size >= this.maxTraces) {
+        const [oldestId, oldest] = this.pending.entries().next().value!;
+        this.decide(oldestId, oldest);
+      }
+      trace = {
+        spans: [],
+        startedAt: Date.now(),
+        hasError: false,
+        matchesRule: false,
+        maxDurationMs: 0,
+      };
+      this.pending.set(traceId, trace);
+    }
+    return trace;
+  }
+
+  private decide(
+    traceId: string,
+    trace: PendingTrace,
+    rootDurationMs: number = trace.maxDurationMs
+  ): void {
+    const latencyThresholdMs = this.config.latencyThresholdMs;
+    const keep =
+      (this.keepErrors && trace.hasError) ||
+      (latencyThresholdMs !== undefined &&
+        rootDurationMs >= latencyThresholdMs) ||
+      trace.matchesRule ||
+      this.random() < this.fallbackRatio;
+
+    this.pending.delete(traceId);
+    this.decisions.set(traceId, keep ? "keep" : "drop");
+    if (this.decisions.size > MAX_REMEMBERED_DECISIONS) {
+      this.decisions.delete(this.decisions.keys().next().value!);
+    }
+
+    if (keep && trace.spans.length > 0) {
+      this.onKeep(trace.spans);
+    }
+  }
+
+  private matchesRules(span: ReadableSpan): boolean {
+    const rules = this.config.attributeRules;
+    if (!rules) {
+      return false;
+    }
+
+    return rules.some((rule) => {
+      const actual = span.attributes[rule.key];
+      if (actual === undefined) {
+        return false;
+      }
+      if (rule.value === undefined) {
+        return true;
+      }
+      return rule.value instanceof RegExp
+        ? rule.value.test(String(actual))
+        : rule.value === actual;
+    });
+  }
+}
+
+function durationMs(span: ReadableSpan): number {
+  const [seconds, nanos] = span.duration;
+  return seconds * 1000 + nanos / 1e6;
+}
+
+/** Root of the trace within this process: no parent, or a remote one */
+function isLocalRoot(span: ReadableSpan): boolean {
+  const parent = span.parentSpanContext;
+  if (parent) {
+    return parent.isRemote === true;
+  }
+  return !(span as { parentSpanId?: string }).parentSpanId;
+}
@@ -0,0 +1,47 @@
+import { IdGenerator, LumberjackContext } from "../context.js";
+import { LumberjackCore } from "../core.js";
+
+/**
+ * Shut down the global `LumberjackCore`, clear `globalThis.__LUMBERJACK_CORE__`
+ * and restore random IDs, so each test can call `init()` afresh
+ */
+export async function resetLumberjack(): Promise<void> {
+  await LumberjackCore.reset();
+  LumberjackContext.setIdGenerator();
+}
+
+/**
+ * ID generator counting up from 1: trace IDs
+ * `00000000000000000000000000000001`, `…0002`, and span IDs
+ * `0000000000000001`, `…0002`, independently
+ */
+export function createDeterministicIdGenerator(): IdGenerator {
+  let traces = 0;
+  let spans = 0;
+  return {
+    generateTraceId: () => (++traces).toString(16).padStart(32, "0"),
+    generateSpanId: () => (++spans).toString(16).padStart(16, "0"),
+  };
+}
+
+/**
+ * Generate predictable trace and span IDs until `resetLumberjack()`, for
+ * snapshots and exact assertions
+ */
+export function useDeterministicIds(): IdGenerator {
+  const generator = createDeterministicIdGenerator();
+  LumberjackContext.setIdGenerator(generator);
+  return generator;
+}
+
+/**
+ * Hand everything buffered to the exporter before returning, without
+ * waiting for timers or batch sizes, so an `InMemoryExporter` can be
+ * inspected at once. Throws when `beforeSend*` processors are configured,
+ * as they may be async; await `core.flushAll()` instead.
+ */
+export function flushSync(
+  core: LumberjackCore | undefined = LumberjackCore.getInstance()
+): void {
+  core?.flushSync();
+}
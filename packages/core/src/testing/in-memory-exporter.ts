@@ -0,0 +1,119 @@
+import type {
+  EnrichedLogEntry,
+  EnrichedMetricsRequest,
+  EnrichedRegisteredObject,
+  EnrichedSpanRequest,
+  Exporter,
+  ExportResult,
+} from "../exporter.js";
+import type { OTLPSpan } from "../span-types.js";
+
+/**
+ * Exporter that keeps everything in memory for assertions. Items are
+ * recorded as soon as an export is called, so they can be inspected right
+ * after `flushSync()`. Set `shouldSucceed` to false to simulate failures.
+ */
+export class InMemoryExporter implements Exporter {
+  public exportedLogs: EnrichedLogEntry[] = [];
+  public exportedObjects: EnrichedRegisteredObject[] = [];
+  public exportedSpans: EnrichedSpanRequest[] = [];
+  public exportedMetrics: EnrichedMetricsRequest[] = [];
+  public shouldSucceed: boolean = true;
+  public errorMessage: string = "Mock export error";
+
+  /** Every exported span, across requests */
+  get spans(): OTLPSpan[] {
+    return this.exportedSpans.flatMap((request) =>
+      request.resourceSpans.flatMap(
+        (resourceSpans) =>
+          resourceSpans.scopeSpans?.flatMap((scopeSpans) => scopeSpans.spans) ??
+          []
+      )
+    );
+  }
+
+  async exportLogs(logs: EnrichedLogEntry[]): Promise<ExportResult> {
+    if (!this.shouldSucceed) {
+      return this.failure();
+    }
+
+    this.exportedLogs.push(...logs);
+    return {
+      success: true,
+      itemsExported: logs.length,
+    };
+  }
+
+  async exportObjects(
+    objects: EnrichedRegisteredObject[]
+  ): Promise<ExportResult> {
+    if (!this.shouldSucceed) {
+      return this.failure();
+    }
+
+    this.exportedObjects.push(...objects);
+    return {
+      success: true,
+      itemsExported: objects.length,
+    };
+  }
+
+  async exportSpans(spans: EnrichedSpanRequest): Promise<ExportResult> {
+    if (!this.shouldSucceed) {
+      return this.failure();
+    }
+
+    this.exportedSpans.push(spans);
+    const spanCount =
+      spans.resourceSpans?.reduce(
+        (total, rs) =>
+          total +
+          (rs.scopeSpans?.reduce(
+            (scopeTotal, ss) => scopeTotal + (ss.spans?.length || 0),
+            0
+          ) || 0),
+        0
+      ) || 0;
+    return {
+      success: true,
+      itemsExported: spanCount,
+    };
+  }
+
+  async exportMetrics(request: EnrichedMetricsRequest): Promise<ExportResult> {
+    if (!this.shouldSucceed) {
+      return this.failure();
+    }
+
+    this.exportedMetrics.push(request);
+    return {
+      success: true,
+      itemsExported: request.metrics.reduce(
+        (total, metric) => total + metric.points.length,
+        0
+      ),
+    };
+  }
+
+  async shutdown(): Promise<void> {
+    // Nothing to release
+  }
+
+  /** Forget everything exported and succeed again */
+  reset(): void {
+    this.exportedLogs = [];
+    this.exportedObjects = [];
+    this.exportedSpans = [];
+    this.exportedMetrics = [];
+    this.shouldSucceed = true;
+    this.errorMessage = "Mock export error";
+  }
+
+  private failure(): ExportResult {
+    return {
+      success: false,
+      error: new Error(this.errorMessage),
+      itemsExported: 0,
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it } from "@jest/globals";
+import { LumberjackContext } from "../context.js";
+import { LumberjackCore } from "../core.js";
+import {
+  flushSync,
+  InMemoryExporter,
+  lumberjackMatchers,
+  resetLumberjack,
+  useDeterministicIds,
+} from "./index.js";
+import type { LumberjackMatchers } from "./index.js";
+
+declare module "expect" {
+  interface Matchers<R extends void | Promise<void>>
+    extends LumberjackMatchers<R> {}
+}
+
+expect.extend(lumberjackMatchers);
+
+describe("testing", () => {
+  let core: LumberjackCore | undefined;
+
+  const createCore = (exporter: InMemoryExporter) => {
+    core = LumberjackCore.create({ exporter, batchSize: 1000 });
+    return core;
+  };
+
+  afterEach(async () => {
+    await core?.shutdown();
+    core = undefined;
+    await resetLumberjack();
+  });
+
+  it("should flush buffered items to the exporter synchronously", () => {
+    const exporter = new InMemoryExporter();
+    const lumberjack = createCore(exporter);
+
+    lumberjack.info("queued");
+    lumberjack.registerObject({ user: { id: "u1", plan: "pro" } });
+    expect(exporter.exportedLogs).toHaveLength(0);
+
+    flushSync(lumberjack);
+
+    expect(exporter.exportedLogs.map((log) => log.msg)).toEqual(["queued"]);
+    expect(exporter.exportedObjects).toHaveLength(1);
+  });
+
+  it("should refuse to flush synchronously through processors", () => {
+    core = LumberjackCore.create({
+      exporter: new InMemoryExporter(),
+      beforeSendLog: [async (entry) => entry],
+    });
+
+    core.info("queued");
+
+    expect(() => flushSync(core)).toThrow(/beforeSend processors/);
+    expect(() => expect(core).toHaveLogged()).toThrow(/flushAll/);
+  });
+
+  it("should match logged entries by level, message and props", () => {
+    const lumberjack = createCore(new InMemoryExporter());
+
+    lumberjack.error("Request timeout after 30s", { attempt: 3 });
+
+    expect(lumberjack).toHaveLogged({ level: "error", message: /timeout/ });
+    expect(lumberjack).toHaveLogged({
+      props: { attempt: expect.any(Number) },
+    });
+    expect(lumberjack).not.toHaveLogged({ level: "warn" });
+    expect(() =>
+      expect(lumberjack).toHaveLogged({ message: "missing" })
+    ).toThrow(/error Request timeout after 30s/);
+  });
+
+  it("should match registered objects and spans", async () => {
+    const exporter = new InMemoryExporter();
+    const lumberjack = createCore(exporter);
+    await exporter.exportSpans({
+      resourceSpans: [
+        {
+          scopeSpans: [
+            {
+              spans: [
+                {
+                  traceId: "a".repeat(32),
+                  spanId: "b".repeat(16),
+                  name: "GET /users",
+                  kind: 2,
+                  startTimeUnixNano: "0",
+                  endTimeUnixNano: "1",
+                  attributes: [
+                    { key: "http.status_code", value: { intValue: "200" } },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      project_name: "test-project",
+      sdk_version: "2",
+    });
+
+    lumberjack.registerObject({ user: { id: "u1" } });
+
+    expect(lumberjack).toHaveRegistered("user", "u1");
+    expect(lumberjack).not.toHaveRegistered("user", "u2");
+    expect(exporter).toHaveSpan("GET /users", { "http.status_code": 200 });
+    expect(exporter).not.toHaveSpan(/^POST/);
+  });
+
+  it("should generate deterministic IDs until reset", async () => {
+    useDeterministicIds();
+
+    expect(LumberjackContext.generateTraceId()).toBe(`${"0".repeat(31)}1`);
+    expect(LumberjackContext.generateSpanId()).toBe(`${"0".repeat(15)}1`);
+    expect(LumberjackContext.generateSpanId()).toBe(`${"0".repeat(15)}2`);
+
+    await resetLumberjack();
+
+    expect(LumberjackContext.generateSpanId()).not.toBe(`${"0".repeat(15)}3`);
+  });
+
+  it("should clear the global instance", async () => {
+    LumberjackCore.init({ exporter: new InMemoryExporter() });
+    expect(LumberjackCore.getInstance()).toBeDefined();
+
+    await resetLumberjack();
+
+    expect(LumberjackCore.getInstance()).toBeUndefined();
+    expect(globalThis.__LUMBERJACK_CORE__).toBeUndefined();
+  });
+});
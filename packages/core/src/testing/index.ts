@@ -0,0 +1,13 @@
+/**
+ * Test utilities, published as `@lumberjack-sdk/core/testing`
+ */
+export type { IdGenerator } from "../context.js";
+export {
+  createDeterministicIdGenerator,
+  flushSync,
+  resetLumberjack,
+  useDeterministicIds,
+} from "./helpers.js";
+export { InMemoryExporter } from "./in-memory-exporter.js";
+export { lumberjackMatchers } from "./matchers.js";
+export type { LogExpectation, LumberjackMatchers } from "./matchers.js";
@@ -0,0 +1,174 @@
+import { LumberjackCore } from "../core.js";
+import type { EnrichedLogEntry } from "../exporter.js";
+import { attributeValue } from "../span-types.js";
+import type { LogLevelType } from "../types.js";
+import { flushSync } from "./helpers.js";
+import { InMemoryExporter } from "./in-memory-exporter.js";
+
+/** What a logged entry must match; omitted fields match anything */
+export interface LogExpectation {
+  level?: LogLevelType;
+  /** Exact message, or a pattern tested against it */
+  message?: string | RegExp;
+  /** Props that must be present, compared with the test runner's equality */
+  props?: Record<string, unknown>;
+  source?: string;
+}
+
+/**
+ * Matcher signatures, to merge into the test runner's types, e.g. for Jest:
+ * `declare module "expect" { interface Matchers<R> extends LumberjackMatchers<R> {} }`
+ */
+export interface LumberjackMatchers<R = unknown> {
+  toHaveLogged(expected?: LogExpectation): R;
+  toHaveRegistered(name: string, id?: string): R;
+  toHaveSpan(name: string | RegExp, attributes?: Record<string, unknown>): R;
+}
+
+/** The parts of Jest's and Vitest's matcher context used here */
+interface MatcherContext {
+  isNot?: boolean;
+  equals(actual: unknown, expected: unknown): boolean;
+}
+
+interface MatcherResult {
+  pass: boolean;
+  message: () => string;
+}
+
+/**
+ * Matchers for `expect.extend(lumberjackMatchers)`. They accept an
+ * `InMemoryExporter`, or a `LumberjackCore` exporting to one, in which case
+ * buffered items are flushed first with `flushSync()`.
+ */
+export const lumberjackMatchers = {
+  toHaveLogged(
+    this: MatcherContext,
+    received: unknown,
+    expected: LogExpectation = {}
+  ): MatcherResult {
+    const exporter = resolveExporter(received);
+    const logs = exporter.exportedLogs;
+    const pass = logs.some((log) => matchesLog(this, log, expected));
+
+    return {
+      pass,
+      message: () =>
+        `expected ${this.isNot ? "no log" : "a log"} matching ${stringify(
+          expected
+        )}, logged:\n${listOrNone(logs.map(describeLog))}`,
+    };
+  },
+
+  toHaveRegistered(
+    this: MatcherContext,
+    received: unknown,
+    name: string,
+    id?: string
+  ): MatcherResult {
+    const exporter = resolveExporter(received);
+    const objects = exporter.exportedObjects;
+    const pass = objects.some(
+      (object) =>
+        object.name === name && (id === undefined || object.id === String(id))
+    );
+    const target = id === undefined ? name : `${name} ${id}`;
+
+    return {
+      pass,
+      message: () =>
+        `expected ${target} ${
+          this.isNot ? "not " : ""
+        }to be registered, registered:\n${listOrNone(
+          objects.map((object) => `${object.name} ${object.id}`)
+        )}`,
+    };
+  },
+
+  toHaveSpan(
+    this: MatcherContext,
+    received: unknown,
+    name: string | RegExp,
+    attributes: Record<string, unknown> = {}
+  ): MatcherResult {
+    const exporter = resolveExporter(received);
+    const spans = exporter.spans;
+    const pass = spans.some(
+      (span) =>
+        (typeof name === "string"
+          ? span.name === name
+          : name.test(span.name)) &&
+        Object.entries(attributes).every(([key, value]) =>
+          this.equals(attributeValue(span.attributes, key), value)
+        )
+    );
+
+    return {
+      pass,
+      message: () =>
+        `expected ${this.isNot ? "no span" : "a span"} named ${String(name)}${
+          Object.keys(attributes).length > 0
+            ? ` with attributes ${stringify(attributes)}`
+            : ""
+        }, exported:\n${listOrNone(spans.map((span) => span.name))}`,
+    };
+  },
+};
+
+function resolveExporter(received: unknown): InMemoryExporter {
+  if (received instanceof InMemoryExporter) {
+    return received;
+  }
+  if (received instanceof LumberjackCore) {
+    flushSync(received);
+    const exporter = received.getExporter();
+    if (exporter instanceof InMemoryExporter) {
+      return exporter;
+    }
+    throw new Error(
+      "[Lumberjack] The LumberjackCore under test must use an InMemoryExporter"
+    );
+  }
+  throw new Error(
+    "[Lumberjack] Expected an InMemoryExporter or a LumberjackCore"
+  );
+}
+
+function matchesLog(
+  context: MatcherContext,
+  log: EnrichedLogEntry,
+  expected: LogExpectation
+): boolean {
+  if (expected.level !== undefined && log.lvl !== expected.level) {
+    return false;
+  }
+  if (expected.source !== undefined && log.src !== expected.source) {
+    return false;
+  }
+  if (expected.message !== undefined) {
+    const matches =
+      typeof expected.message === "string"
+        ? log.msg === expected.message
+        : expected.message.test(log.msg);
+    if (!matches) {
+      return false;
+    }
+  }
+  return Object.entries(expected.props ?? {}).every(([key, value]) =>
+    context.equals(log.props?.[key], value)
+  );
+}
+
+function stringify(value: object): string {
+  return JSON.stringify(value, (_, v) => (v instanceof RegExp ? String(v) : v));
+}
+
+function describeLog(log: EnrichedLogEntry): string {
+  return `${log.lvl} ${log.msg}${log.props ? ` ${stringify(log.props)}` : ""}`;
+}
+
+function listOrNone(lines: string[]): string {
+  return lines.length > 0
+    ? lines.map((line) => `  ${line}`).join("\n")
+    : "  (nothing)";
+}
@@ -0,0 +1,173 @@
+import {
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+import { SpanStatusCode, trace } from "@opentelemetry/api";
+import {
+  InMemorySpanExporter,
+  NodeTracerProvider,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from "@opentelemetry/sdk-trace-node";
+import { LumberjackContext } from "./context.js";
+import type { LumberjackCore } from "./core.js";
+import { LumberjackSpanProcessor } from "./span-processor.js";
+import {
+  LUMBERJACK_TRACER_NAME,
+  startSpan,
+  traced,
+  withSpan,
+} from "./tracing.js";
+
+describe("tracing", () => {
+  describe("without a tracer provider", () => {
+    it("should still give logs inside the span their own IDs", () => {
+      LumberjackContext.run({ traceId: "a".repeat(32) }, () => {
+        withSpan("no-provider", () => {
+          expect(LumberjackContext.getTraceId()).toBe("a".repeat(32));
+          expect(LumberjackContext.getSpanId()).toMatch(/^[0-9a-f]{16}$/);
+        });
+      });
+    });
+  });
+
+  describe("with a tracer provider", () => {
+    const exporter = new InMemorySpanExporter();
+
+    const finished = () => exporter.getFinishedSpans();
+
+    beforeAll(() => {
+      const provider = new NodeTracerProvider({
+        spanProcessors: [new SimpleSpanProcessor(exporter)],
+      });
+      provider.register();
+    });
+
+    afterEach(() => {
+      exporter.reset();
+    });
+
+    it("should create a span and return the callback result", () => {
+      const result = withSpan("compute", { "app.step": "one" }, () => 42);
+
+      expect(result).toBe(42);
+      expect(finished()).toHaveLength(1);
+      expect(finished()[0].name).toBe("compute");
+      expect(finished()[0].attributes).toEqual({ "app.step": "one" });
+      expect(finished()[0].instrumentationScope.name).toBe(
+        LUMBERJACK_TRACER_NAME
+      );
+    });
+
+    it("should keep LumberjackContext in sync with the active span", async () => {
+      await withSpan("outer", async (outer) => {
+        expect(LumberjackContext.getTraceId()).toBe(
+          outer.spanContext().traceId
+        );
+        expect(LumberjackContext.getSpanId()).toBe(outer.spanContext().spanId);
+
+        await withSpan("inner", async (inner) => {
+          expect(LumberjackContext.getSpanId()).toBe(
+            inner.spanContext().spanId
+          );
+          expect(LumberjackContext.get("parentSpanId")).toBe(
+            outer.spanContext().spanId
+          );
+        });
+      });
+
+      const [inner, outer] = finished();
+      expect(inner.parentSpanContext?.spanId).toBe(outer.spanContext().spanId);
+      expect(LumberjackContext.getStore()).toBeUndefined();
+    });
+
+    it("should record exceptions and set error status on throw", () => {
+      expect(() =>
+        withSpan("fails", () => {
+          throw new Error("boom");
+        })
+      ).toThrow("boom");
+
+      const [span] = finished();
+      expect(span.status).toEqual({
+        code: SpanStatusCode.ERROR,
+        message: "boom",
+      });
+      expect(span.events[0].name).toBe("exception");
+    });
+
+    it("should record rejections of async callbacks", async () => {
+      await expect(
+        withSpan("rejects", async () => {
+          throw new Error("async boom");
+        })
+      ).rejects.toThrow("async boom");
+
+      expect(finished()[0].status.code).toBe(SpanStatusCode.ERROR);
+    });
+
+    it("should start spans parented on the active span without activating them", () => {
+      withSpan("parent", (parent) => {
+        const child = startSpan("manual", { "app.id": 1 });
+        expect(trace.getActiveSpan()).toBe(parent);
+        child.end();
+      });
+
+      const [manual, parent] = finished();
+      expect(manual.name).toBe("manual");
+      expect(manual.attributes).toEqual({ "app.id": 1 });
+      expect(manual.parentSpanContext?.spanId).toBe(
+        parent.spanContext().spanId
+      );
+    });
+
+    it("should trace decorated methods", async () => {
+      class Checkout {
+        @traced()
+        async pay(amount: number) {
+          return amount * 2;
+        }
+
+        @traced("checkout.refund", { "app.kind": "refund" })
+        refund() {
+          throw new Error("not allowed");
+        }
+      }
+
+      const checkout = new Checkout();
+
+      await expect(checkout.pay(21)).resolves.toBe(42);
+      expect(() => checkout.refund()).toThrow("not allowed");
+
+      const [pay, refund] = finished();
+      expect(pay.name).toBe("Checkout.pay");
+      expect(refund.name).toBe("checkout.refund");
+      expect(refund.attributes).toEqual({ "app.kind": "refund" });
+      expect(refund.status.code).toBe(SpanStatusCode.ERROR);
+    });
+  });
+
+  describe("LumberjackSpanProcessor", () => {
+    it("should collect spans created through the tracing API", () => {
+      const addSpan = jest.fn();
+      const processor = new LumberjackSpanProcessor({
+        instance: { addSpan } as unknown as LumberjackCore,
+      });
+
+      processor.onEnd({
+        attributes: {},
+        instrumentationScope: { name: LUMBERJACK_TRACER_NAME },
+      } as unknown as ReadableSpan);
+      processor.onEnd({
+        attributes: {},
+        instrumentationScope: { name: "some-library" },
+      } as unknown as ReadableSpan);
+
+      expect(addSpan).toHaveBeenCalledTimes(1);
+    });
+  });
+});
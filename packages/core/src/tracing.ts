@@ -0,0 +1,164 @@
+import {
+  Attributes,
+  isSpanContextValid,
+  Span,
+  SpanOptions,
+  SpanStatusCode,
+  trace,
+  Tracer,
+} from "@opentelemetry/api";
+import { LumberjackContext } from "./context.js";
+import type { TraceContext } from "./types.js";
+
+/** Instrumentation scope of spans created through this module */
+export const LUMBERJACK_TRACER_NAME = "@lumberjack-sdk/core";
+
+function getTracer(): Tracer {
+  return trace.getTracer(LUMBERJACK_TRACER_NAME);
+}
+
+/**
+ * Start a span that the caller must `end()`. It is parented on the active
+ * span but not made active itself; use `withSpan` for that.
+ */
+export function startSpan(
+  name: string,
+  attributes: Attributes = {},
+  options: SpanOptions = {}
+): Span {
+  return getTracer().startSpan(name, {
+    ...options,
+    attributes: { ...options.attributes, ...attributes },
+  });
+}
+
+/**
+ * Run `fn` inside a new active span. The span is ended when `fn` returns or
+ * its promise settles; thrown errors and rejections are recorded as
+ * exceptions and set the span status to ERROR before being re-thrown.
+ * LumberjackContext trace and span IDs follow the span, so logs written
+ * inside `fn` are correlated with it.
+ */
+export function withSpan<T>(name: string, fn: (span: Span) => T): T;
+export function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => T
+): T;
+export function withSpan<T>(
+  name: string,
+  attributesOrFn: Attributes | ((span: Span) => T),
+  maybeFn?: (span: Span) => T
+): T {
+  const fn = typeof attributesOrFn === "function" ? attributesOrFn : maybeFn!;
+  const attributes = typeof attributesOrFn === "function" ? {} : attributesOrFn;
+  const parent = LumberjackContext.getStore();
+  const parentSpanId = activeSpanId() ?? parent?.spanId;
+
+  return getTracer().startActiveSpan(name, { attributes }, (span) =>
+    LumberjackContext.run(
+      { ...parent, ...contextIds(span, parent, parentSpanId) },
+      () => runInSpan(span, () => fn(span))
+    )
+  );
+}
+
+/**
+ * Method decorator that wraps each call in `withSpan`. The span name
+ * defaults to `ClassName.methodName`. Works with both standard and
+ * `experimentalDecorators` TypeScript decorators.
+ */
+export function traced(name?: string, attributes: Attributes = {}) {
+  const wrap = (method: (...args: any[]) => any, methodName: string) =>
+    function (this: any, ...args: any[]) {
+      const spanName = name ?? `${this?.constructor?.name}.${methodName}`;
+      return withSpan(spanName, attributes, () => method.apply(this, args));
+    };
+
+  return function (
+    target: any,
+    contextOrKey: any,
+    descriptor?: PropertyDescriptor
+  ): any {
+    // Standard decorators: (method, context)
+    if (typeof contextOrKey === "object" && contextOrKey?.kind === "method") {
+      return wrap(target, String(contextOrKey.name));
+    }
+
+    // experimentalDecorators: (prototype, key, descriptor)
+    if (descriptor && typeof descriptor.value === "function") {
+      descriptor.value = wrap(descriptor.value, String(contextOrKey));
+      return descriptor;
+    }
+
+    return undefined;
+  };
+}
+
+function activeSpanId(): string | undefined {
+  const active = trace.getActiveSpan()?.spanContext();
+  return active && isSpanContextValid(active) ? active.spanId : undefined;
+}
+
+function contextIds(
+  span: Span,
+  parent: TraceContext | undefined,
+  parentSpanId: string | undefined
+): TraceContext {
+  const spanContext = span.spanContext();
+  const ids: TraceContext = isSpanContextValid(spanContext)
+    ? { traceId: spanContext.traceId, spanId: spanContext.spanId }
+    : // No tracer provider is registered: keep Lumberjack's own IDs so logs
+      // inside the span still correlate with each other
+      {
+        traceId: parent?.traceId ?? LumberjackContext.generateTraceId(),
+        spanId: LumberjackContext.generateSpanId(),
+      };
+
+  if (parentSpanId) {
+    ids.parentSpanId = parentSpanId;
+  }
+  return ids;
+}
+
+function runInSpan<T>(span: Span, fn: () => T): T {
+  let result: T;
+  try {
+    result = fn();
+  } catch (error) {
+    recordError(span, error);
+    span.end();
+    throw error;
+  }
+
+  if (isPromiseLike(result)) {
+    return Promise.resolve(result).then(
+      (value) => {
+        span.end();
+        return value;
+      },
+      (error) => {
+        recordError(span, error);
+        span.end();
+        throw error;
+      }
+    ) as T;
+  }
+
+  span.end();
+  return result;
+}
+
+function recordError(span: Span, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  span.recordException(error instanceof Error ? error : message);
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as PromiseLike<unknown>).then === "function"
+  );
+}
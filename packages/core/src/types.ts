@@ -1,4 +1,17 @@
+import type { OverflowPolicy } from "./bounded-buffer.js";
 import type { Exporter } from "./exporter.js";
+import type {
+  LogProcessor,
+  ObjectProcessor,
+  SpanProcessorFn,
+} from "./processors.js";
+import type { PersistentQueueOptions } from "./persistent-queue.js";
+import type { RedactionConfig } from "./redaction.js";
+import type { RuntimeMetricsConfig } from "./runtime-metrics.js";
+import type { SpanFilter } from "./span-filter.js";
+import type { TailSamplingConfig } from "./tail-sampler.js";
+import type { RetryOptions } from "./retry.js";
+import type { SerializeOptions } from "./util/serialize.js";
 
 export interface LogLevel {
   TRACE: "trace";
@@ -27,14 +40,34 @@ export interface LogEntry {
   file?: string | undefined;
   line?: number | undefined;
   function?: string | undefined;
-  exception?: {
-    name: string;
-    message: string;
-    stack: string;
-  };
+  exception?: ExceptionInfo;
   props?: Record<string, any>;
 }
 
+export interface ExceptionInfo {
+  name: string;
+  message: string;
+  stack: string;
+  /** Custom enumerable properties such as `code` or `statusCode` */
+  properties?: Record<string, any>;
+  /** The error's `cause`, followed recursively */
+  cause?: ExceptionInfo;
+  /** Inner errors of an AggregateError */
+  errors?: ExceptionInfo[];
+}
+
+export interface ExceptionForAPI {
+  ext: string;
+  exv: string;
+  tb?: string | undefined;
+  /** Custom error properties */
+  exp?: Record<string, any> | undefined;
+  /** Cause chain, outermost first */
+  exc?: ExceptionForAPI[] | undefined;
+  /** AggregateError inner errors */
+  exa?: ExceptionForAPI[] | undefined;
+}
+
 export interface LogEntryForAPI {
   msg: string;
   lvl: string;
@@ -48,6 +81,9 @@ export interface LogEntryForAPI {
   sid?: string | undefined;
   exv?: string | undefined;
   ext?: string | undefined;
+  exp?: ExceptionForAPI["exp"];
+  exc?: ExceptionForAPI["exc"];
+  exa?: ExceptionForAPI["exa"];
   fn?: string | undefined;
 }
 
@@ -60,11 +96,106 @@ export interface LumberjackConfig {
   flushInterval?: number;
   captureConsole?: boolean;
   captureUnhandled?: boolean;
+  /**
+   * Exit the process after an uncaught exception or unhandled rejection has
+   * been captured and flushed, as Node does when no handler is registered.
+   * Ignored when the application registers its own handlers.
+   * @default true
+   */
+  exitOnUnhandled?: boolean;
   debug?: boolean;
   serviceToken?: string;
   gatekeeperEndpoint?: string;
   exporter?: Exporter;
+  /**
+   * Maximum number of logs, objects and spans (each) held in memory
+   * @default 10000
+   */
+  maxQueueSize?: number;
+  /**
+   * What to do when a queue is full. `block` keeps the cap and rejects
+   * entries logged into a full queue; producers avoid the loss by awaiting
+   * `LumberjackCore.waitForCapacity()`.
+   * @default "drop-oldest"
+   */
+  overflowPolicy?: OverflowPolicy;
+  /** Retry policy for the default HttpExporter */
+  retry?: RetryOptions;
+  /**
+   * Limits for converting log metadata to plain data when the entry is
+   * created
+   */
+  serialization?: SerializeOptions;
+  /**
+   * Periodically send the SDK's own health counters (see `getStats()`) to
+   * Lumberjack, if the exporter supports it
+   * @default false
+   */
+  sendInternalMetrics?: boolean;
+  /**
+   * How often internal metrics are sent, in milliseconds
+   * @default 60000
+   */
+  internalMetricsInterval?: number;
+  /**
+   * How often metrics recorded through `Lumberjack.metrics` are aggregated
+   * and exported, in milliseconds
+   * @default 60000
+   */
+  metricsInterval?: number;
   getHeaders?: () => Promise<Record<string, string>>;
+  /**
+   * Entries below this level are discarded before they are buffered
+   * Falls back to the LUMBERJACK_LOG_LEVEL environment variable
+   * @default "trace"
+   */
+  minLevel?: LogLevelType;
+  /**
+   * Per-module minimum levels, keyed by a glob matched against the caller's
+   * file path or function name, e.g. `{ "src/db/**": "debug", "*": "warn" }`.
+   * Supports `**`, `*`, `?` and `{a,b}` alternatives.
+   */
+  levelOverrides?: Record<string, LogLevelType>;
+  /**
+   * Ordered processors run on each log entry during flush.
+   * Return the entry (possibly modified) or null to drop it.
+   */
+  beforeSendLog?: LogProcessor[];
+  /** Ordered processors run on each registered object during flush */
+  beforeSendObject?: ObjectProcessor[];
+  /** Ordered processors run on each OTLP span during flush */
+  beforeSendSpan?: SpanProcessorFn[];
+  /**
+   * Which ended spans are exported: a preset (`"nextjs"`, `"all"`, `"root"`),
+   * a predicate, or allow/deny rules by instrumentation scope and span name
+   * @default "nextjs"
+   */
+  spanFilter?: SpanFilter;
+  /**
+   * Redact PII from log props, exception messages, registered object fields
+   * and span attributes before export. Pass `{}` to enable the defaults.
+   */
+  redaction?: RedactionConfig;
+  /**
+   * Write log entries to an on-disk write-ahead queue before buffering them,
+   * so entries not yet exported survive a crash or restart. Replayed on the
+   * next init and truncated after each successful export. Node.js only.
+   */
+  persistentQueue?: PersistentQueueOptions;
+  /**
+   * Tail-based trace sampling: hold each trace's spans until its root span
+   * ends, then keep it if a span errored, it was slow, a span matched an
+   * attribute rule, or by a fallback ratio. Every span counts towards the
+   * decision; only those accepted by `spanFilter` are exported.
+   */
+  tailSampling?: TailSamplingConfig;
+  /**
+   * Sample Node.js process health (event-loop delay and utilization, memory,
+   * GC pauses, active handles, CPU) on a timer and report it as metrics or
+   * logs tagged with the deployment context. `true` uses the defaults.
+   * Node.js only.
+   */
+  runtimeMetrics?: boolean | RuntimeMetricsConfig;
 }
 
 export interface TraceContext {
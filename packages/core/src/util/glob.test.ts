@@ -0,0 +1,28 @@
+import { describe, expect, it } from "@jest/globals";
+import { globToRegExp } from "./glob.js";
+
+describe("globToRegExp", () => {
+  it("should translate globs", () => {
+    expect(globToRegExp("**/*.map").test("app.js.map")).toBe(true);
+    expect(globToRegExp("**/*.map").test("a/b/app.js.map")).toBe(true);
+    expect(globToRegExp("*.map").test("a/app.js.map")).toBe(false);
+    expect(globToRegExp("**/*.{js,mjs}.map").test("a/app.mjs.map")).toBe(true);
+    expect(globToRegExp("**/*.{js,mjs}.map").test("a/app.css.map")).toBe(false);
+    expect(globToRegExp("chunk-?.js").test("chunk-1.js")).toBe(true);
+  });
+
+  it("should escape characters outside a group", () => {
+    expect(globToRegExp("a}.js").test("a}.js")).toBe(true);
+    expect(globToRegExp("(a).js").test("(a).js")).toBe(true);
+    expect(globToRegExp("a.js").test("abjs")).toBe(false);
+  });
+
+  it("should match the end of a path with matchSuffix", () => {
+    const glob = globToRegExp("src/db/**", { matchSuffix: true });
+
+    expect(glob.test("/app/src/db/client.ts")).toBe(true);
+    expect(glob.test("src/db/client.ts")).toBe(true);
+    expect(glob.test("/app/mysrc/db/client.ts")).toBe(false);
+    expect(globToRegExp("src/db/**").test("/app/src/db/client.ts")).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+export interface GlobOptions {
+  /**
+   * Match the end of a path instead of all of it, so `src/db/**` matches
+   * `/app/src/db/client.ts`
+   * @default false
+   */
+  matchSuffix?: boolean;
+}
+
+/**
+ * Translate a glob into a regular expression over forward-slash paths.
+ * Supports `**`, `*`, `?` and `{a,b}` alternatives.
+ */
+export function globToRegExp(glob: string, options: GlobOptions = {}): RegExp {
+  let pattern = "";
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i] as string;
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" also matches no directory at all
+        if (glob[i + 2] === "/") {
+          pattern += "(?:.*/)?";
+          i += 2;
+        } else {
+          pattern += ".*";
+          i += 1;
+        }
+      } else {
+        pattern += "[^/]*";
+      }
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else if (char === "{") {
+      inGroup = true;
+      pattern += "(?:";
+    } else if (char === "}" && inGroup) {
+      inGroup = false;
+      pattern += ")";
+    } else if (char === "," && inGroup) {
+      pattern += "|";
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`${options.matchSuffix ? "(?:^|/)" : "^"}${pattern}$`);
+}
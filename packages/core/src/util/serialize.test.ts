@@ -0,0 +1,155 @@
+import { describe, expect, it } from "@jest/globals";
+import { safeStringify, serializeRecord, serializeValue } from "./serialize.js";
+
+describe("serializeValue", () => {
+  it("should replace cycles but keep shared references", () => {
+    const shared = { id: 1 };
+    const obj: any = { a: shared, b: shared };
+    obj.self = obj;
+
+    expect(serializeValue(obj)).toEqual({
+      a: { id: 1 },
+      b: { id: 1 },
+      self: "[Circular]",
+    });
+  });
+
+  it("should convert BigInt, non-finite numbers, symbols and functions", () => {
+    expect(
+      serializeValue({
+        big: BigInt("9007199254740993"),
+        nan: NaN,
+        inf: -Infinity,
+        sym: Symbol("s"),
+        fn: function handler() {},
+        missing: undefined,
+      })
+    ).toEqual({
+      big: "9007199254740993",
+      nan: "NaN",
+      inf: "-Infinity",
+      sym: "Symbol(s)",
+      fn: "[Function: handler]",
+    });
+  });
+
+  it("should convert Map, Set and typed arrays", () => {
+    expect(
+      serializeValue({
+        map: new Map<unknown, unknown>([
+          ["a", 1],
+          [2, new Set(["x"])],
+        ]),
+        set: new Set([1, 2]),
+        bytes: new Uint8Array([1, 2, 3]),
+        buffer: new ArrayBuffer(8),
+      })
+    ).toEqual({
+      map: { a: 1, "2": ["x"] },
+      set: [1, 2],
+      bytes: [1, 2, 3],
+      buffer: "[ArrayBuffer byteLength=8]",
+    });
+  });
+
+  it("should honour toJSON, Dates and class instances", () => {
+    class Money {
+      constructor(public amount: number, public currency: string) {}
+      toJSON() {
+        return `${this.amount} ${this.currency}`;
+      }
+    }
+    class Plain {
+      value = 1;
+    }
+
+    expect(
+      serializeValue({
+        price: new Money(5, "EUR"),
+        plain: new Plain(),
+        at: new Date(0),
+      })
+    ).toEqual({
+      price: "5 EUR",
+      plain: { value: 1 },
+      at: "1970-01-01T00:00:00.000Z",
+    });
+  });
+
+  it("should serialize nested errors with cause and custom properties", () => {
+    const cause = new TypeError("socket closed");
+    const error = Object.assign(new Error("request failed"), {
+      cause,
+      code: "ECONNRESET",
+    });
+
+    const result = serializeValue({ error }) as any;
+
+    expect(result.error).toMatchObject({
+      name: "Error",
+      message: "request failed",
+      code: "ECONNRESET",
+      cause: { name: "TypeError", message: "socket closed" },
+    });
+    expect(result.error.stack).toContain("request failed");
+  });
+
+  it("should apply depth and size limits", () => {
+    const result = serializeValue(
+      {
+        deep: { a: { b: { c: 1 } } },
+        list: [1, 2, 3, 4],
+        text: "abcdef",
+      },
+      { maxDepth: 2, maxArrayLength: 2, maxStringLength: 3 }
+    );
+
+    expect(result).toEqual({
+      deep: { a: "[Object]" },
+      list: [1, 2, "[... 2 more items]"],
+      text: "abc...[3 more chars]",
+    });
+    expect(serializeValue({ a: 1, b: 2, c: 3 }, { maxObjectKeys: 1 })).toEqual({
+      a: 1,
+      "[truncated]": "2 more keys",
+    });
+  });
+
+  it("should not throw on getters that throw", () => {
+    const obj = {
+      get broken() {
+        throw new Error("nope");
+      },
+    };
+
+    expect(serializeValue(obj)).toEqual({ broken: "[Throws: nope]" });
+  });
+
+  it("should return a detached copy", () => {
+    const props = { user: { name: "before" } };
+    const result = serializeRecord(props);
+    props.user.name = "after";
+
+    expect(result.user.name).toBe("before");
+  });
+
+  it("should be deterministic", () => {
+    const make = () => {
+      const obj: any = { n: BigInt(1), s: new Set([1]), m: new Map() };
+      obj.loop = obj;
+      return obj;
+    };
+
+    expect(safeStringify(make())).toBe(safeStringify(make()));
+    expect(safeStringify(make())).toBe(
+      '{"n":"1","s":[1],"m":{},"loop":"[Circular]"}'
+    );
+  });
+});
+
+describe("safeStringify", () => {
+  it("should stringify values JSON cannot represent at the top level", () => {
+    expect(safeStringify(undefined)).toBe("undefined");
+    expect(safeStringify(BigInt(10))).toBe('"10"');
+  });
+});
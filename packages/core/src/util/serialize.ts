@@ -0,0 +1,263 @@
+export interface SerializeOptions {
+  /**
+   * Nesting depth below which objects and arrays are replaced by a
+   * placeholder
+   * @default 10
+   */
+  maxDepth?: number;
+  /**
+   * Longer strings are truncated
+   * @default 8192
+   */
+  maxStringLength?: number;
+  /**
+   * Items kept per array, Set or typed array
+   * @default 100
+   */
+  maxArrayLength?: number;
+  /**
+   * Keys kept per object or Map
+   * @default 100
+   */
+  maxObjectKeys?: number;
+}
+
+const DEFAULT_SERIALIZE_OPTIONS: Required<SerializeOptions> = {
+  maxDepth: 10,
+  maxStringLength: 8192,
+  maxArrayLength: 100,
+  maxObjectKeys: 100,
+};
+
+const CIRCULAR = "[Circular]";
+const TRUNCATED_KEY = "[truncated]";
+
+/**
+ * Convert an arbitrary value into plain, JSON-safe data: cycles become
+ * "[Circular]", BigInt and non-finite numbers become strings, Map/Set and
+ * typed arrays become objects and arrays, toJSON() is honoured and Errors
+ * keep their name, message, stack, cause and custom properties. The result
+ * is a detached copy, so later mutations of the input are not reflected,
+ * and the same input always produces the same output.
+ */
+export function serializeValue(
+  value: unknown,
+  options: SerializeOptions = {}
+): unknown {
+  const resolved = { ...DEFAULT_SERIALIZE_OPTIONS, ...options };
+  return new Serializer(resolved).serialize(value, 0);
+}
+
+/** `serializeValue` for values that must stay a record (e.g. log props) */
+export function serializeRecord(
+  value: Record<string, any>,
+  options: SerializeOptions = {}
+): Record<string, any> {
+  const result = serializeValue(value, options);
+  return result && typeof result === "object" && !Array.isArray(result)
+    ? (result as Record<string, any>)
+    : { value: result };
+}
+
+/** JSON.stringify that never throws */
+export function safeStringify(
+  value: unknown,
+  options: SerializeOptions = {}
+): string {
+  const json = JSON.stringify(serializeValue(value, options));
+  return json === undefined ? String(value) : json;
+}
+
+class Serializer {
+  // Only the current path, so shared (non-circular) references are kept
+  private ancestors: Set<object> = new Set();
+
+  constructor(private readonly options: Required<SerializeOptions>) {}
+
+  serialize(value: unknown, depth: number): unknown {
+    switch (typeof value) {
+      case "string":
+        return this.truncateString(value);
+      case "number":
+        return Number.isFinite(value) ? value : String(value);
+      case "bigint":
+        return value.toString();
+      case "boolean":
+      case "undefined":
+        return value;
+      case "symbol":
+        return value.toString();
+      case "function":
+        return `[Function: ${value.name || "anonymous"}]`;
+    }
+
+    if (value === null) {
+      return null;
+    }
+
+    const obj = value as object;
+    if (this.ancestors.has(obj)) {
+      return CIRCULAR;
+    }
+
+    if (obj instanceof Date) {
+      return Number.isNaN(obj.getTime()) ? "Invalid Date" : obj.toISOString();
+    }
+
+    if (obj instanceof RegExp) {
+      return obj.toString();
+    }
+
+    if (depth >= this.options.maxDepth) {
+      return Array.isArray(obj) ? "[Array]" : `[${constructorName(obj)}]`;
+    }
+
+    this.ancestors.add(obj);
+    try {
+      return this.serializeObject(obj, depth);
+    } finally {
+      this.ancestors.delete(obj);
+    }
+  }
+
+  private serializeObject(obj: object, depth: number): unknown {
+    if (obj instanceof Error) {
+      return this.serializeError(obj, depth);
+    }
+
+    if (Array.isArray(obj)) {
+      return this.serializeList(obj, depth);
+    }
+
+    if (obj instanceof Set) {
+      return this.serializeList(Array.from(obj), depth);
+    }
+
+    if (obj instanceof Map) {
+      const entries = Array.from(obj.entries()).map(
+        ([key, value]): [string, unknown] => [
+          typeof key === "string" ? key : safeStringify(key, this.options),
+          value,
+        ]
+      );
+      return this.serializeEntries(entries, depth);
+    }
+
+    if (ArrayBuffer.isView(obj) && !(obj instanceof DataView)) {
+      return this.serializeList(
+        Array.from(obj as unknown as ArrayLike<number | bigint>),
+        depth
+      );
+    }
+
+    if (obj instanceof ArrayBuffer || obj instanceof DataView) {
+      return `[${constructorName(obj)} byteLength=${obj.byteLength}]`;
+    }
+
+    const toJSON = (obj as { toJSON?: unknown }).toJSON;
+    if (typeof toJSON === "function") {
+      let json: unknown;
+      try {
+        json = toJSON.call(obj);
+      } catch (error) {
+        return throwsPlaceholder(error);
+      }
+      // toJSON returning itself would otherwise be reported as circular
+      return json === obj
+        ? this.serializeEntries(this.ownEntries(obj), depth)
+        : this.serialize(json, depth);
+    }
+
+    return this.serializeEntries(this.ownEntries(obj), depth);
+  }
+
+  private serializeError(error: Error, depth: number): Record<string, unknown> {
+    const entries: Array<[string, unknown]> = [
+      ["name", error.name],
+      ["message", error.message],
+    ];
+
+    if (error.stack) {
+      entries.push(["stack", error.stack]);
+    }
+    if ("cause" in error && error.cause !== undefined) {
+      entries.push(["cause", error.cause]);
+    }
+    // AggregateError keeps its errors in a non-enumerable property
+    const errors = (error as { errors?: unknown }).errors;
+    if (Array.isArray(errors)) {
+      entries.push(["errors", errors]);
+    }
+
+    // Custom enumerable properties such as `code` or `statusCode`
+    for (const [key, value] of this.ownEntries(error)) {
+      if (!entries.some(([existing]) => existing === key)) {
+        entries.push([key, value]);
+      }
+    }
+
+    return this.serializeEntries(entries, depth);
+  }
+
+  private serializeList(items: unknown[], depth: number): unknown[] {
+    const result = items
+      .slice(0, this.options.maxArrayLength)
+      // undefined has no JSON representation inside arrays
+      .map((item) => this.serialize(item, depth + 1) ?? null);
+
+    const remaining = items.length - this.options.maxArrayLength;
+    if (remaining > 0) {
+      result.push(`[... ${remaining} more items]`);
+    }
+
+    return result;
+  }
+
+  private serializeEntries(
+    entries: Array<[string, unknown]>,
+    depth: number
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (const [key, value] of entries.slice(0, this.options.maxObjectKeys)) {
+      const serialized = this.serialize(value, depth + 1);
+      if (serialized !== undefined) {
+        result[key] = serialized;
+      }
+    }
+
+    const remaining = entries.length - this.options.maxObjectKeys;
+    if (remaining > 0) {
+      result[TRUNCATED_KEY] = `${remaining} more keys`;
+    }
+
+    return result;
+  }
+
+  private ownEntries(obj: object): Array<[string, unknown]> {
+    return Object.keys(obj).map((key) => {
+      try {
+        return [key, (obj as Record<string, unknown>)[key]];
+      } catch (error) {
+        // Getters may throw
+        return [key, throwsPlaceholder(error)];
+      }
+    });
+  }
+
+  private truncateString(value: string): string {
+    const { maxStringLength } = this.options;
+    const excess = value.length - maxStringLength;
+    return excess > 0
+      ? `${value.slice(0, maxStringLength)}...[${excess} more chars]`
+      : value;
+  }
+}
+
+function constructorName(obj: object): string {
+  return obj.constructor?.name || "Object";
+}
+
+function throwsPlaceholder(error: unknown): string {
+  return `[Throws: ${error instanceof Error ? error.message : String(error)}]`;
+}
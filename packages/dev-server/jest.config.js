@@ -0,0 +1,25 @@
+export default {
+  preset: 'ts-jest/presets/default-esm',
+  extensionsToTreatAsEsm: ['.ts'],
+  moduleNameMapper: {
+    '^@lumberjack-sdk/core$': '<rootDir>/../core/src/index.ts',
+    '^(\\.{1,2}/.*)\\.js$': '$1'
+  },
+  testEnvironment: 'node',
+  collectCoverageFrom: [
+    'src/**/*.ts',
+    '!src/**/*.test.ts',
+    '!src/**/*.d.ts'
+  ],
+  moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node'],
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', {
+      useESM: true,
+      // Core's sources are type-checked by its own package
+      diagnostics: { exclude: ['**/core/src/**'] }
+    }]
+  },
+  testMatch: [
+    '<rootDir>/src/**/*.test.ts'
+  ]
+};
\ No newline at end of file
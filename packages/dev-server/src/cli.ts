@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+
+import { CLI_COMMANDS, runCli } from "@lumberjack-sdk/core";
+import { argv } from "process";
+import { parseArgs } from "util";
+import { DEFAULT_PORT, DevServer } from "./server.js";
+import { createLogPrinter, tailLogs } from "./tail.js";
+
+const command = argv[2];
+
+function printUsage(): void {
+  console.log("Usage: lumberjack <command> [options]");
+  console.log("");
+  console.log("Commands:");
+  console.log("  dev-server    Run a local Lumberjack API backed by SQLite");
+  console.log(
+    "    --port <port>              Port to listen on (default 8418)"
+  );
+  console.log(
+    "    --host <host>              Host to bind (default 127.0.0.1)"
+  );
+  console.log(
+    "    --db <path>                SQLite file or :memory: (default .lumberjack/dev-server.db)"
+  );
+  console.log("    --api-key <key>            Require this API key");
+  console.log("    --gatekeeper <key=bool>    Set a gatekeeper, repeatable");
+  console.log(
+    "    --gatekeeper-default <bool> Value of unset gatekeepers (default true)"
+  );
+  console.log("    --tail                     Print incoming logs");
+  console.log("    --level <level>            Only print logs at this level");
+  console.log("  tail          Follow the logs of a running dev server");
+  console.log(
+    `    --url <url>                Dev server URL (default http://127.0.0.1:${DEFAULT_PORT})`
+  );
+  console.log("    --level <level>            Only print logs at this level");
+  for (const [name, description] of Object.entries(CLI_COMMANDS)) {
+    console.log(`  ${name.padEnd(14)}${description}`);
+  }
+}
+
+function parseBoolean(value: string, option: string): boolean {
+  if (value !== "true" && value !== "false") {
+    throw new Error(`[Lumberjack] ${option} must be true or false`);
+  }
+  return value === "true";
+}
+
+async function runDevServer(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      port: { type: "string" },
+      host: { type: "string" },
+      db: { type: "string" },
+      "api-key": { type: "string" },
+      gatekeeper: { type: "string", multiple: true },
+      "gatekeeper-default": { type: "string" },
+      tail: { type: "boolean" },
+      level: { type: "string" },
+    },
+  });
+
+  const gatekeepers: Record<string, boolean> = {};
+  for (const entry of values.gatekeeper ?? []) {
+    const [key, value = "true"] = entry.split("=");
+    gatekeepers[key] = parseBoolean(value, `--gatekeeper ${key}`);
+  }
+
+  const server = new DevServer({
+    port: values.port ? Number(values.port) : DEFAULT_PORT,
+    host: values.host ?? "127.0.0.1",
+    database: values.db ?? ".lumberjack/dev-server.db",
+    gatekeepers,
+    ...(values["api-key"] ? { apiKey: values["api-key"] } : {}),
+    ...(values["gatekeeper-default"]
+      ? {
+          gatekeeperDefault: parseBoolean(
+            values["gatekeeper-default"],
+            "--gatekeeper-default"
+          ),
+        }
+      : {}),
+  });
+
+  if (values.tail) {
+    server.on(
+      "logs",
+      createLogPrinter(values.level ? { level: values.level } : {})
+    );
+  }
+
+  const url = await server.listen();
+  console.log(`[Lumberjack] Dev server listening on ${url}`);
+  console.log("");
+  console.log("Point the SDKs at it with:");
+  console.log(`  LUMBERJACK_ENDPOINT=${url}/logs/batch`);
+  console.log(`  LUMBERJACK_GATEKEEPER_ENDPOINT=${url}/gatekeeper`);
+  console.log(`  LUMBERJACK_API_KEY=${values["api-key"] ?? "dev"}`);
+  console.log(`  Browser SDK endpoint: ${url}/rum/events`);
+  console.log("");
+  console.log(`Query API: ${url}/api/logs, /api/spans, /api/traces/:id, ...`);
+
+  const stop = () => {
+    server.close().finally(() => process.exit(0));
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+}
+
+async function runTail(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      url: { type: "string" },
+      level: { type: "string" },
+    },
+  });
+
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+  await tailLogs(values.url ?? `http://127.0.0.1:${DEFAULT_PORT}`, {
+    signal: controller.signal,
+    ...(values.level ? { level: values.level } : {}),
+  });
+}
+
+async function main() {
+  const args = argv.slice(3);
+  switch (command) {
+    case "dev-server":
+      await runDevServer(args);
+      break;
+    case "tail":
+      await runTail(args);
+      break;
+    default:
+      // Commands of the core CLI, e.g. `lumberjack sourcemaps upload dist`
+      if (command && command in CLI_COMMANDS) {
+        process.exit(await runCli(argv.slice(2), "lumberjack"));
+      }
+      printUsage();
+      process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("Error:", error instanceof Error ? error.message : error);
+  process.exit(1);
+});
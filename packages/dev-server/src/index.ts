@@ -0,0 +1,26 @@
+export { DEFAULT_PORT, DevServer } from "./server.js";
+export type { DevServerOptions } from "./server.js";
+export { DevStore } from "./store.js";
+export type {
+  EventQuery,
+  LogQuery,
+  MetricQuery,
+  ObjectQuery,
+  SpanQuery,
+  StoredEvent,
+  StoredLog,
+  StoredMetricPoint,
+  StoredObject,
+  StoredSourceMap,
+  StoredSpan,
+} from "./store.js";
+export { createLogPrinter, tailLogs } from "./tail.js";
+export type { TailOptions } from "./tail.js";
+export type {
+  LogsPayload,
+  MetricsPayload,
+  ObjectsPayload,
+  RumPayload,
+  SourceMapPayload,
+  SpansPayload,
+} from "./types.js";
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { HttpExporter } from "@lumberjack-sdk/core";
+import type { EnrichedLogEntry } from "@lumberjack-sdk/core";
+import { DevServer } from "./server.js";
+import type { StoredLog } from "./store.js";
+
+function makeLog(
+  message: string,
+  overrides: Partial<EnrichedLogEntry> = {}
+): EnrichedLogEntry {
+  return {
+    message,
+    level: "info",
+    timestamp: 1700000000000,
+    msg: message,
+    lvl: "info",
+    ts: 1700000000000,
+    project_name: "test-project",
+    sdk_version: "2",
+    ...overrides,
+  } as EnrichedLogEntry;
+}
+
+describe("DevServer", () => {
+  let server: DevServer;
+  let url: string;
+
+  const start = async (options: { apiKey?: string } = {}) => {
+    server = new DevServer({ port: 0, database: ":memory:", ...options });
+    url = await server.listen();
+  };
+
+  const exporter = (apiKey = "dev") =>
+    new HttpExporter({
+      apiKey,
+      endpoint: `${url}/logs/batch`,
+      projectName: "test-project",
+      retry: { maxAttempts: 1 },
+    });
+
+  const get = async (path: string) => (await fetch(`${url}${path}`)).json();
+
+  beforeEach(async () => {
+    await start();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it("should store logs sent by the HttpExporter", async () => {
+    const result = await exporter().exportLogs([
+      makeLog("Payment failed", {
+        lvl: "error",
+        tid: "a".repeat(32),
+        props: { orderId: "o-1" },
+      }),
+      makeLog("Checkout started"),
+    ]);
+
+    expect(result.success).toBe(true);
+    const logs = (await get("/api/logs?level=error")) as StoredLog[];
+    expect(logs).toHaveLength(1);
+    expect(logs[0]).toMatchObject({
+      msg: "Payment failed",
+      project_name: "test-project",
+      tid: "a".repeat(32),
+      props: { orderId: "o-1" },
+    });
+    expect(await get("/api/logs?search=Checkout")).toHaveLength(1);
+  });
+
+  it("should store objects, spans and metrics", async () => {
+    const http = exporter();
+    await http.exportObjects([
+      {
+        name: "user",
+        id: "u1",
+        fields: { plan: "pro" },
+        project_name: "test-project",
+        sdk_version: "2",
+      },
+    ]);
+    await http.exportSpans({
+      resourceSpans: [
+        {
+          scopeSpans: [
+            {
+              spans: [
+                {
+                  traceId: "b".repeat(32),
+                  spanId: "c".repeat(16),
+                  name: "GET /users",
+                  kind: 2,
+                  startTimeUnixNano: "1000000",
+                  endTimeUnixNano: "4000000",
+                },
+              ],
+            },
+          ],
+        },
+      ],
+      project_name: "test-project",
+      sdk_version: "2",
+    });
+    await http.exportMetrics({
+      metrics: [
+        {
+          name: "orders.created",
+          kind: "counter",
+          temporality: "delta",
+          startTime: 1,
+          endTime: 2,
+          points: [{ attributes: { region: "eu" }, value: 3 }],
+        },
+      ],
+      timestamp: 2,
+      project_name: "test-project",
+      sdk_version: "2",
+    });
+
+    expect(await get("/api/objects?name=user")).toMatchObject([
+      { id: "u1", fields: { plan: "pro" } },
+    ]);
+    expect(await get(`/api/traces/${"b".repeat(32)}`)).toMatchObject({
+      spans: [{ name: "GET /users", duration_ms: 3 }],
+      logs: [],
+    });
+    expect(await get("/api/metrics?name=orders.created")).toMatchObject([
+      { attributes: { region: "eu" }, point: { value: 3 } },
+    ]);
+  });
+
+  it("should store browser events and source maps", async () => {
+    const post = (path: string, body: unknown) =>
+      fetch(`${url}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    await post("/rum/events", {
+      project_name: "web",
+      session_id: "s1",
+      events: [{ type: "custom", timestamp: 5, data: { name: "signup" } }],
+    });
+    const upload = await post("/source_maps", {
+      commit_sha: "abc123",
+      url: "https://app.test/static/app.js",
+      source_map: '{"version":3}',
+    });
+
+    expect(upload.status).toBe(200);
+    expect(await get("/api/events?session_id=s1")).toMatchObject([
+      { type: "custom", data: { name: "signup" } },
+    ]);
+    expect(await get("/api/source_maps")).toMatchObject([
+      { commit_sha: "abc123", url: "https://app.test/static/app.js" },
+    ]);
+  });
+
+  it("should store source maps uploaded as form data", async () => {
+    const form = new FormData();
+    form.append("project", "web");
+    form.append("commit", "def456");
+    form.append("sourcemap", new Blob(['{"version":3}']), "dist/app.js.map");
+
+    const upload = await fetch(`${url}/source_maps`, {
+      method: "POST",
+      body: form,
+    });
+
+    expect(upload.status).toBe(200);
+    expect(await get("/api/source_maps")).toMatchObject([
+      { project_name: "web", commit_sha: "def456", url: "dist/app.js.map" },
+    ]);
+  });
+
+  it("should answer gatekeeper checks", async () => {
+    await fetch(`${url}/api/gatekeepers/new-checkout`, {
+      method: "PUT",
+      body: JSON.stringify({ allowed: false }),
+    });
+
+    expect(await get("/gatekeeper/new-checkout")).toEqual({ allowed: false });
+    expect(await get("/gatekeeper/other")).toEqual({ allowed: true });
+    expect(await get("/gatekeeper/schema")).toEqual({
+      gatekeepers: ["new-checkout"],
+    });
+  });
+
+  it("should reject ingestion with the wrong API key", async () => {
+    await server.close();
+    await start({ apiKey: "secret" });
+
+    const rejected = await exporter("wrong").exportLogs([makeLog("nope")]);
+    const accepted = await exporter("secret").exportLogs([makeLog("yes")]);
+
+    expect(rejected).toMatchObject({ success: false, retryable: false });
+    expect(accepted.success).toBe(true);
+  });
+
+  it("should emit stored logs for tailing", async () => {
+    const tailed: StoredLog[] = [];
+    server.on("logs", (logs: StoredLog[]) => tailed.push(...logs));
+
+    await exporter().exportLogs([makeLog("live")]);
+
+    expect(tailed.map((log) => log.msg)).toEqual(["live"]);
+  });
+});
@@ -0,0 +1,481 @@
+import { EventEmitter } from "events";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { DevStore, StoredLog } from "./store.js";
+import type {
+  LogsPayload,
+  MetricsPayload,
+  ObjectsPayload,
+  RumPayload,
+  SourceMapPayload,
+  SpansPayload,
+} from "./types.js";
+
+export interface DevServerOptions {
+  /** @default 8418 */
+  port?: number;
+  /** @default "127.0.0.1" */
+  host?: string;
+  /**
+   * SQLite database file, or `:memory:`
+   * @default ".lumberjack/dev-server.db"
+   */
+  database?: string;
+  /** When set, ingestion requests must send this as their bearer token */
+  apiKey?: string;
+  /** Initial gatekeeper values */
+  gatekeepers?: Record<string, boolean>;
+  /**
+   * Value of gatekeepers that have not been set
+   * @default true
+   */
+  gatekeeperDefault?: boolean;
+  /**
+   * Largest accepted request body
+   * @default 52428800 (50 MB)
+   */
+  maxBodyBytes?: number;
+}
+
+export const DEFAULT_PORT = 8418;
+
+interface Request {
+  params: string[];
+  query: URLSearchParams;
+  body: unknown;
+  raw: IncomingMessage;
+  res: ServerResponse;
+}
+
+/** A JSON response, or undefined when the handler wrote the response itself */
+type Reply = { status: number; body: unknown } | undefined;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  /** Ingestion routes check the API key */
+  ingest: boolean;
+  handle: (request: Request) => Reply;
+}
+
+/** A `multipart/form-data` body, as sent by the sourcemap uploaders */
+class FormBody {
+  constructor(
+    readonly fields: Record<string, string>,
+    readonly files: Array<{ field: string; filename: string; content: string }>
+  ) {}
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type",
+};
+
+/**
+ * Local stand-in for the Lumberjack API. Accepts the same requests as
+ * `api.trylumberjack.com` from the Node and browser SDKs, stores them in
+ * SQLite and serves them back through a query API under `/api`.
+ *
+ * Emits `logs` with the stored rows of each `/logs/batch` request.
+ */
+export class DevServer extends EventEmitter {
+  readonly store: DevStore;
+  private readonly options: DevServerOptions;
+  private readonly gatekeeperDefault: boolean;
+  private readonly maxBodyBytes: number;
+  private readonly routes: Route[];
+  private server: Server | null = null;
+
+  constructor(options: DevServerOptions = {}) {
+    super();
+    this.options = options;
+    this.gatekeeperDefault = options.gatekeeperDefault ?? true;
+    this.maxBodyBytes = options.maxBodyBytes ?? 50 * 1024 * 1024;
+    this.store = new DevStore(options.database ?? ".lumberjack/dev-server.db");
+    for (const [key, allowed] of Object.entries(options.gatekeepers ?? {})) {
+      this.store.setGatekeeper(key, allowed);
+    }
+    this.routes = this.createRoutes();
+  }
+
+  /** Start listening; resolves with the base URL */
+  async listen(): Promise<string> {
+    const server = createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error("[Lumberjack]: Dev server request failed:", error);
+        if (!res.headersSent) {
+          this.send(res, 500, { error: "Internal server error" });
+        }
+      });
+    });
+    this.server = server;
+
+    const host = this.options.host ?? "127.0.0.1";
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port ?? DEFAULT_PORT, host, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+
+    const { port } = server.address() as AddressInfo;
+    return `http://${host}:${port}`;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+    this.store.close();
+  }
+
+  private createRoutes(): Route[] {
+    const store = this.store;
+    const ingest = (
+      method: string,
+      pattern: RegExp,
+      handle: Route["handle"]
+    ): Route => ({ method, pattern, ingest: true, handle });
+    const api = (
+      method: string,
+      pattern: RegExp,
+      handle: Route["handle"]
+    ): Route => ({ method, pattern, ingest: false, handle });
+
+    return [
+      ingest("POST", /^\/logs\/batch$/, ({ body }) => {
+        const payload = requireArray<LogsPayload>(body, "logs");
+        const logs = store.insertLogs(payload);
+        this.emit("logs", logs);
+        return accepted(logs.length);
+      }),
+      ingest("POST", /^\/objects\/register$/, ({ body }) =>
+        accepted(
+          store.insertObjects(requireArray<ObjectsPayload>(body, "objects"))
+        )
+      ),
+      ingest("POST", /^\/spans\/batch$/, ({ body }) =>
+        accepted(
+          store.insertSpans(requireArray<SpansPayload>(body, "resourceSpans"))
+        )
+      ),
+      ingest("POST", /^\/metrics\/batch$/, ({ body }) =>
+        accepted(
+          store.insertMetrics(requireArray<MetricsPayload>(body, "metrics"))
+        )
+      ),
+      // SDK health counters are accepted but not kept
+      ingest("POST", /^\/sdk\/metrics$/, () => accepted(1)),
+      ingest("POST", /^\/rum\/events$/, ({ body }) =>
+        accepted(store.insertEvents(requireArray<RumPayload>(body, "events")))
+      ),
+      ingest("POST", /^\/source_maps$/, ({ body }) => {
+        if (body instanceof FormBody) {
+          const maps = body.files.filter((file) => file.field === "sourcemap");
+          if (maps.length === 0) {
+            throw new HttpError(400, "Expected sourcemap files");
+          }
+          for (const map of maps) {
+            store.insertSourceMap({
+              ...optional("project_name", body.fields.project),
+              ...optional("commit_sha", body.fields.commit),
+              url: map.filename,
+              source_map: map.content,
+            });
+          }
+          return accepted(maps.length);
+        }
+
+        const payload = body as SourceMapPayload;
+        if (
+          typeof payload?.url !== "string" ||
+          typeof payload.source_map !== "string"
+        ) {
+          throw new HttpError(400, "Expected url and source_map strings");
+        }
+        store.insertSourceMap(payload);
+        return accepted(1);
+      }),
+      ingest("GET", /^\/gatekeeper\/schema$/, () => ({
+        status: 200,
+        body: { gatekeepers: Object.keys(store.listGatekeepers()) },
+      })),
+      ingest("GET", /^\/gatekeeper\/([^/]+)$/, ({ params }) => ({
+        status: 200,
+        body: {
+          allowed: store.getGatekeeper(params[0], this.gatekeeperDefault),
+        },
+      })),
+
+      api("GET", /^\/api\/logs$/, ({ query }) =>
+        ok(
+          store.queryLogs({
+            ...optional("project", query.get("project")),
+            ...optional("level", query.get("level")),
+            ...optional("search", query.get("search")),
+            ...optional("traceId", query.get("trace_id")),
+            ...optional("since", numberParam(query, "since")),
+            ...optional("afterId", numberParam(query, "after_id")),
+            ...optional("limit", numberParam(query, "limit")),
+          })
+        )
+      ),
+      api("GET", /^\/api\/logs\/stream$/, (request) => {
+        this.streamLogs(request);
+        return undefined;
+      }),
+      api("GET", /^\/api\/spans$/, ({ query }) =>
+        ok(
+          store.querySpans({
+            ...optional("project", query.get("project")),
+            ...optional("traceId", query.get("trace_id")),
+            ...optional("name", query.get("name")),
+            ...optional("limit", numberParam(query, "limit")),
+          })
+        )
+      ),
+      api("GET", /^\/api\/traces\/([0-9a-f]+)$/, ({ params }) =>
+        ok({
+          spans: store.querySpans({ traceId: params[0], limit: 10000 }),
+          logs: store.queryLogs({ traceId: params[0], limit: 10000 }),
+        })
+      ),
+      api("GET", /^\/api\/objects$/, ({ query }) =>
+        ok(
+          store.queryObjects({
+            ...optional("project", query.get("project")),
+            ...optional("name", query.get("name")),
+            ...optional("id", query.get("id")),
+            ...optional("limit", numberParam(query, "limit")),
+          })
+        )
+      ),
+      api("GET", /^\/api\/events$/, ({ query }) =>
+        ok(
+          store.queryEvents({
+            ...optional("project", query.get("project")),
+            ...optional("sessionId", query.get("session_id")),
+            ...optional("type", query.get("type")),
+            ...optional("limit", numberParam(query, "limit")),
+          })
+        )
+      ),
+      api("GET", /^\/api\/metrics$/, ({ query }) =>
+        ok(
+          store.queryMetrics({
+            ...optional("project", query.get("project")),
+            ...optional("name", query.get("name")),
+            ...optional("limit", numberParam(query, "limit")),
+          })
+        )
+      ),
+      api("GET", /^\/api\/source_maps$/, () => ok(store.listSourceMaps())),
+      api("GET", /^\/api\/gatekeepers$/, () => ok(store.listGatekeepers())),
+      api("PUT", /^\/api\/gatekeepers\/([^/]+)$/, ({ params, body }) => {
+        const allowed = (body as { allowed?: unknown })?.allowed;
+        if (typeof allowed !== "boolean") {
+          throw new HttpError(400, "Expected { allowed: boolean }");
+        }
+        store.setGatekeeper(params[0], allowed);
+        return ok({ key: params[0], allowed });
+      }),
+      api("DELETE", /^\/api\/data$/, () => {
+        store.clear();
+        return ok({ cleared: true });
+      }),
+    ];
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, CORS_HEADERS).end();
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    let match: RegExpExecArray | null = null;
+    const route = this.routes.find(
+      (candidate) =>
+        candidate.method === req.method &&
+        (match = candidate.pattern.exec(url.pathname)) !== null
+    );
+    if (!route || !match) {
+      this.send(res, 404, {
+        error: `No route for ${req.method} ${url.pathname}`,
+      });
+      return;
+    }
+
+    try {
+      if (route.ingest) {
+        this.authorize(req);
+      }
+      const reply = route.handle({
+        params: (match as RegExpExecArray)
+          .slice(1)
+          .map((param) => decodeURIComponent(param)),
+        query: url.searchParams,
+        body: await this.readBody(req),
+        raw: req,
+        res,
+      });
+      if (reply) {
+        this.send(res, reply.status, reply.body);
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        this.send(res, error.status, { error: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private authorize(req: IncomingMessage): void {
+    if (!this.options.apiKey) {
+      return;
+    }
+    if (req.headers.authorization !== `Bearer ${this.options.apiKey}`) {
+      throw new HttpError(401, "Invalid API key");
+    }
+  }
+
+  private async readBody(req: IncomingMessage): Promise<unknown> {
+    if (req.method === "GET" || req.method === "DELETE") {
+      return undefined;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > this.maxBodyBytes) {
+        throw new HttpError(413, "Request body too large");
+      }
+      chunks.push(chunk);
+    }
+    if (size === 0) {
+      return undefined;
+    }
+
+    const contentType = req.headers["content-type"] ?? "";
+    if (contentType.startsWith("multipart/form-data")) {
+      return this.readForm(Buffer.concat(chunks), contentType);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    } catch {
+      throw new HttpError(400, "Request body is not valid JSON");
+    }
+  }
+
+  private async readForm(body: Buffer, contentType: string): Promise<FormBody> {
+    let form: FormData;
+    try {
+      form = await new Response(body, {
+        headers: { "Content-Type": contentType },
+      }).formData();
+    } catch {
+      throw new HttpError(400, "Request body is not valid form data");
+    }
+
+    const fields: Record<string, string> = {};
+    const uploads: Array<{ field: string; file: File }> = [];
+    form.forEach((value, field) => {
+      if (typeof value === "string") {
+        fields[field] = value;
+      } else {
+        uploads.push({ field, file: value });
+      }
+    });
+
+    const files: FormBody["files"] = [];
+    for (const { field, file } of uploads) {
+      files.push({ field, filename: file.name, content: await file.text() });
+    }
+    return new FormBody(fields, files);
+  }
+
+  /** Server-sent events with each stored log, after any backlog since `after_id` */
+  private streamLogs({ query, raw, res }: Request): void {
+    res.writeHead(200, {
+      ...CORS_HEADERS,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    const write = (logs: StoredLog[]) => {
+      for (const log of logs) {
+        res.write(`id: ${log.id}\ndata: ${JSON.stringify(log)}\n\n`);
+      }
+    };
+
+    const afterId = numberParam(query, "after_id");
+    if (afterId !== undefined) {
+      write(this.store.queryLogs({ afterId, limit: 10000 }));
+    }
+
+    this.on("logs", write);
+    raw.on("close", () => this.off("logs", write));
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown): void {
+    res
+      .writeHead(status, {
+        ...CORS_HEADERS,
+        "Content-Type": "application/json",
+      })
+      .end(JSON.stringify(body));
+  }
+}
+
+function ok(body: unknown): Reply {
+  return { status: 200, body };
+}
+
+function accepted(count: number): Reply {
+  return { status: 200, body: { success: true, count } };
+}
+
+/** The payload, checked to have an array in `key` */
+function requireArray<T>(body: unknown, key: string): T {
+  if (!Array.isArray((body as Record<string, unknown> | undefined)?.[key])) {
+    throw new HttpError(400, `Expected a ${key} array`);
+  }
+  return body as T;
+}
+
+function numberParam(query: URLSearchParams, key: string): number | undefined {
+  const value = query.get(key);
+  if (value === null || value === "") {
+    return undefined;
+  }
+  const number = Number(value);
+  if (Number.isNaN(number)) {
+    throw new HttpError(400, `${key} must be a number`);
+  }
+  return number;
+}
+
+/** `{ [key]: value }` when the value is present, for exact optional types */
+function optional<K extends string, V>(
+  key: K,
+  value: V | null | undefined
+): { [P in K]?: V } {
+  return value === null || value === undefined
+    ? {}
+    : ({ [key]: value } as { [P in K]?: V });
+}
@@ -0,0 +1,601 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import type {
+  LogsPayload,
+  MetricsPayload,
+  ObjectsPayload,
+  RumPayload,
+  SourceMapPayload,
+  SpansPayload,
+} from "./types.js";
+
+export interface LogQuery {
+  project?: string;
+  level?: string;
+  /** Substring of the message */
+  search?: string;
+  traceId?: string;
+  /** Only logs with a timestamp at or after this, in milliseconds */
+  since?: number;
+  /** Only logs stored after this row ID, for polling */
+  afterId?: number;
+  limit?: number;
+}
+
+export interface SpanQuery {
+  project?: string;
+  traceId?: string;
+  name?: string;
+  limit?: number;
+}
+
+export interface ObjectQuery {
+  project?: string;
+  name?: string;
+  id?: string;
+  limit?: number;
+}
+
+export interface EventQuery {
+  project?: string;
+  sessionId?: string;
+  type?: string;
+  limit?: number;
+}
+
+export interface MetricQuery {
+  project?: string;
+  name?: string;
+  limit?: number;
+}
+
+export interface StoredLog {
+  id: number;
+  project_name: string;
+  sdk_version: string | null;
+  commit_sha: string | null;
+  msg: string;
+  lvl: string;
+  ts: number;
+  fl: string | null;
+  ln: number | null;
+  fn: string | null;
+  src: string | null;
+  tid: string | null;
+  sid: string | null;
+  tb: string | null;
+  exv: string | null;
+  ext: string | null;
+  props: Record<string, unknown> | null;
+  exception: Record<string, unknown> | null;
+}
+
+export interface StoredSpan {
+  project_name: string;
+  trace_id: string;
+  span_id: string;
+  parent_span_id: string | null;
+  name: string;
+  kind: number | null;
+  start_time_unix_nano: string;
+  end_time_unix_nano: string;
+  duration_ms: number;
+  status_code: number | null;
+  status_message: string | null;
+  scope: string | null;
+  attributes: unknown[] | null;
+  resource: Record<string, unknown> | null;
+  events: unknown[] | null;
+}
+
+export interface StoredObject {
+  project_name: string;
+  name: string;
+  id: string;
+  fields: Record<string, unknown>;
+  updated_at: number;
+}
+
+export interface StoredEvent {
+  id: number;
+  project_name: string;
+  session_id: string;
+  type: string;
+  timestamp: number;
+  data: unknown;
+  user_context: Record<string, unknown> | null;
+  properties: Record<string, unknown> | null;
+}
+
+export interface StoredMetricPoint {
+  id: number;
+  project_name: string;
+  name: string;
+  kind: string;
+  unit: string | null;
+  start_time: number;
+  end_time: number;
+  attributes: Record<string, unknown>;
+  point: Record<string, unknown>;
+}
+
+export interface StoredSourceMap {
+  project_name: string;
+  commit_sha: string;
+  url: string;
+  size: number;
+  uploaded_at: number;
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 10000;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_name TEXT NOT NULL,
+    sdk_version TEXT,
+    commit_sha TEXT,
+    msg TEXT NOT NULL,
+    lvl TEXT NOT NULL,
+    ts INTEGER NOT NULL,
+    fl TEXT,
+    ln INTEGER,
+    fn TEXT,
+    src TEXT,
+    tid TEXT,
+    sid TEXT,
+    tb TEXT,
+    exv TEXT,
+    ext TEXT,
+    props TEXT,
+    exception TEXT
+  );
+  CREATE INDEX IF NOT EXISTS logs_ts ON logs (ts);
+  CREATE INDEX IF NOT EXISTS logs_tid ON logs (tid);
+
+  CREATE TABLE IF NOT EXISTS objects (
+    project_name TEXT NOT NULL,
+    name TEXT NOT NULL,
+    id TEXT NOT NULL,
+    fields TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (project_name, name, id)
+  );
+
+  CREATE TABLE IF NOT EXISTS spans (
+    project_name TEXT NOT NULL,
+    trace_id TEXT NOT NULL,
+    span_id TEXT NOT NULL,
+    parent_span_id TEXT,
+    name TEXT NOT NULL,
+    kind INTEGER,
+    start_time_unix_nano TEXT NOT NULL,
+    end_time_unix_nano TEXT NOT NULL,
+    duration_ms REAL NOT NULL,
+    status_code INTEGER,
+    status_message TEXT,
+    scope TEXT,
+    attributes TEXT,
+    resource TEXT,
+    events TEXT,
+    PRIMARY KEY (trace_id, span_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS rum_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_name TEXT NOT NULL,
+    session_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    data TEXT,
+    user_context TEXT,
+    properties TEXT
+  );
+  CREATE INDEX IF NOT EXISTS rum_events_session ON rum_events (session_id);
+
+  CREATE TABLE IF NOT EXISTS metric_points (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_name TEXT NOT NULL,
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    unit TEXT,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER NOT NULL,
+    attributes TEXT NOT NULL,
+    point TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS source_maps (
+    project_name TEXT NOT NULL,
+    commit_sha TEXT NOT NULL,
+    url TEXT NOT NULL,
+    content TEXT NOT NULL,
+    uploaded_at INTEGER NOT NULL,
+    PRIMARY KEY (project_name, commit_sha, url)
+  );
+
+  CREATE TABLE IF NOT EXISTS gatekeepers (
+    key TEXT PRIMARY KEY,
+    allowed INTEGER NOT NULL
+  );
+`;
+
+const JSON_COLUMNS = [
+  "props",
+  "exception",
+  "fields",
+  "attributes",
+  "resource",
+  "events",
+  "data",
+  "user_context",
+  "properties",
+  "point",
+];
+
+/**
+ * SQLite storage for everything the SDKs send. Pass `:memory:` for a
+ * throwaway database. JSON-valued columns are parsed on the way out.
+ */
+export class DevStore {
+  private readonly db: Database.Database;
+
+  constructor(path: string = ":memory:") {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+  }
+
+  /** Store a `/logs/batch` payload; returns the stored rows */
+  insertLogs(payload: LogsPayload): StoredLog[] {
+    const insert = this.db.prepare(
+      `INSERT INTO logs (project_name, sdk_version, commit_sha, msg, lvl, ts,
+        fl, ln, fn, src, tid, sid, tb, exv, ext, props, exception)
+       VALUES (@project_name, @sdk_version, @commit_sha, @msg, @lvl, @ts,
+        @fl, @ln, @fn, @src, @tid, @sid, @tb, @exv, @ext, @props, @exception)`
+    );
+
+    return this.db.transaction(() =>
+      payload.logs.map((log) => {
+        const exception =
+          log.exp || log.exc || log.exa
+            ? { exp: log.exp, exc: log.exc, exa: log.exa }
+            : null;
+        const row = {
+          project_name: payload.project_name ?? "",
+          sdk_version: payload.sdk_version ?? null,
+          commit_sha: payload.commit_sha ?? null,
+          msg: String(log.msg ?? ""),
+          lvl: String(log.lvl ?? "info"),
+          ts: Number(log.ts ?? Date.now()),
+          fl: log.fl ?? null,
+          ln: log.ln ?? null,
+          fn: log.fn ?? null,
+          src: log.src ?? null,
+          tid: log.tid ?? null,
+          sid: log.sid ?? null,
+          tb: log.tb ?? null,
+          exv: log.exv ?? null,
+          ext: log.ext ?? null,
+          props: toJson(log.props),
+          exception: toJson(exception),
+        };
+        const { lastInsertRowid } = insert.run(row);
+        return parseRow<StoredLog>({ ...row, id: Number(lastInsertRowid) });
+      })
+    )();
+  }
+
+  /** Store an `/objects/register` payload, replacing earlier versions */
+  insertObjects(payload: ObjectsPayload): number {
+    const upsert = this.db.prepare(
+      `INSERT INTO objects (project_name, name, id, fields, updated_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (project_name, name, id)
+       DO UPDATE SET fields = excluded.fields, updated_at = excluded.updated_at`
+    );
+    const now = Date.now();
+
+    this.db.transaction(() => {
+      for (const object of payload.objects) {
+        upsert.run(
+          payload.project_name ?? "",
+          object.name ?? "",
+          String(object.id),
+          toJson(object.fields ?? {}),
+          now
+        );
+      }
+    })();
+    return payload.objects.length;
+  }
+
+  /** Store a `/spans/batch` OTLP payload */
+  insertSpans(payload: SpansPayload): number {
+    const upsert = this.db.prepare(
+      `INSERT OR REPLACE INTO spans (project_name, trace_id, span_id,
+        parent_span_id, name, kind, start_time_unix_nano, end_time_unix_nano,
+        duration_ms, status_code, status_message, scope, attributes, resource,
+        events)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    let count = 0;
+
+    this.db.transaction(() => {
+      for (const resourceSpans of payload.resourceSpans ?? []) {
+        for (const scopeSpans of resourceSpans.scopeSpans ?? []) {
+          for (const span of scopeSpans.spans ?? []) {
+            const start = toNanos(span.startTimeUnixNano);
+            const end = toNanos(span.endTimeUnixNano);
+            upsert.run(
+              payload.project_name ?? "",
+              span.traceId,
+              span.spanId,
+              span.parentSpanId || null,
+              span.name,
+              span.kind ?? null,
+              start.toString(),
+              end.toString(),
+              Number(end - start) / 1_000_000,
+              span.status?.code ?? null,
+              span.status?.message ?? null,
+              scopeSpans.scope?.name ?? null,
+              toJson(span.attributes),
+              toJson(resourceSpans.resource),
+              toJson(span.events)
+            );
+            count++;
+          }
+        }
+      }
+    })();
+    return count;
+  }
+
+  /** Store a `/rum/events` payload from the browser SDK */
+  insertEvents(payload: RumPayload): number {
+    const insert = this.db.prepare(
+      `INSERT INTO rum_events (project_name, session_id, type, timestamp, data,
+        user_context, properties)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    this.db.transaction(() => {
+      for (const event of payload.events) {
+        insert.run(
+          payload.project_name ?? "",
+          payload.session_id ?? "",
+          event.type,
+          Number(event.timestamp ?? Date.now()),
+          toJson(event.data),
+          toJson(payload.user_context),
+          toJson(payload.properties)
+        );
+      }
+    })();
+    return payload.events.length;
+  }
+
+  /** Store a `/metrics/batch` payload, one row per data point */
+  insertMetrics(payload: MetricsPayload): number {
+    const insert = this.db.prepare(
+      `INSERT INTO metric_points (project_name, name, kind, unit, start_time,
+        end_time, attributes, point)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    let count = 0;
+
+    this.db.transaction(() => {
+      for (const metric of payload.metrics) {
+        for (const { attributes, ...point } of metric.points ?? []) {
+          insert.run(
+            payload.project_name ?? "",
+            metric.name,
+            metric.kind,
+            metric.unit ?? null,
+            metric.startTime ?? payload.timestamp ?? Date.now(),
+            metric.endTime ?? payload.timestamp ?? Date.now(),
+            toJson(attributes ?? {}),
+            toJson(point)
+          );
+          count++;
+        }
+      }
+    })();
+    return count;
+  }
+
+  /** Store an uploaded source map, replacing one for the same file */
+  insertSourceMap(payload: SourceMapPayload): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO source_maps (project_name, commit_sha, url,
+          content, uploaded_at)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(
+        payload.project_name ?? "",
+        payload.commit_sha ?? "",
+        payload.url,
+        payload.source_map,
+        Date.now()
+      );
+  }
+
+  queryLogs(query: LogQuery = {}): StoredLog[] {
+    const where = new Conditions();
+    where.add("project_name = ?", query.project);
+    where.add("lvl = ?", query.level);
+    where.add("msg LIKE ?", query.search && `%${query.search}%`);
+    where.add("tid = ?", query.traceId);
+    where.add("ts >= ?", query.since);
+    where.add("id > ?", query.afterId);
+
+    return this.select<StoredLog>(
+      `SELECT * FROM logs ${where} ORDER BY id DESC LIMIT ?`,
+      [...where.params, limit(query.limit)]
+    ).reverse();
+  }
+
+  querySpans(query: SpanQuery = {}): StoredSpan[] {
+    const where = new Conditions();
+    where.add("project_name = ?", query.project);
+    where.add("trace_id = ?", query.traceId);
+    where.add("name = ?", query.name);
+
+    return this.select<StoredSpan>(
+      `SELECT * FROM spans ${where}
+       ORDER BY CAST(start_time_unix_nano AS INTEGER) LIMIT ?`,
+      [...where.params, limit(query.limit)]
+    );
+  }
+
+  queryObjects(query: ObjectQuery = {}): StoredObject[] {
+    const where = new Conditions();
+    where.add("project_name = ?", query.project);
+    where.add("name = ?", query.name);
+    where.add("id = ?", query.id);
+
+    return this.select<StoredObject>(
+      `SELECT * FROM objects ${where} ORDER BY updated_at DESC LIMIT ?`,
+      [...where.params, limit(query.limit)]
+    );
+  }
+
+  queryEvents(query: EventQuery = {}): StoredEvent[] {
+    const where = new Conditions();
+    where.add("project_name = ?", query.project);
+    where.add("session_id = ?", query.sessionId);
+    where.add("type = ?", query.type);
+
+    return this.select<StoredEvent>(
+      `SELECT * FROM rum_events ${where} ORDER BY timestamp, id LIMIT ?`,
+      [...where.params, limit(query.limit)]
+    );
+  }
+
+  queryMetrics(query: MetricQuery = {}): StoredMetricPoint[] {
+    const where = new Conditions();
+    where.add("project_name = ?", query.project);
+    where.add("name = ?", query.name);
+
+    return this.select<StoredMetricPoint>(
+      `SELECT * FROM metric_points ${where} ORDER BY id DESC LIMIT ?`,
+      [...where.params, limit(query.limit)]
+    ).reverse();
+  }
+
+  listSourceMaps(): StoredSourceMap[] {
+    return this.select<StoredSourceMap>(
+      `SELECT project_name, commit_sha, url, length(content) AS size,
+        uploaded_at
+       FROM source_maps ORDER BY uploaded_at DESC`,
+      []
+    );
+  }
+
+  getSourceMap(url: string, commitSha?: string): string | undefined {
+    const row = this.db
+      .prepare(
+        `SELECT content FROM source_maps
+         WHERE url = ? AND (? IS NULL OR commit_sha = ?)
+         ORDER BY uploaded_at DESC LIMIT 1`
+      )
+      .get(url, commitSha ?? null, commitSha ?? null) as
+      | { content: string }
+      | undefined;
+    return row?.content;
+  }
+
+  /** Whether a gatekeeper passes; unknown keys pass unless `defaultAllowed` is false */
+  getGatekeeper(key: string, defaultAllowed: boolean): boolean {
+    const row = this.db
+      .prepare("SELECT allowed FROM gatekeepers WHERE key = ?")
+      .get(key) as { allowed: number } | undefined;
+    return row ? row.allowed === 1 : defaultAllowed;
+  }
+
+  setGatekeeper(key: string, allowed: boolean): void {
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO gatekeepers (key, allowed) VALUES (?, ?)"
+      )
+      .run(key, allowed ? 1 : 0);
+  }
+
+  listGatekeepers(): Record<string, boolean> {
+    const rows = this.db
+      .prepare("SELECT key, allowed FROM gatekeepers ORDER BY key")
+      .all() as Array<{ key: string; allowed: number }>;
+    return Object.fromEntries(rows.map((row) => [row.key, row.allowed === 1]));
+  }
+
+  /** Delete all stored telemetry; gatekeepers are kept */
+  clear(): void {
+    this.db.exec(`
+      DELETE FROM logs;
+      DELETE FROM objects;
+      DELETE FROM spans;
+      DELETE FROM rum_events;
+      DELETE FROM metric_points;
+      DELETE FROM source_maps;
+    `);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private select<T>(sql: string, params: unknown[]): T[] {
+    return (
+      this.db.prepare(sql).all(...params) as Record<string, unknown>[]
+    ).map((row) => parseRow<T>(row));
+  }
+}
+
+/** SQL WHERE clause built from the filters that were given */
+class Conditions {
+  private readonly clauses: string[] = [];
+  readonly params: unknown[] = [];
+
+  add(clause: string, value: unknown): void {
+    if (value !== undefined && value !== null && value !== "") {
+      this.clauses.push(clause);
+      this.params.push(value);
+    }
+  }
+
+  toString(): string {
+    return this.clauses.length > 0 ? `WHERE ${this.clauses.join(" AND ")}` : "";
+  }
+}
+
+function limit(value: number | undefined): number {
+  return Math.min(Math.max(1, value ?? DEFAULT_LIMIT), MAX_LIMIT);
+}
+
+/** OTLP/JSON sends nanosecond times as strings, the Node SDK as numbers */
+function toNanos(value: number | string | undefined): bigint {
+  return typeof value === "string"
+    ? BigInt(value)
+    : BigInt(Math.trunc(value ?? 0));
+}
+
+function toJson(value: unknown): string | null {
+  return value === undefined || value === null ? null : JSON.stringify(value);
+}
+
+function parseRow<T>(row: Record<string, unknown>): T {
+  const parsed: Record<string, unknown> = { ...row };
+  for (const column of JSON_COLUMNS) {
+    if (typeof parsed[column] === "string") {
+      parsed[column] = JSON.parse(parsed[column] as string);
+    }
+  }
+  return parsed as T;
+}
@@ -0,0 +1,89 @@
+import {
+  PrettyConsoleExporter,
+  PrettyConsoleExporterConfig,
+} from "@lumberjack-sdk/core";
+import type { EnrichedLogEntry } from "@lumberjack-sdk/core";
+import type { StoredLog } from "./store.js";
+
+export interface TailOptions extends PrettyConsoleExporterConfig {
+  /** Only print logs at this level */
+  level?: string;
+}
+
+/** Print stored logs the way the SDK's pretty console output does */
+export function createLogPrinter(
+  options: TailOptions = {}
+): (logs: StoredLog[]) => void {
+  const { level, ...config } = options;
+  const exporter = new PrettyConsoleExporter(config);
+
+  return (logs) => {
+    const printed = level ? logs.filter((log) => log.lvl === level) : logs;
+    if (printed.length > 0) {
+      void exporter.exportLogs(printed.map(toEnrichedLog));
+    }
+  };
+}
+
+/**
+ * Follow a running dev server's log stream and print each log until the
+ * signal aborts or the server goes away
+ */
+export async function tailLogs(
+  baseUrl: string,
+  options: TailOptions & { signal?: AbortSignal } = {}
+): Promise<void> {
+  const { signal, ...printOptions } = options;
+  const print = createLogPrinter(printOptions);
+  const response = await fetch(
+    new URL("/api/logs/stream", baseUrl),
+    signal ? { signal } : {}
+  );
+  if (!response.ok || !response.body) {
+    throw new Error(
+      `[Lumberjack] Could not follow ${baseUrl}: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const events = buffer.split("\n\n");
+      buffer = events.pop() ?? "";
+      for (const event of events) {
+        const data = event
+          .split("\n")
+          .find((line) => line.startsWith("data: "));
+        if (data) {
+          print([JSON.parse(data.slice("data: ".length)) as StoredLog]);
+        }
+      }
+    }
+  } catch (error) {
+    if (!signal?.aborted) {
+      throw error;
+    }
+  }
+}
+
+function toEnrichedLog(log: StoredLog): EnrichedLogEntry {
+  return {
+    message: log.msg,
+    level: log.lvl,
+    timestamp: log.ts,
+    msg: log.msg,
+    lvl: log.lvl,
+    ts: log.ts,
+    ...(log.fl ? { fl: log.fl } : {}),
+    ...(log.ln ? { ln: log.ln } : {}),
+    ...(log.tid ? { tid: log.tid } : {}),
+    ...(log.tb ? { tb: log.tb } : {}),
+    ...(log.exv ? { exv: log.exv } : {}),
+    ...(log.ext ? { ext: log.ext } : {}),
+    ...(log.props ? { props: log.props } : {}),
+    project_name: log.project_name,
+    sdk_version: log.sdk_version ?? "",
+  } as EnrichedLogEntry;
+}
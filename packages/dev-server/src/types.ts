@@ -0,0 +1,57 @@
+import type {
+  LogEntryForAPI,
+  MetricData,
+  SpanExportRequest,
+} from "@lumberjack-sdk/core";
+
+/** Fields the Node SDK adds to every batch */
+interface BatchMetadata {
+  project_name?: string;
+  sdk_version?: string;
+  commit_sha?: string;
+}
+
+/** Body of `POST /logs/batch` */
+export interface LogsPayload extends BatchMetadata {
+  logs: LogEntryForAPI[];
+}
+
+/** Body of `POST /objects/register` */
+export interface ObjectsPayload extends BatchMetadata {
+  objects: Array<{
+    name?: string;
+    id: string;
+    fields?: Record<string, unknown>;
+  }>;
+}
+
+/** Body of `POST /spans/batch` */
+export interface SpansPayload extends SpanExportRequest, BatchMetadata {}
+
+/** Body of `POST /metrics/batch` */
+export interface MetricsPayload extends BatchMetadata {
+  metrics: MetricData[];
+  timestamp?: number;
+}
+
+/** Body of `POST /rum/events`, sent by the browser SDK */
+export interface RumPayload {
+  project_name?: string;
+  session_id?: string;
+  user_context?: Record<string, unknown>;
+  properties?: Record<string, unknown>;
+  events: Array<{ type: string; timestamp?: number; data?: unknown }>;
+}
+
+/**
+ * JSON body of `POST /source_maps`, one map per request. The route also
+ * takes the multipart form the sourcemap uploaders send.
+ */
+export interface SourceMapPayload {
+  project_name?: string;
+  commit_sha?: string;
+  /** URL of the minified file the map belongs to */
+  url: string;
+  /** The source map JSON */
+  source_map: string;
+}
@@ -88,7 +88,7 @@ describe("Source Map Upload", () => {
       // Import the actual function to test
       const { findSourceMapFiles } = await import("./config");
 
-      const result = findSourceMapFiles(false);
+      const result = await findSourceMapFiles(false);
 
       // Should find all source maps
       expect(result).toHaveLength(
@@ -133,7 +133,7 @@ describe("Source Map Upload", () => {
       rmSync(serverDir, { recursive: true, force: true });
 
       const { findSourceMapFiles } = await import("./config");
-      const result = findSourceMapFiles(false);
+      const result = await findSourceMapFiles(false);
 
       expect(result).toHaveLength(0);
     });
@@ -158,7 +158,7 @@ describe("Source Map Upload", () => {
       );
 
       const { findSourceMapFiles } = await import("./config");
-      const result = findSourceMapFiles(false);
+      const result = await findSourceMapFiles(false);
 
       expect(result).toHaveLength(1);
       expect(result[0].url).toBe(".next/server/app/api/hello/route.js.map");
@@ -179,7 +179,7 @@ describe("Source Map Upload", () => {
       );
 
       const { findSourceMapFiles } = await import("./config");
-      const result = findSourceMapFiles(false);
+      const result = await findSourceMapFiles(false);
 
       expect(result).toHaveLength(1);
       expect(result[0].url).toBe(".next/server/app/page.js.map");
@@ -195,7 +195,7 @@ describe("Source Map Upload", () => {
       writeFileSync(join(staticDir, "test.js.map"), "{}");
 
       const { findSourceMapFiles } = await import("./config");
-      findSourceMapFiles(true);
+      await findSourceMapFiles(true);
 
       expect(consoleSpy).toHaveBeenCalledWith(
         "[Lumberjack] Found sourcemap files:",
@@ -305,29 +305,44 @@ describe("Source Map Upload", () => {
         '{"version":3}'
       );
 
-      const { findSourceMapFiles, createSourceMapFormData } = await import(
+      const { findSourceMapFiles, uploadSourceMapsImpl } = await import(
         "./config"
       );
 
-      const files = findSourceMapFiles(false);
+      const files = await findSourceMapFiles(false);
       expect(files).toHaveLength(2);
 
-      // Test form data creation
-      const formData = await createSourceMapFormData(
-        files,
-        "test-project",
-        "test-commit",
-        false
-      );
-
-      // Should have metadata fields
-      expect(formData.get("project")).toBe("test-project");
-      expect(formData.get("commit")).toBe("test-commit");
-      expect(formData.get("version")).toBe("test-commit");
+      const fetchMock = jest.fn(async (_url: unknown, _init?: RequestInit) => ({
+        ok: true,
+        status: 200,
+      }));
+      global.fetch = fetchMock as unknown as typeof fetch;
+      jest.spyOn(console, "log").mockImplementation(() => {});
+
+      await uploadSourceMapsImpl({
+        serviceToken: "test-token",
+        uploadUrl: "https://example.com/source_maps",
+        project: "test-project",
+        commit: "test-commit",
+        debug: false,
+      });
 
-      // Should have sourcemap files
-      const sourcemapEntries = formData.getAll("sourcemap");
-      expect(sourcemapEntries).toHaveLength(2);
+      // One request per map, each with the metadata fields
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      const forms = fetchMock.mock.calls.map(
+        ([, init]) => init!.body as FormData
+      );
+      forms.forEach((form) => {
+        expect(form.get("project")).toBe("test-project");
+        expect(form.get("commit")).toBe("test-commit");
+        expect(form.get("version")).toBe("test-commit");
+      });
+      expect(
+        forms.map((form) => (form.get("sourcemap") as File).name).sort()
+      ).toEqual([
+        ".next/server/app/api/test/route.js.map",
+        ".next/static/chunks/main.js.map",
+      ]);
     });
   });
 });
@@ -1,7 +1,9 @@
+import { findSourceMaps, uploadSourceMaps } from "@lumberjack-sdk/core";
+import type { SourceMapFile } from "@lumberjack-sdk/core";
 import { execSync } from "child_process";
-import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { existsSync, readFileSync } from "fs";
 import type { NextConfig } from "next";
-import { join, relative } from "path";
+import { join } from "path";
 
 export interface LumberjackConfigOptions {
   /**
@@ -87,92 +89,43 @@ function getProjectName(debug = false): string | null {
   return null;
 }
 
-/**
- * Recursively find all .js.map files in a directory
- */
-function findFilesRecursive(dir: string, extension: string): string[] {
-  const files: string[] = [];
-
-  try {
-    const entries = readdirSync(dir);
-
-    for (const entry of entries) {
-      const fullPath = join(dir, entry);
-      const stat = statSync(fullPath);
-
-      if (stat.isDirectory()) {
-        files.push(...findFilesRecursive(fullPath, extension));
-      } else if (stat.isFile() && entry.endsWith(extension)) {
-        files.push(fullPath);
-      }
-    }
-  } catch (error) {
-    // Ignore errors (directory might not exist or be accessible)
-  }
-
-  return files;
-}
-
 /**
  * Find all sourcemap files in the Next.js build output
  */
-function findSourceMapFiles(
-  debug = false
-): Array<{ filePath: string; url: string }> {
+async function findSourceMapFiles(debug = false): Promise<SourceMapFile[]> {
   const buildDir = join(process.cwd(), ".next");
-  const staticDir = join(buildDir, "static");
-  const serverDir = join(buildDir, "server");
-
-  const files: Array<{ filePath: string; url: string }> = [];
+  const files: SourceMapFile[] = [];
 
-  // Find client-side source maps in .next/static
-  if (existsSync(staticDir)) {
-    try {
-      const clientSourcemaps = findFilesRecursive(staticDir, ".js.map");
-
-      clientSourcemaps.forEach((filePath: string) => {
-        const relativePath = relative(staticDir, filePath);
-        const url = `.next/static/${relativePath.replace(/\\/g, "/")}`;
-        files.push({ filePath, url });
-      });
-    } catch (error) {
+  // Client-side maps live in .next/static, server-side ones in .next/server
+  for (const name of ["static", "server"]) {
+    const dir = join(buildDir, name);
+    if (!existsSync(dir)) {
       if (debug) {
-        console.warn(
-          "[Lumberjack] Error finding client sourcemap files:",
-          error
-        );
+        console.warn(`[Lumberjack] No .next/${name} directory found`);
       }
+      continue;
     }
-  } else if (debug) {
-    console.warn("[Lumberjack] No .next/static directory found");
-  }
 
-  // Find server-side source maps in .next/server
-  if (existsSync(serverDir)) {
     try {
-      const serverSourcemaps = findFilesRecursive(serverDir, ".js.map");
-
-      serverSourcemaps.forEach((filePath: string) => {
-        const relativePath = relative(serverDir, filePath);
-        // Server files have a different URL pattern
-        const url = `.next/server/${relativePath.replace(/\\/g, "/")}`;
-        files.push({ filePath, url });
-      });
+      files.push(
+        ...(await findSourceMaps(dir, {
+          include: ["**/*.js.map"],
+          urlPrefix: `.next/${name}`,
+        }))
+      );
     } catch (error) {
       if (debug) {
         console.warn(
-          "[Lumberjack] Error finding server sourcemap files:",
+          `[Lumberjack] Error finding ${name} sourcemap files:`,
           error
         );
       }
     }
-  } else if (debug) {
-    console.warn("[Lumberjack] No .next/server directory found");
   }
 
   if (debug) {
     console.log("[Lumberjack] Found sourcemap files:", files.length);
-    files.forEach((file: { filePath: string; url: string }) => {
+    files.forEach((file) => {
       console.log(`  ${file.url} -> ${file.filePath}`);
     });
   }
@@ -180,49 +133,6 @@ function findSourceMapFiles(
   return files;
 }
 
-/**
- * Create FormData for sourcemap upload
- */
-async function createSourceMapFormData(
-  files: Array<{ filePath: string; url: string }>,
-  project: string,
-  commit: string,
-  debug = false
-): Promise<FormData> {
-  const formData = new FormData();
-
-  // Add metadata
-  formData.append("project", project);
-  formData.append("commit", commit);
-  formData.append("version", commit); // Use commit as version
-
-  // Add each sourcemap file
-  for (const file of files) {
-    try {
-      const content = readFileSync(file.filePath, "utf8");
-      const blob = new Blob([content], { type: "application/json" });
-
-      // Use the URL path as the field name
-      formData.append("sourcemap", blob, file.url);
-
-      if (debug) {
-        console.log(
-          `[Lumberjack] Added sourcemap: ${file.url} (${content.length} bytes)`
-        );
-      }
-    } catch (error) {
-      if (debug) {
-        console.warn(
-          `[Lumberjack] Failed to read sourcemap file ${file.filePath}:`,
-          error
-        );
-      }
-    }
-  }
-
-  return formData;
-}
-
 /**
  * Upload sourcemaps to Lumberjack
  */
@@ -246,7 +156,7 @@ async function uploadSourceMapsImpl(
     }
 
     // Find all sourcemap files
-    const sourcemapFiles = findSourceMapFiles(debug);
+    const sourcemapFiles = await findSourceMapFiles(debug);
 
     if (sourcemapFiles.length === 0) {
       if (debug) {
@@ -255,42 +165,25 @@ async function uploadSourceMapsImpl(
       return;
     }
 
-    // Create form data
-    const formData = await createSourceMapFormData(
-      sourcemapFiles,
+    const results = await uploadSourceMaps(sourcemapFiles, {
+      serviceToken,
+      endpoint: uploadUrl,
       project,
       commit,
-      debug
-    );
-
-    if (debug) {
-      console.log("[Lumberjack] Form data:", formData);
-    }
-
-    // Upload to Lumberjack API
-    const response = await fetch(uploadUrl, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${serviceToken}`,
-        "User-Agent": "@lumberjack-sdk/nextjs",
-      },
-      body: formData,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`HTTP ${response.status}: ${errorText}`);
-    }
-
-    const result = await response.json();
-
-    if (debug) {
-      console.log("[Lumberjack] Sourcemap upload successful:", result);
-    } else {
-      console.log(
-        `[Lumberjack] Successfully uploaded ${sourcemapFiles.length} sourcemap(s) for ${project}@${commit}`
+    const failed = results.filter((result) => !result.success);
+    if (failed.length > 0) {
+      throw new Error(
+        `${failed.length}/${results.length} sourcemap(s) failed: ${failed
+          .map((result) => `${result.file.url} (${result.error})`)
+          .join(", ")}`
       );
     }
+
+    console.log(
+      `[Lumberjack] Successfully uploaded ${results.length} sourcemap(s) for ${project}@${commit}`
+    );
   } catch (error) {
     console.error("[Lumberjack] Failed to upload sourcemaps:", error);
     throw error;
@@ -548,4 +441,4 @@ class SourceMapUploadPlugin {
 }
 
 // Export internal functions for testing
-export { createSourceMapFormData, findSourceMapFiles, uploadSourceMapsImpl };
+export { findSourceMapFiles, uploadSourceMapsImpl };